@@ -0,0 +1,86 @@
+// Compares the ball-tree KNN index with a brute-force scan on synthetic data
+// shaped like the voice features: a few latent factors spread over many
+// correlated columns, z-scored. Checks that both return the same neighbours.
+// Run with: npm run benchmark:knn
+
+import { buildBallTree, bruteForceNearest } from '../src/utils/ballTree';
+import { euclideanDistance } from '../src/utils/distance';
+
+const QUERIES = 200;
+const K = 15;
+
+const CASES = [
+  { rows: 188, columns: 16, latent: 6 },
+  { rows: 756, columns: 16, latent: 6 },
+  { rows: 756, columns: 754, latent: 12 },
+  { rows: 5000, columns: 16, latent: 6 },
+  { rows: 5000, columns: 754, latent: 12 },
+  // No structure at all: the worst case for any spatial index.
+  { rows: 756, columns: 754, latent: 0 },
+];
+
+// Seeded (mulberry32) so runs are comparable.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(random() || 1e-12)) * Math.cos(2 * Math.PI * random());
+}
+
+function syntheticVectors(rows: number, columns: number, latent: number, random: () => number): number[][] {
+  const loadings = Array.from({ length: columns }, () => Array.from({ length: latent }, () => gaussian(random)));
+  const vectors = Array.from({ length: rows }, () => {
+    const factors = Array.from({ length: latent }, () => gaussian(random));
+    return loadings.map((row) => row.reduce((sum, loading, index) => sum + loading * factors[index], 0) + (latent ? 0.3 : 1) * gaussian(random));
+  });
+  // z-score every column, as voiceKnnModel does
+  for (let column = 0; column < columns; column += 1) {
+    const mean = vectors.reduce((sum, vector) => sum + vector[column], 0) / rows;
+    const std = Math.sqrt(vectors.reduce((sum, vector) => sum + (vector[column] - mean) ** 2, 0) / (rows - 1)) || 1;
+    vectors.forEach((vector) => { vector[column] = (vector[column] - mean) / std; });
+  }
+  return vectors;
+}
+
+const time = (run: () => void) => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+console.log(`k = ${K}, ${QUERIES} queries per case, Euclidean distance\n`);
+console.log('| Rows | Columns | Latent factors | Build (ms) | Brute force (ms/query) | Ball tree (ms/query) | Speed-up | Identical |');
+console.log('| ---: | ---: | ---: | ---: | ---: | ---: | ---: | :---: |');
+CASES.forEach(({ rows, columns, latent }) => {
+  const random = createRandom(rows * 31 + columns * 7 + latent);
+  const vectors = syntheticVectors(rows + QUERIES, columns, latent, random);
+  const training = vectors.slice(0, rows);
+  const queries = vectors.slice(rows);
+
+  let tree = buildBallTree([]);
+  const buildMs = time(() => { tree = buildBallTree(training); });
+  let bruteResults: number[][] = [];
+  const bruteMs = time(() => {
+    bruteResults = queries.map((query) => bruteForceNearest(training, query, K, euclideanDistance).map(({ index }) => index));
+  });
+  let treeResults: number[][] = [];
+  const treeMs = time(() => {
+    treeResults = queries.map((query) => tree.nearest(query, K).map(({ index }) => index));
+  });
+  const identical = bruteResults.every((indices, query) => indices.join() === treeResults[query].join());
+  console.log(
+    `| ${rows} | ${columns} | ${latent || 'none'} | ${buildMs.toFixed(1)} | ${(bruteMs / QUERIES).toFixed(3)} | `
+    + `${(treeMs / QUERIES).toFixed(3)} | ${(bruteMs / treeMs).toFixed(1)}x | ${identical ? 'yes' : 'NO'} |`,
+  );
+  if (!identical) {
+    process.exitCode = 1;
+  }
+});
@@ -0,0 +1,90 @@
+// Builds the precompiled voice model the app loads from /models/voice/model.json.
+// Run with: npm run build:voice-model -- [--dataset path] [--out path]
+//   [--feature-groups baseline,mfcc] [--classifier knn] [--params k=7]
+//   [--calibration platt|isotonic] [--imputation median|class-median]
+// Options default to the matching VITE_VOICE_* environment variables, which
+// must agree with the app's configuration or the app will ignore the artifact
+// and train from the CSV instead.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { parseVoiceClassifierConfig } from '../src/services/voiceClassifiers';
+import { buildVoiceModelArtifact, VoiceFeatureGroup } from '../src/services/voiceKnnModel';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const { values } = parseArgs({
+  options: {
+    dataset: { type: 'string', default: path.join(__dirname, '..', 'public', 'data', 'pd_speech_features.csv') },
+    out: { type: 'string', default: path.join(__dirname, '..', 'public', 'models', 'voice', 'model.json') },
+    'feature-groups': { type: 'string', default: process.env.VITE_VOICE_FEATURE_GROUPS },
+    classifier: { type: 'string', default: process.env.VITE_VOICE_CLASSIFIER },
+    params: { type: 'string', default: process.env.VITE_VOICE_CLASSIFIER_PARAMS },
+    calibration: { type: 'string', default: process.env.VITE_VOICE_PROBABILITY_CALIBRATION },
+    imputation: { type: 'string', default: process.env.VITE_VOICE_IMPUTATION },
+  },
+});
+
+// Seven significant digits is float32 precision, well beyond what the
+// features are measured to, and roughly halves the file size.
+const roundNumbers = (_key: string, value: unknown) =>
+  typeof value === 'number' && !Number.isInteger(value) ? Number(value.toPrecision(7)) : value;
+
+(async function main() {
+  try {
+    if (!fs.existsSync(values.dataset!)) throw new Error('CSV not found at ' + values.dataset);
+    console.log('Building voice model from', values.dataset);
+    const csvText = fs.readFileSync(values.dataset!, 'utf8');
+
+    // With no classifier or parameters configured the KNN grid search runs,
+    // as it does in the app.
+    const tune = !values.classifier && !values.params;
+    const featureGroups = values['feature-groups']
+      ?.split(',')
+      .map((group) => group.trim())
+      .filter(Boolean) as VoiceFeatureGroup[] | undefined;
+    let lastReported = -1;
+    const artifact = await buildVoiceModelArtifact(csvText, {
+      classifier: tune ? undefined : parseVoiceClassifierConfig(values.classifier, values.params),
+      featureGroups,
+      probabilityCalibration: values.calibration === 'isotonic' ? 'isotonic' : 'platt',
+      imputation: values.imputation === 'class-median' ? 'class-median' : 'median',
+      tune,
+      onProgress: (fraction) => {
+        const percent = Math.floor(fraction * 10) * 10;
+        if (percent > lastReported) {
+          lastReported = percent;
+          console.log(`  ${percent}%`);
+        }
+      },
+    });
+
+    fs.mkdirSync(path.dirname(values.out!), { recursive: true });
+    const json = JSON.stringify(artifact, roundNumbers);
+    fs.writeFileSync(values.out!, json);
+    console.log('Classifier:', artifact.classifier.algorithm, artifact.classifier.parameters);
+    if (artifact.selectionScores) {
+      console.log(
+        'Selection scores (optimistic, the search chose the parameters on these folds):',
+        `${artifact.selectionScores.strategy}, ROC AUC ${artifact.selectionScores.rocAuc?.toFixed(3) ?? 'n/a'}`,
+      );
+    } else {
+      console.log('Evaluation:', artifact.evaluation
+        ? `${artifact.evaluation.strategy}, ROC AUC ${artifact.evaluation.rocAuc?.toFixed(3) ?? 'n/a'}`
+        : 'dataset too small to cross-validate');
+    }
+    const { validation } = artifact.dataset;
+    console.log('Dataset sha256:', artifact.dataset.sha256);
+    console.log(
+      `Dataset: ${validation.rows} rows, ${validation.droppedRows.length} dropped, `
+      + `${Object.values(validation.missingValues).reduce((sum, count) => sum + (count ?? 0), 0)} values imputed (${validation.imputation})`,
+    );
+    validation.droppedRows.forEach(({ row, reason }) => console.log(`  row ${row} ${reason}`));
+    console.log(`Wrote ${values.out} (${(json.length / 1024).toFixed(0)} KiB)`);
+  } catch (err) {
+    console.error('Error:', err);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,195 @@
+// Cross-validates the KNN voice model on a dataset CSV with the app's own code
+// and writes JSON and Markdown evaluation reports.
+// Run with: npm run evaluate:voice-model -- [--dataset path] [--out-dir path]
+//   [--k 1,3,5] [--metric euclidean] [--weighting uniform]
+//   [--feature-groups baseline,mfcc] [--strategy leave-one-subject-out|stratified-k-fold]
+//   [--calibration platt|isotonic] [--imputation median|class-median]
+// Every k in the list is evaluated separately; the metrics describe the
+// calibrated out-of-fold probabilities, exactly as the app reports them.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { KNN_DISTANCE_METRICS, KNN_WEIGHTINGS, VoiceClassifierConfig, describeVoiceClassifier } from '../src/services/voiceClassifiers';
+import type { FoldSpread, VoiceEvaluationStrategy } from '../src/services/voiceEvaluation';
+import { KNN_K_CANDIDATES } from '../src/services/voiceHyperparameterSearch';
+import { buildVoiceModelArtifact, VoiceFeatureGroup } from '../src/services/voiceKnnModel';
+import type { VoiceModelArtifact } from '../src/services/voiceModelArtifact';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const STRATEGIES: readonly VoiceEvaluationStrategy[] = ['leave-one-subject-out', 'stratified-k-fold'];
+
+const { values } = parseArgs({
+  options: {
+    dataset: { type: 'string', default: path.join(__dirname, '..', 'public', 'data', 'pd_speech_features.csv') },
+    'out-dir': { type: 'string', default: path.join(__dirname, '..', 'reports') },
+    k: { type: 'string', default: KNN_K_CANDIDATES.join(',') },
+    metric: { type: 'string' },
+    weighting: { type: 'string' },
+    'feature-groups': { type: 'string', default: process.env.VITE_VOICE_FEATURE_GROUPS },
+    strategy: { type: 'string', default: 'leave-one-subject-out' },
+    calibration: { type: 'string', default: process.env.VITE_VOICE_PROBABILITY_CALIBRATION },
+    imputation: { type: 'string', default: process.env.VITE_VOICE_IMPUTATION },
+  },
+});
+
+interface EvaluationRun {
+  classifier: VoiceClassifierConfig;
+  description: string;
+  evaluation: VoiceModelArtifact['evaluation'];
+  probabilityCalibration: VoiceModelArtifact['probabilityCalibration'];
+}
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+const perFold = (spread: FoldSpread | null) =>
+  spread ? `${percent(spread.mean)} ± ${percent(Math.sqrt(spread.variance))}` : 'n/a';
+
+function renderMarkdown(
+  datasetPath: string,
+  artifact: VoiceModelArtifact,
+  strategy: VoiceEvaluationStrategy,
+  runs: EvaluationRun[],
+  generatedAt: string,
+): string {
+  const { validation } = artifact.dataset;
+  const imputed = Object.values(validation.missingValues).reduce((sum, count) => sum + (count ?? 0), 0);
+  const lines = [
+    '# Voice Model Evaluation',
+    '',
+    `Generated ${generatedAt} by \`npm run evaluate:voice-model\`.`,
+    '',
+    '## Dataset',
+    '',
+    `- File: \`${path.basename(datasetPath)}\` (SHA-256 \`${artifact.dataset.sha256}\`)`,
+    `- Recordings: ${artifact.dataset.sampleCount} of ${validation.rows} rows `
+      + `(Parkinson's ${validation.classBalance.Parkinsons}, healthy ${validation.classBalance.Healthy})`,
+    `- Subjects: ${validation.subjects}`,
+    `- Dropped rows: ${validation.droppedRows.length}`,
+    ...validation.droppedRows.map(({ row, reason }) => `  - row ${row} ${reason}`),
+    `- Imputed values: ${imputed} (${validation.imputation})`,
+    '',
+    '## Setup',
+    '',
+    `- Feature groups: ${artifact.featureGroups.join(', ')} (${artifact.features.length} features, z-scored)`,
+    `- Split: ${strategy}, grouped by subject`,
+    `- Probability calibration: ${runs[0]?.probabilityCalibration?.calibrator.method ?? 'n/a'}, fitted on out-of-fold scores`,
+    '',
+    '## Results',
+    '',
+    'Pooled over all held-out recordings; a probability of 0.5 or more counts as Parkinson\'s. '
+      + 'Per-fold accuracy is the mean ± standard deviation across folds.',
+    '',
+    '| Classifier | Folds | Accuracy | Per-fold accuracy | Sensitivity | Specificity | ROC AUC | Brier score | TP | FN | TN | FP |',
+    '| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+    ...runs.map(({ description, evaluation, probabilityCalibration }) => {
+      if (!evaluation) {
+        return `| ${description} | - | dataset too small to cross-validate | | | | | | | | | |`;
+      }
+      const matrix = evaluation.confusionMatrix;
+      return `| ${[
+        description,
+        evaluation.folds,
+        percent(evaluation.accuracy),
+        perFold(evaluation.perFold.accuracy),
+        percent(evaluation.sensitivity),
+        percent(evaluation.specificity),
+        evaluation.rocAuc?.toFixed(3) ?? 'n/a',
+        probabilityCalibration?.brierScore.toFixed(3) ?? 'n/a',
+        matrix.truePositive,
+        matrix.falseNegative,
+        matrix.trueNegative,
+        matrix.falsePositive,
+      ].join(' | ')} |`;
+    }),
+    '',
+  ];
+  return lines.join('\n');
+}
+
+(async function main() {
+  try {
+    if (!fs.existsSync(values.dataset!)) throw new Error('CSV not found at ' + values.dataset);
+    const kValues = values.k!.split(',').map((k) => Number(k.trim()));
+    if (!kValues.length || kValues.some((k) => !Number.isInteger(k) || k < 1)) {
+      throw new Error(`--k must be a comma-separated list of positive integers, got "${values.k}".`);
+    }
+    if (values.metric && !(KNN_DISTANCE_METRICS as readonly string[]).includes(values.metric)) {
+      throw new Error(`--metric must be one of ${KNN_DISTANCE_METRICS.join(', ')}.`);
+    }
+    if (values.weighting && !(KNN_WEIGHTINGS as readonly string[]).includes(values.weighting)) {
+      throw new Error(`--weighting must be one of ${KNN_WEIGHTINGS.join(', ')}.`);
+    }
+    if (!(STRATEGIES as readonly string[]).includes(values.strategy!)) {
+      throw new Error(`--strategy must be one of ${STRATEGIES.join(', ')}.`);
+    }
+    const strategy = values.strategy as VoiceEvaluationStrategy;
+    const featureGroups = values['feature-groups']
+      ?.split(',')
+      .map((group) => group.trim())
+      .filter(Boolean) as VoiceFeatureGroup[] | undefined;
+
+    console.log('Evaluating voice model on', values.dataset);
+    const csvText = fs.readFileSync(values.dataset!, 'utf8');
+    let artifact: VoiceModelArtifact | null = null;
+    const runs: EvaluationRun[] = [];
+    for (const k of kValues) {
+      const classifier: VoiceClassifierConfig = {
+        algorithm: 'knn',
+        parameters: {
+          k,
+          ...(values.metric ? { metric: values.metric } : {}),
+          ...(values.weighting ? { weighting: values.weighting } : {}),
+        },
+      };
+      artifact = await buildVoiceModelArtifact(csvText, {
+        classifier,
+        featureGroups,
+        evaluation: strategy,
+        probabilityCalibration: values.calibration === 'isotonic' ? 'isotonic' : 'platt',
+        imputation: values.imputation === 'class-median' ? 'class-median' : 'median',
+      });
+      const unknownGroups = featureGroups?.filter((group) => !artifact!.featureGroups.includes(group)) ?? [];
+      if (unknownGroups.length) {
+        throw new Error(`Unknown feature group(s): ${unknownGroups.join(', ')}.`);
+      }
+      // The fitted state (the training vectors, for KNN) is left out of the report.
+      const run: EvaluationRun = {
+        classifier: { algorithm: artifact.classifier.algorithm, parameters: artifact.classifier.parameters },
+        description: describeVoiceClassifier(artifact.classifier),
+        evaluation: artifact.evaluation,
+        probabilityCalibration: artifact.probabilityCalibration,
+      };
+      runs.push(run);
+      console.log(
+        `  ${run.description}: accuracy ${percent(run.evaluation?.accuracy ?? null)}, `
+        + `ROC AUC ${run.evaluation?.rocAuc?.toFixed(3) ?? 'n/a'}`,
+      );
+    }
+
+    const generatedAt = new Date().toISOString();
+    const report = {
+      generatedAt,
+      dataset: {
+        file: path.basename(values.dataset!),
+        sha256: artifact!.dataset.sha256,
+        sampleCount: artifact!.dataset.sampleCount,
+        validation: artifact!.dataset.validation,
+      },
+      featureGroups: artifact!.featureGroups,
+      features: artifact!.features,
+      strategy,
+      runs,
+    };
+    fs.mkdirSync(values['out-dir']!, { recursive: true });
+    const jsonPath = path.join(values['out-dir']!, 'voice-evaluation.json');
+    const markdownPath = path.join(values['out-dir']!, 'voice-evaluation.md');
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2) + '\n');
+    fs.writeFileSync(markdownPath, renderMarkdown(values.dataset!, artifact!, strategy, runs, generatedAt));
+    console.log(`Wrote ${jsonPath} and ${markdownPath}`);
+  } catch (err) {
+    console.error('Error:', err);
+    process.exit(1);
+  }
+})();
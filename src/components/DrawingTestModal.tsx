@@ -0,0 +1,330 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import Card from './Card';
+import { X, LoaderCircle, AlertCircle, RefreshCw, Check } from 'lucide-react';
+import { supabase } from '../lib/supabaseClient';
+import { useAuth } from '../hooks/useAuth';
+import {
+  analyseDrawing,
+  createDrawingGuide,
+  DRAWING_ANALYSIS_VERSION,
+  DrawingKinematics,
+  DrawingTemplate,
+  guidePoints,
+  PenSample,
+  PenStroke,
+  TREMOR_BAND_HZ,
+} from '../services/drawingKinematics';
+import { analyseSpiralGeometry, densifyPolylines, SpiralGeometry } from '../services/spiralGeometry';
+import type { Database } from '../types/database';
+import { toJson } from '../utils/json';
+import SpiralGeometrySummary from './SpiralGeometrySummary';
+
+type TestInsert = Database['public']['Tables']['tests']['Insert'];
+
+// Logical size of the drawing surface; the canvas is scaled to fit the modal
+// and pointer positions are mapped back, so results do not depend on the screen.
+const SURFACE: Record<DrawingTemplate, { width: number; height: number }> = {
+  spiral: { width: 480, height: 480 },
+  wave: { width: 480, height: 260 },
+};
+
+const INSTRUCTIONS: Record<DrawingTemplate, string> = {
+  spiral: 'Trace the spiral from the centre outwards without resting your hand, at your normal pace.',
+  wave: 'Trace the wave from left to right without resting your hand, at your normal pace.',
+};
+
+const summariseKinematics = (kinematics: DrawingKinematics) =>
+  [
+    `${kinematics.template === 'spiral' ? 'Spiral' : 'Wave'} drawn in ${(kinematics.durationMs / 1000).toFixed(1)} s with ${kinematics.penLifts} pen lift(s).`,
+    `Mean speed ${kinematics.speed.mean.toFixed(0)} px/s, mean jerk ${kinematics.jerk.mean.toFixed(0)} px/s³.`,
+    kinematics.tremor
+      ? `Tremor peak ${kinematics.tremor.frequencyHz.toFixed(1)} Hz, amplitude ${kinematics.tremor.amplitude.toFixed(2)} px.`
+      : 'Strokes too short to estimate tremor.',
+  ].join(' ');
+
+const DrawingTestModal = ({ onClose }: { onClose: () => void }) => {
+  const [template, setTemplate] = useState<DrawingTemplate>('spiral');
+  const [strokeCount, setStrokeCount] = useState(0);
+  const [kinematics, setKinematics] = useState<DrawingKinematics | null>(null);
+  const [spiralGeometry, setSpiralGeometry] = useState<SpiralGeometry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokesRef = useRef<PenStroke[]>([]);
+  const activeStrokeRef = useRef<PenStroke | null>(null);
+  // Only the pointer that started the stroke draws it; a resting palm or a
+  // second finger would otherwise end it or mix its samples in.
+  const activePointerRef = useRef<number | null>(null);
+  const { user } = useAuth();
+
+  const surface = SURFACE[template];
+  const guide = createDrawingGuide(template, surface.width, surface.height);
+
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = surface.width * scale;
+    canvas.height = surface.height * scale;
+    context.setTransform(scale, 0, 0, scale, 0, 0);
+    context.clearRect(0, 0, surface.width, surface.height);
+
+    context.strokeStyle = 'rgba(148, 163, 184, 0.45)';
+    context.lineWidth = 6;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    guidePoints(guide).forEach(({ x, y }, index) => (index ? context.lineTo(x, y) : context.moveTo(x, y)));
+    context.stroke();
+
+    context.strokeStyle = '#38bdf8';
+    context.lineWidth = 2;
+    strokesRef.current.forEach(({ samples }) => {
+      context.beginPath();
+      samples.forEach(({ x, y }, index) => (index ? context.lineTo(x, y) : context.moveTo(x, y)));
+      context.stroke();
+    });
+  };
+
+  useEffect(redraw, [template]);
+
+  const toSample = (event: PointerEvent, rect: DOMRect): PenSample => ({
+    x: ((event.clientX - rect.left) * surface.width) / rect.width,
+    y: ((event.clientY - rect.top) * surface.height) / rect.height,
+    t: event.timeStamp,
+    pressure: event.pressure,
+    tiltX: event.tiltX,
+    tiltY: event.tiltY,
+  });
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (kinematics) return;
+    event.preventDefault();
+    if (activeStrokeRef.current) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const rect = event.currentTarget.getBoundingClientRect();
+    activePointerRef.current = event.pointerId;
+    activeStrokeRef.current = { pointerType: event.pointerType, samples: [toSample(event.nativeEvent, rect)] };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    const stroke = activeStrokeRef.current;
+    const context = canvasRef.current?.getContext('2d');
+    if (!stroke || !context || event.pointerId !== activePointerRef.current) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    // Coalesced events carry the samples the browser merged into this one,
+    // which roughly doubles the rate on most pens.
+    const events = event.nativeEvent.getCoalescedEvents?.() ?? [];
+    const samples = (events.length ? events : [event.nativeEvent]).map((pointerEvent) => toSample(pointerEvent, rect));
+    context.strokeStyle = '#38bdf8';
+    context.lineWidth = 2;
+    context.beginPath();
+    const last = stroke.samples[stroke.samples.length - 1];
+    context.moveTo(last.x, last.y);
+    samples.forEach(({ x, y }) => context.lineTo(x, y));
+    context.stroke();
+    stroke.samples.push(...samples);
+  };
+
+  const handlePointerUp = (event: ReactPointerEvent<HTMLCanvasElement>) => {
+    const stroke = activeStrokeRef.current;
+    if (!stroke || event.pointerId !== activePointerRef.current) return;
+    activeStrokeRef.current = null;
+    activePointerRef.current = null;
+    strokesRef.current.push(stroke);
+    setStrokeCount(strokesRef.current.length);
+  };
+
+  const clearDrawing = (nextTemplate = template) => {
+    strokesRef.current = [];
+    activeStrokeRef.current = null;
+    activePointerRef.current = null;
+    setStrokeCount(0);
+    setKinematics(null);
+    setSpiralGeometry(null);
+    setError(null);
+    setSaveMessage(null);
+    if (nextTemplate === template) {
+      redraw();
+    } else {
+      setTemplate(nextTemplate);
+    }
+  };
+
+  const finishDrawing = () => {
+    try {
+      setError(null);
+      setKinematics(analyseDrawing(strokesRef.current, guide));
+    } catch (analysisError) {
+      setError(analysisError instanceof Error ? analysisError.message : 'Could not analyse the drawing.');
+      return;
+    }
+    if (template !== 'spiral') return;
+    // The geometry is an extra; a spiral it cannot trace still has its kinematics.
+    try {
+      setSpiralGeometry(analyseSpiralGeometry(densifyPolylines(strokesRef.current.map(({ samples }) => samples))));
+    } catch (analysisError) {
+      console.warn('Spiral geometry analysis failed:', analysisError);
+    }
+  };
+
+  const saveResult = async () => {
+    if (!kinematics) return;
+    if (!user) {
+      setSaveMessage('Sign in to save results to your dashboard.');
+      return;
+    }
+    setSaving(true);
+    setSaveMessage(null);
+    const createdAt = new Date().toISOString();
+    const result = {
+      template: kinematics.template,
+      details: summariseKinematics(kinematics),
+      tremorFrequencyHz: kinematics.tremor?.frequencyHz ?? null,
+      tremorAmplitude: kinematics.tremor?.amplitude ?? null,
+      spiralGeometry: toJson(spiralGeometry),
+      createdAt,
+      source: 'drawing-test-local',
+    };
+    const modelVersions = { drawingAnalysis: DRAWING_ANALYSIS_VERSION };
+    try {
+      // The raw pen samples are kept so the features can be recomputed later.
+      const filePath = `drawing/${user.id}/${user.id}-${Date.now()}.json`;
+      const recording = new Blob([JSON.stringify({ guide, strokes: strokesRef.current })], { type: 'application/json' });
+      const { error: uploadError } = await supabase.storage.from('test_artifacts').upload(filePath, recording);
+      if (uploadError) throw uploadError;
+      const row: TestInsert = {
+        patient_id: user.id,
+        test_type: 'drawing',
+        raw_storage_path: filePath,
+        result,
+        kinematics: toJson(kinematics),
+        model_versions: modelVersions,
+      };
+      const { error: insertError } = await supabase.from('tests').insert(row);
+      if (insertError) throw insertError;
+      setSaveMessage('Drawing test saved to dashboard.');
+    } catch (dbError) {
+      // Fallback: Save to localStorage under `local_tests` to match other components
+      console.warn('Supabase not available, saving drawing test locally:', dbError);
+      const localTests = JSON.parse(localStorage.getItem('local_tests') || '[]');
+      localTests.unshift({
+        id: `local-${Date.now()}`,
+        patient_id: user.id,
+        test_type: 'drawing',
+        raw_storage_path: null,
+        status: 'completed',
+        created_at: createdAt,
+        result,
+        kinematics,
+        model_versions: modelVersions,
+      });
+      localStorage.setItem('local_tests', JSON.stringify(localTests));
+      setSaveMessage('Drawing test saved locally (offline mode).');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const metrics: Array<[string, string]> = kinematics
+    ? [
+        ['Duration', `${(kinematics.durationMs / 1000).toFixed(1)} s (${(kinematics.penDownMs / 1000).toFixed(1)} s pen down)`],
+        ['Pen lifts', String(kinematics.penLifts)],
+        ['Speed', `${kinematics.speed.mean.toFixed(0)} px/s (max ${kinematics.speed.max.toFixed(0)})`],
+        ['Acceleration', `${kinematics.acceleration.mean.toFixed(0)} px/s²`],
+        ['Jerk', `${kinematics.jerk.mean.toFixed(0)} px/s³ (normalised ${kinematics.normalisedJerk.toFixed(0)})`],
+        [
+          'Tremor',
+          kinematics.tremor
+            ? `${kinematics.tremor.frequencyHz.toFixed(1)} Hz, ${kinematics.tremor.amplitude.toFixed(2)} px`
+            : 'Strokes too short to estimate',
+        ],
+        ['Deviation from curve', `${kinematics.deviation.rms.toFixed(1)} px RMS`],
+        ['Pressure', kinematics.pressure ? `${kinematics.pressure.mean.toFixed(2)} ± ${kinematics.pressure.std.toFixed(2)}` : 'Not sensed'],
+        ['Tilt', kinematics.tilt ? `${kinematics.tilt.meanX.toFixed(0)}° / ${kinematics.tilt.meanY.toFixed(0)}°` : 'Not sensed'],
+        ['Sample rate', `${kinematics.sampleRateHz.toFixed(0)} Hz`],
+      ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+      <Card className="w-full max-w-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">Digital Drawing Test</h3>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground"><X /></button>
+        </div>
+
+        <div className="flex gap-2 mb-3">
+          {(['spiral', 'wave'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => clearDrawing(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold capitalize ${template === option ? 'bg-primary text-primary-foreground' : 'bg-card-hover text-muted-foreground'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <p className="text-sm text-muted-foreground mb-3">{INSTRUCTIONS[template]} A stylus gives the most accurate results.</p>
+
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="w-full bg-black/40 rounded-lg border border-border"
+          style={{ aspectRatio: `${surface.width} / ${surface.height}`, touchAction: 'none' }}
+        />
+
+        {kinematics && (
+          <div className="bg-card-hover rounded-lg p-4 mt-4">
+            <h4 className="font-semibold mb-2">Pen Kinematics</h4>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+              {metrics.map(([label, value]) => (
+                <div key={label} className="flex justify-between gap-4">
+                  <dt className="text-muted-foreground">{label}</dt>
+                  <dd className="font-medium text-right">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            <p className="text-xs text-muted-foreground mt-3">
+              Tremor is the strongest rhythm between {TREMOR_BAND_HZ[0]} and {TREMOR_BAND_HZ[1]} Hz in the drawing's deviation from a
+              fitted {template}. Parkinsonian rest tremor is typically 4-6 Hz. These measurements support, and do not replace, a clinical assessment.
+            </p>
+            {saveMessage && !saving && <p className="text-xs text-emerald-300 mt-3">{saveMessage}</p>}
+          </div>
+        )}
+
+        {kinematics && spiralGeometry && <SpiralGeometrySummary geometry={spiralGeometry} />}
+
+        {error && (
+          <div className="flex items-center space-x-2 text-red-400 bg-red-900/20 p-3 rounded-lg mt-4">
+            <AlertCircle size={20} />
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex space-x-4 mt-4">
+          <button onClick={() => clearDrawing()} className="w-full bg-secondary text-secondary-foreground font-semibold p-3 rounded-lg flex items-center justify-center">
+            <RefreshCw size={18} className="mr-2" /> Clear
+          </button>
+          {kinematics ? (
+            <button onClick={saveResult} disabled={saving || Boolean(saveMessage)} className="w-full bg-primary text-primary-foreground font-semibold p-3 rounded-lg flex items-center justify-center disabled:opacity-50">
+              {saving ? <LoaderCircle className="animate-spin" /> : 'Save to Dashboard'}
+            </button>
+          ) : (
+            <button onClick={finishDrawing} disabled={!strokeCount} className="w-full bg-primary text-primary-foreground font-semibold p-3 rounded-lg flex items-center justify-center disabled:opacity-50">
+              <Check size={18} className="mr-2" /> Finish
+            </button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default DrawingTestModal;
@@ -4,14 +4,71 @@ import { Camera, X, LoaderCircle, AlertCircle, RefreshCw, Upload } from 'lucide-
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../hooks/useAuth';
 import { processTest } from '../services/api';
+import type { HandwritingAnalysis } from '../services/handwritingModel';
+import type { TemplateRegistration } from '../services/templateRegistration';
+import type { Database } from '../types/database';
+import { toJson } from '../utils/json';
+import PreprocessingComparison from './PreprocessingComparison';
+import SpiralGeometrySummary from './SpiralGeometrySummary';
+
+type TestInsert = Database['public']['Tables']['tests']['Insert'];
+
+// Capture types that are drawings the handwriting models can classify.
+const isHandwritingType = (testType: string): testType is 'spiral' | 'wave' =>
+  testType === 'spiral' || testType === 'wave';
+
+// One uploaded test: the photo, or a drawing cut out of a printed template.
+interface CapturedImage {
+  testType: string;
+  image: Blob;
+  analysis: HandwritingAnalysis | null;
+}
+
+const CaptureSummaries = ({ captures }: { captures: CapturedImage[] }) => (
+  <>
+    {captures.map(({ testType, image, analysis }) => analysis && (
+      <div key={testType}>
+        {captures.length > 1 && <h5 className="text-sm font-semibold capitalize text-left mt-4">{testType}</h5>}
+        <HandwritingAnalysisSummary analysis={analysis} image={image} />
+      </div>
+    ))}
+  </>
+);
+
+const HandwritingAnalysisSummary = ({ analysis, image }: { analysis: HandwritingAnalysis; image: Blob | null }) => (
+  <>
+    {image && analysis.preprocessed && <PreprocessingComparison original={image} processed={analysis.preprocessed.image} />}
+    <div className="bg-card-hover rounded-lg p-4 mt-4 text-left">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-muted-foreground">Prediction:</span>
+        <span className={`font-semibold ${analysis.label.includes('Parkinson') ? 'text-orange-400' : 'text-green-400'}`}>
+          {analysis.label}
+        </span>
+      </div>
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-muted-foreground">Confidence:</span>
+        <span className="font-semibold">{Math.round(analysis.confidence * 100)}%</span>
+      </div>
+      {analysis.details && <p className="text-xs text-muted-foreground mt-3 pt-3 border-t border-border">{analysis.details}</p>}
+      <p className="text-xs text-muted-foreground mt-2">Model: {analysis.modelVersions.description}</p>
+    </div>
+    {analysis.spiralGeometry && <SpiralGeometrySummary geometry={analysis.spiralGeometry} />}
+  </>
+);
 
 const ImageCaptureModal = ({ onClose, testType }: { onClose: () => void, testType: string }) => {
+  // Drawings can be either kind whichever option opened the modal.
+  const [drawingType, setDrawingType] = useState<'spiral' | 'wave'>(isHandwritingType(testType) ? testType : 'spiral');
+  const captureType = isHandwritingType(testType) ? drawingType : testType;
   const [captureStatus, setCaptureStatus] = useState<'streaming' | 'captured'>('streaming');
   const [imageBlob, setImageBlob] = useState<Blob | null>(null);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [captures, setCaptures] = useState<CapturedImage[]>([]);
+  const [processingMessage, setProcessingMessage] = useState<string>('');
+  const [template, setTemplate] = useState<TemplateRegistration | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { user } = useAuth();
@@ -69,23 +126,100 @@ const ImageCaptureModal = ({ onClose, testType }: { onClose: () => void, testTyp
     setProcessing(true);
     setError(null);
     setSuccess(false);
+    setCaptures([]);
+    setTemplate(null);
     try {
-      const fileName = `${user.id}-${Date.now()}.png`;
-      const filePath = `${testType}/${user.id}/${fileName}`;
-      const { error: uploadError } = await supabase.storage.from('test_artifacts').upload(filePath, imageBlob);
-      if (uploadError) throw uploadError;
-      const { data: newTestData, error: insertError } = await supabase.from('tests').insert({
-        patient_id: user.id,
-        test_type: testType,
-        raw_storage_path: filePath,
-      }).select('id').single();
-      if (insertError) throw insertError;
-      await processTest(newTestData.id);
+      let images: CapturedImage[] = [{ testType: captureType, image: imageBlob, analysis: null }];
+      let registration: TemplateRegistration | null = null;
+      if (isHandwritingType(captureType)) {
+        // On a printed template the spiral and the wave are cut out of the
+        // registered sheet, each becomes a test, and both join the session
+        // named in its QR code.
+        setProcessingMessage('Looking for a printed template...');
+        const { registerTemplatePhoto } = await import('../services/templateRegistration');
+        registration = await registerTemplatePhoto(imageBlob).catch((templateError) => {
+          console.warn('Template registration failed; analysing the whole photo:', templateError);
+          return null;
+        });
+        if (registration && registration.patientId !== user.id) {
+          throw new Error('This template was printed for another patient. Please print your own from the New Test page.');
+        }
+        setTemplate(registration);
+        if (registration) {
+          const { regions } = registration;
+          images = (['spiral', 'wave'] as const).map((type) => ({ testType: type, image: regions[type], analysis: null }));
+        }
+
+        // Drawings are classified in the browser before upload, so the result is
+        // stored with the test even when the backend is not running.
+        setProcessingMessage('Analyzing drawing...');
+        try {
+          const { analyseHandwritingImage } = await import('../services/handwritingModel');
+          for (const captured of images) {
+            captured.analysis = await analyseHandwritingImage(captured.image, captured.testType as 'spiral' | 'wave');
+          }
+        } catch (analysisError) {
+          // Without TF.js (offline, or no WebGL) the backend still analyses the upload.
+          console.warn('Local drawing analysis failed; uploading without a local result:', analysisError);
+        }
+        if (registration) {
+          // Preprocessing finds no ink in an area of the template left blank.
+          images = images.filter((captured) => !captured.analysis || captured.analysis.preprocessed);
+          if (!images.length) {
+            throw new Error('Neither the spiral nor the wave on the template has been drawn.');
+          }
+        }
+        setCaptures(images);
+      }
+      if (registration) {
+        const { ensureDrawingSession } = await import('../services/drawingTemplate');
+        await ensureDrawingSession(registration).catch((sessionError) => {
+          console.warn('Could not record the drawing session:', sessionError);
+        });
+      }
+
+      setProcessingMessage('Uploading...');
+      for (const { testType: type, image, analysis } of images) {
+        const fileName = `${user.id}-${Date.now()}.png`;
+        const filePath = `${type}/${user.id}/${fileName}`;
+        const { error: uploadError } = await supabase.storage.from('test_artifacts').upload(filePath, image);
+        if (uploadError) throw uploadError;
+        const row: TestInsert = {
+          patient_id: user.id,
+          test_type: type,
+          raw_storage_path: filePath,
+          ...(analysis
+            ? {
+                result: {
+                  prediction: analysis.label,
+                  confidence: analysis.confidence,
+                  details: analysis.details,
+                  timestamp: new Date().toISOString(),
+                  analysisMethod: 'local-tensorflow',
+                  model: analysis.modelVersions.description,
+                  spiralGeometry: toJson(analysis.spiralGeometry),
+                },
+                confidence: analysis.confidence,
+                model_versions: analysis.modelVersions,
+              }
+            : {}),
+        };
+        const insertTest = (testRow: TestInsert) => supabase.from('tests').insert(testRow).select('id').single();
+        const linked = registration ? await insertTest({ ...row, session_id: registration.sessionId }) : null;
+        if (linked?.error) {
+          // Before the drawing sessions migration tests have no session_id column.
+          console.warn('Could not link the test to its drawing session; saving it without one:', linked.error);
+        }
+        const { data: newTestData, error: insertError } = linked && !linked.error ? linked : await insertTest(row);
+        if (insertError) throw insertError;
+        await processTest(newTestData.id);
+      }
       setSuccess(true);
     } catch (error: any) {
       setError(error.message || 'An error occurred during upload.');
     } finally {
       setProcessing(false);
+      setProcessingMessage('');
     }
   };
 
@@ -101,7 +235,7 @@ const ImageCaptureModal = ({ onClose, testType }: { onClose: () => void, testTyp
     <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
       <Card className="w-full max-w-lg">
         <div className="flex justify-between items-center mb-4">
-          <h3 className="text-xl font-semibold capitalize">Capture {testType}</h3>
+          <h3 className="text-xl font-semibold capitalize">Capture {captureType}</h3>
           <button onClick={onClose} className="text-muted-foreground hover:text-foreground"><X /></button>
         </div>
         
@@ -109,10 +243,29 @@ const ImageCaptureModal = ({ onClose, testType }: { onClose: () => void, testTyp
           <div className="text-center p-8">
             <h4 className="text-lg font-semibold text-green-400">Processing Started!</h4>
             <p className="text-muted-foreground mt-2">Your image has been sent for analysis. Results will appear on your dashboard shortly.</p>
+            {template && <p className="text-sm text-muted-foreground mt-2">Matched printed template (session {template.sessionId.slice(0, 8)}).</p>}
+            <CaptureSummaries captures={captures} />
             <button onClick={onClose} className="mt-4 bg-primary text-primary-foreground font-semibold px-4 py-2 rounded-lg">Close</button>
           </div>
         ) : (
           <div className="space-y-4 text-center">
+            {isHandwritingType(testType) && (
+              <div>
+                <div className="flex justify-center gap-2">
+                  {(['spiral', 'wave'] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setDrawingType(option)}
+                      disabled={processing}
+                      className={`px-4 py-2 rounded-lg text-sm font-semibold capitalize ${drawingType === option ? 'bg-primary text-primary-foreground' : 'bg-card-hover text-muted-foreground'}`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">On a printed template both drawings are read, whichever is selected.</p>
+              </div>
+            )}
             <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden">
                 {captureStatus === 'streaming' && <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover"></video>}
                 {captureStatus === 'captured' && imageUrl && <img src={imageUrl} alt="Captured" className="w-full h-full object-contain" />}
@@ -131,11 +284,18 @@ const ImageCaptureModal = ({ onClose, testType }: { onClose: () => void, testTyp
                     <RefreshCw size={18} className="mr-2" /> Retake
                   </button>
                   <button onClick={handleUpload} disabled={processing} className="w-full bg-primary text-primary-foreground font-semibold p-3 rounded-lg flex items-center justify-center disabled:opacity-50">
-                      {processing ? <LoaderCircle className="animate-spin" /> : <><Upload size={18} className="mr-2"/> Upload for Analysis</>}
+                      {processing ? (
+                        <span className="flex items-center gap-2">
+                          <LoaderCircle className="animate-spin" />
+                          {processingMessage}
+                        </span>
+                      ) : <><Upload size={18} className="mr-2"/> Upload for Analysis</>}
                   </button>
               </div>
             )}
 
+            {error && <CaptureSummaries captures={captures} />}
+
             {error && (
               <div className="flex items-center space-x-2 text-red-400 bg-red-900/20 p-3 rounded-lg mt-4">
                 <AlertCircle size={20} />
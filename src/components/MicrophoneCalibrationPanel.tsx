@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, LoaderCircle, SlidersHorizontal } from 'lucide-react';
+import {
+  describeMicrophone,
+  MicrophoneCalibrationProfile,
+  saveMicrophoneProfile,
+} from '../services/microphoneProfiles';
+import { RAW_AUDIO_CONSTRAINTS, startVoiceRecorder } from '../services/pcmRecorder';
+import {
+  calibrateMicrophoneInBackground,
+  isVoicePipelineCancellation,
+  VoiceRecordingSource,
+} from '../services/voicePipeline';
+import { CALIBRATION_FEATURE_GROUPS, CalibrationMethod } from '../services/voiceCalibration';
+import type { VoiceFeatureGroup } from '../services/voiceKnnModel';
+
+const TONE_FREQUENCY_HZ = 150;
+const TONE_SECONDS = 4;
+const TONE_RECORDING_SECONDS = 5; // half a second of room noise either side of the tone
+const VOWEL_SECONDS = 4;
+const VOWEL_COUNT = 3;
+
+const METHOD_LABELS: Record<CalibrationMethod, string> = {
+  'reference-tone': 'reference tone',
+  'baseline-vowels': 'baseline vowels',
+};
+
+// References go through the same capture path as screening recordings, so the
+// calibration measures the codec the screenings will actually use.
+const recordClip = async (stream: MediaStream, seconds: number): Promise<VoiceRecordingSource> => {
+  const recorder = await startVoiceRecorder(stream);
+  await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+  const captured = await recorder.stop();
+  return captured.pcm ?? captured.blob;
+};
+
+const playReferenceTone = (): AudioContext => {
+  const context = new AudioContext();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  // A sawtooth has sharp, voice-like cycle peaks; on a sine's flat peaks the
+  // pulse marker's own uncertainty would swamp the device's jitter floor.
+  oscillator.type = 'sawtooth';
+  oscillator.frequency.value = TONE_FREQUENCY_HZ;
+  gain.gain.value = 0.2;
+  oscillator.connect(gain).connect(context.destination);
+  const startAt = context.currentTime + (TONE_RECORDING_SECONDS - TONE_SECONDS) / 2;
+  oscillator.start(startAt);
+  oscillator.stop(startAt + TONE_SECONDS);
+  return context;
+};
+
+// featureGroups are the voice model's, or null while it is loading; methods
+// that adjust none of them are disabled.
+const MicrophoneCalibrationPanel = ({
+  userId,
+  featureGroups,
+}: {
+  userId: string | null;
+  featureGroups: VoiceFeatureGroup[] | null;
+}) => {
+  const [profile, setProfile] = useState<MicrophoneCalibrationProfile | null>(null);
+  const [running, setRunning] = useState(false);
+  const [step, setStep] = useState('');
+  const [calibrationError, setCalibrationError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const isUseful = (method: CalibrationMethod) => !featureGroups || featureGroups.includes(CALIBRATION_FEATURE_GROUPS[method]);
+
+  const recordReferences = async (stream: MediaStream, method: CalibrationMethod): Promise<VoiceRecordingSource[]> => {
+    if (method === 'reference-tone') {
+      setStep(`Playing a ${TONE_FREQUENCY_HZ} Hz tone. Keep the room quiet and the speaker volume steady...`);
+      const context = playReferenceTone();
+      try {
+        return [await recordClip(stream, TONE_RECORDING_SECONDS)];
+      } finally {
+        await context.close();
+      }
+    }
+    const clips: VoiceRecordingSource[] = [];
+    for (let index = 0; index < VOWEL_COUNT; index += 1) {
+      setStep(`Say "Aaaah" steadily (${index + 1} of ${VOWEL_COUNT})...`);
+      clips.push(await recordClip(stream, VOWEL_SECONDS));
+    }
+    return clips;
+  };
+
+  const runCalibration = async (method: CalibrationMethod) => {
+    if (!userId || running) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setCalibrationError(null);
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: RAW_AUDIO_CONSTRAINTS });
+      const microphone = describeMicrophone(stream);
+      const clips = await recordReferences(stream, method);
+      stream.getTracks().forEach((track) => track.stop());
+      stream = null;
+
+      setStep('Measuring the reference recordings...');
+      const { transform } = await calibrateMicrophoneInBackground(clips, method, {
+        signal: controller.signal,
+        onProgress: ({ fraction }) => setStep(`Measuring the reference recordings (${Math.round(fraction * 100)}%)...`),
+      });
+      const saved = await saveMicrophoneProfile({
+        userId,
+        deviceId: microphone.deviceId,
+        deviceLabel: microphone.label,
+        method,
+        transform,
+        referenceCount: clips.length,
+      });
+      setProfile(saved);
+    } catch (failure) {
+      if (isVoicePipelineCancellation(failure)) return;
+      setCalibrationError(failure instanceof Error ? failure.message : 'Microphone calibration failed.');
+      console.error('Microphone calibration failed:', failure);
+    } finally {
+      stream?.getTracks().forEach((track) => track.stop());
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRunning(false);
+        setStep('');
+      }
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-lg p-3 text-left space-y-2">
+      <div className="flex items-center space-x-2">
+        <SlidersHorizontal size={16} className="text-blue-300" />
+        <p className="text-sm font-semibold">Microphone calibration</p>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {profile
+          ? `${profile.deviceLabel} calibrated with ${METHOD_LABELS[profile.method]} on ${new Date(profile.createdAt).toLocaleDateString()}.`
+          : 'Calibrating maps this microphone onto the scale of the reference recordings. Saved profiles are applied automatically.'}
+      </p>
+      {running ? (
+        <p className="text-xs text-blue-300 flex items-center">
+          <LoaderCircle className="animate-spin h-4 w-4 mr-2" /> {step}
+        </p>
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <button
+            onClick={() => runCalibration('reference-tone')}
+            disabled={!userId}
+            className="w-full bg-secondary text-secondary-foreground text-xs font-semibold p-2 rounded-lg disabled:opacity-60"
+          >
+            Play reference tone
+          </button>
+          <button
+            onClick={() => runCalibration('baseline-vowels')}
+            disabled={!userId || !isUseful('baseline-vowels')}
+            className="w-full bg-secondary text-secondary-foreground text-xs font-semibold p-2 rounded-lg disabled:opacity-60"
+          >
+            Record {VOWEL_COUNT} baseline vowels
+          </button>
+        </div>
+      )}
+      {!userId && <p className="text-xs text-muted-foreground">Sign in to save calibration profiles.</p>}
+      {!isUseful('baseline-vowels') && (
+        <p className="text-xs text-muted-foreground">
+          Baseline vowels calibrate the MFCC features, which the current voice model does not use.
+        </p>
+      )}
+      {calibrationError && (
+        <div className="flex items-center space-x-2 text-amber-400 text-xs">
+          <AlertCircle size={16} />
+          <p>{calibrationError}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MicrophoneCalibrationPanel;
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+
+const useObjectUrl = (blob: Blob) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url;
+};
+
+// The photo as taken beside the cleaned image the handwriting models classified.
+const PreprocessingComparison = ({ original, processed }: { original: Blob; processed: Blob }) => {
+  const originalUrl = useObjectUrl(original);
+  const processedUrl = useObjectUrl(processed);
+  return (
+    <div className="grid grid-cols-2 gap-3 mt-4">
+      {[
+        ['Original', originalUrl],
+        ['Preprocessed', processedUrl],
+      ].map(([label, url]) => (
+        <figure key={label} className="text-center">
+          <div className="aspect-square bg-black/40 rounded-lg overflow-hidden flex items-center justify-center">
+            {url && <img src={url} alt={`${label} drawing`} className="max-w-full max-h-full object-contain" />}
+          </div>
+          <figcaption className="text-xs text-muted-foreground mt-1">{label}</figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+};
+
+export default PreprocessingComparison;
@@ -0,0 +1,44 @@
+import type { SpiralGeometry, SpiralSeverityCategory } from '../services/spiralGeometry';
+
+const CATEGORY_COLOURS: Record<SpiralSeverityCategory, string> = {
+  normal: 'text-green-400',
+  mild: 'text-yellow-300',
+  moderate: 'text-orange-400',
+  severe: 'text-red-400',
+};
+
+// Interpretable measures of a spiral beside the classifier's label.
+const SpiralGeometrySummary = ({ geometry }: { geometry: SpiralGeometry }) => {
+  const metrics: Array<[string, string]> = [
+    ['Radial residual', `${geometry.radialResidual.rms.toFixed(1)} px RMS (max ${geometry.radialResidual.max.toFixed(1)})`],
+    ['Smoothness (1st order)', geometry.firstOrderSmoothness.toFixed(2)],
+    ['Smoothness (2nd order)', geometry.secondOrderSmoothness.toFixed(1)],
+    ['Tightness', `${geometry.tightness.toFixed(2)} loops / 100 px`],
+    ['Loop variability', `${(geometry.interLoopVariability * 100).toFixed(0)}%`],
+    ['Turns', `${geometry.turns.toFixed(1)} (${geometry.direction})`],
+  ];
+  return (
+    <div className="bg-card-hover rounded-lg p-4 mt-4 text-left">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-semibold">Spiral severity</span>
+        <span className={`font-semibold ${CATEGORY_COLOURS[geometry.severityCategory]}`}>
+          {geometry.severity.toFixed(1)} / 10 <span className="capitalize">({geometry.severityCategory})</span>
+        </span>
+      </div>
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+        {metrics.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-4">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="font-medium text-right">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-xs text-muted-foreground mt-3">
+        Measured against the ideal Archimedean spiral fitted around the drawing's centre. The 0-10 rating follows the
+        Bain-Findley scale in spirit but is a heuristic, not a validated clinical score.
+      </p>
+    </div>
+  );
+};
+
+export default SpiralGeometrySummary;
@@ -4,12 +4,9 @@ import { FileUp, X, LoaderCircle, AlertCircle, CheckCircle, Brain } from 'lucide
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../hooks/useAuth';
 import { processTest } from '../services/api';
-
-type PredictionResult = {
-  label: string;
-  confidence: number;
-  details?: string;
-};
+import type { HandwritingAnalysis } from '../services/handwritingModel';
+import PreprocessingComparison from './PreprocessingComparison';
+import SpiralGeometrySummary from './SpiralGeometrySummary';
 
 const UploadModal = ({ onClose }: { onClose: () => void }) => {
   const [file, setFile] = useState<File | null>(null);
@@ -17,13 +14,19 @@ const UploadModal = ({ onClose }: { onClose: () => void }) => {
   const [loadingMessage, setLoadingMessage] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
-  const [predictionResult, setPredictionResult] = useState<PredictionResult | null>(null);
+  const [predictionResult, setPredictionResult] = useState<HandwritingAnalysis | null>(null);
+  const [drawingType, setDrawingType] = useState<'spiral' | 'wave'>('spiral');
   const [saving, setSaving] = useState(false);
   const { user } = useAuth();
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      setFile(e.target.files[0]);
+      const selected = e.target.files[0];
+      setFile(selected);
+      // Preselect the drawing type the file name suggests; the user can change it.
+      const lower = selected.name.toLowerCase();
+      if (lower.includes('spiral')) setDrawingType('spiral');
+      else if (lower.includes('wave')) setDrawingType('wave');
       setError(null);
       setSuccess(false);
       setPredictionResult(null);
@@ -53,10 +56,14 @@ const UploadModal = ({ onClose }: { onClose: () => void }) => {
           details: predictionResult.details,
           timestamp: new Date().toISOString(),
           analysisMethod: 'local-tensorflow',
+          model: predictionResult.modelVersions.description,
+          spiralGeometry: predictionResult.spiralGeometry,
           riskScore: predictionResult.label.toLowerCase().includes('parkinson') ? 
             Math.round(predictionResult.confidence * 10) : 
             Math.round((1 - predictionResult.confidence) * 10)
-        }
+        },
+        confidence: predictionResult.confidence,
+        model_versions: predictionResult.modelVersions,
       };
 
       // Try Supabase with very short timeout
@@ -109,17 +116,12 @@ const UploadModal = ({ onClose }: { onClose: () => void }) => {
     try {
       // First try local analysis (runs in browser using TF.js) before uploading.
       
-      // dynamic import to avoid loading TF until needed
-      const { predictImageLocally } = await import('../services/imagePredictor');
-
-      // try to guess whether this is spiral or wave from filename if possible
-      const lower = file.name.toLowerCase();
-      let kind: 'spiral' | 'wave' | 'auto' = 'auto';
-      if (lower.includes('spiral')) kind = 'spiral';
-      if (lower.includes('wave')) kind = 'wave';
+      // dynamic import to avoid loading TF until needed; the trained spiral or
+      // wave model is used when exported, else the MobileNet centroid predictor
+      const { analyseHandwritingImage } = await import('../services/handwritingModel');
 
       setLoadingMessage('Analyzing image with TensorFlow.js...');
-      const result = await predictImageLocally(file, kind);
+      const result = await analyseHandwritingImage(file, drawingType);
 
       if (result.label === 'unknown') {
         setLoadingMessage('Uploading to server...');
@@ -178,6 +180,12 @@ const UploadModal = ({ onClose }: { onClose: () => void }) => {
                 <div className="text-center p-6">
                     <Brain className="h-16 w-16 mx-auto text-primary-foreground mb-4" />
                     <h4 className="text-lg font-semibold mb-2">Analysis Complete</h4>
+
+                    {file && predictionResult.preprocessed && (
+                        <div className="mb-4">
+                            <PreprocessingComparison original={file} processed={predictionResult.preprocessed.image} />
+                        </div>
+                    )}
                     
                     <div className="bg-card-hover rounded-lg p-4 mb-4 text-left">
                         <div className="flex justify-between items-center mb-2">
@@ -197,8 +205,14 @@ const UploadModal = ({ onClose }: { onClose: () => void }) => {
                         )}
                     </div>
 
+                    {predictionResult.spiralGeometry && (
+                        <div className="mb-4">
+                            <SpiralGeometrySummary geometry={predictionResult.spiralGeometry} />
+                        </div>
+                    )}
+
                     <p className="text-sm text-muted-foreground mb-4">
-                        This analysis was performed locally in your browser using TensorFlow.js and the training dataset.
+                        This analysis was performed locally in your browser using TensorFlow.js ({predictionResult.modelVersions.description}).
                     </p>
 
                     {error && (
@@ -226,6 +240,19 @@ const UploadModal = ({ onClose }: { onClose: () => void }) => {
                 </div>
             ) : (
                 <div className="space-y-4">
+                    <div className="flex justify-center gap-2">
+                        {(['spiral', 'wave'] as const).map((option) => (
+                            <button
+                                key={option}
+                                onClick={() => setDrawingType(option)}
+                                disabled={processing}
+                                className={`px-4 py-2 rounded-lg text-sm font-semibold capitalize ${drawingType === option ? 'bg-primary text-primary-foreground' : 'bg-card-hover text-muted-foreground'}`}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+
                     <div className="border-2 border-dashed border-border rounded-lg p-8 text-center">
                         <input type="file" id="file-upload" className="hidden" onChange={handleFileChange} accept="image/*" />
                         <label htmlFor="file-upload" className="cursor-pointer">
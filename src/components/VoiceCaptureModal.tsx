@@ -3,16 +3,69 @@ import { useState, useRef, useEffect } from 'react';
 import Card from './Card';
 import { Mic, X, LoaderCircle, AlertCircle, Square, Scan } from 'lucide-react';
 import { supabase } from '../lib/supabaseClient';
+import { toJson } from '../utils/json';
 import { useAuth } from '../hooks/useAuth';
 import { processTest } from '../services/api';
 import {
-  extractVoiceFeatures,
-  predictVoiceSample,
-  trainVoiceKnnModel,
+  BaselineFeatureKey,
   VoicePrediction,
   VoiceModelMetadata,
+  VoiceFeatureKey,
   VoiceFeatureVector,
 } from '../services/voiceKnnModel';
+import {
+  analyseVoiceRecording,
+  isVoicePipelineCancellation,
+  trainVoiceModelInBackground,
+  VoicePipelineProgress,
+} from '../services/voicePipeline';
+import { VoiceQualityReport } from '../services/voiceQuality';
+import { VoiceProsodyFeatures } from '../services/voiceProsody';
+import { VoicePromptKind, VoiceSegmentationOptions } from '../services/voiceActivity';
+import {
+  describeMicrophone,
+  loadMicrophoneProfile,
+  MicrophoneCalibrationProfile,
+} from '../services/microphoneProfiles';
+import {
+  CapturedVoiceRecording,
+  RAW_AUDIO_CONSTRAINTS,
+  startVoiceRecorder,
+  VoiceRecorder,
+} from '../services/pcmRecorder';
+import { describeVoiceClassifier, VOICE_CLASSIFIERS } from '../services/voiceClassifiers';
+import { loadHyperparameterSearch, saveHyperparameterSearch } from '../services/voiceHyperparameterSearch';
+import { OutOfDistributionReport } from '../services/voiceOutOfDistribution';
+import MicrophoneCalibrationPanel from './MicrophoneCalibrationPanel';
+import VoiceModelEvaluationSummary from './VoiceModelEvaluationSummary';
+import VoiceFeatureAttributionChart from './VoiceFeatureAttributionChart';
+import {
+  aggregateVoiceTasks,
+  VOICE_PROTOCOL_TASKS,
+  VOICE_PROTOCOL_VERSION,
+  VoiceProtocolAggregate,
+  VoiceTaskResult,
+} from '../services/voiceProtocol';
+
+type RecordingPrompt = {
+  kind: VoicePromptKind;
+  text: string;
+};
+
+const PROMPT_TEXTS: Record<VoicePromptKind, string> = {
+  'sustained-vowel': 'Please say "Aaaah" steadily for as long as you can.',
+  counting: 'Count from one to ten at your natural pace.',
+  sentence: 'Repeat: "The quick brown fox jumps over the lazy dog."',
+};
+
+const TASK_LABELS: Record<VoicePromptKind, string> = {
+  'sustained-vowel': 'Sustained vowel',
+  counting: 'Counting',
+  sentence: 'Sentence',
+};
+
+// Recorded in protocol order, one after another, in every session.
+const RECORDING_PROMPTS: RecordingPrompt[] = VOICE_PROTOCOL_TASKS.map((kind) => ({ kind, text: PROMPT_TEXTS[kind] }));
 
 type PrescriptionPlan = {
   summary: string;
@@ -20,6 +73,8 @@ type PrescriptionPlan = {
   recommendations: string[];
 };
 
+// The voice model's probabilities are calibrated on out-of-fold predictions,
+// so these cut-offs correspond to observed Parkinson's rates in the dataset.
 const deriveRiskLevel = (probability: number): 'High' | 'Medium' | 'Low' => {
   if (probability >= 0.7) return 'High';
   if (probability >= 0.4) return 'Medium';
@@ -28,25 +83,32 @@ const deriveRiskLevel = (probability: number): 'High' | 'Medium' | 'Low' => {
 
 const describeVoiceSymptoms = (features: VoiceFeatureVector): string[] => {
   const flags: string[] = [];
-  if (features.locPctJitter > 1.2) {
+  // Feature values are Praat ratios; thresholds follow Praat's pathology limits.
+  if (features.locPctJitter > 0.0104) {
     flags.push('Elevated jitter suggests tremor during sustained phonation.');
   }
-  if (features.ppq5Jitter > 0.6) {
+  if (features.ppq5Jitter > 0.0084) {
     flags.push('Perturbation quotient shows irregular pitch periods.');
   }
-  if (features.locShimmer > 1.5) {
+  if (features.locShimmer > 0.0381) {
     flags.push('Increased shimmer highlights amplitude instability.');
   }
-  if (features.apq5Shimmer > 3) {
+  if (features.apq5Shimmer > 0.03) {
     flags.push('Voice amplitude variability (APQ5) exceeds healthy limits.');
   }
-  if (features.meanNoiseToHarmHarmonicity > 0.25) {
+  if (features.meanNoiseToHarmHarmonicity > 0.19) {
     flags.push('Noise-to-harmonics ratio indicates breathiness or vocal fatigue.');
   }
+  if (features.meanHarmToNoiseHarmonicity < 20) {
+    flags.push(`Harmonics-to-noise ratio of ${features.meanHarmToNoiseHarmonicity.toFixed(1)} dB is below the 20 dB typical of a clear voice.`);
+  }
   return flags.length ? flags : ['Voice parameters remain within expected healthy ranges.'];
 };
 
-const generatePrescriptionPlan = (prediction: VoicePrediction, features: VoiceFeatureVector): PrescriptionPlan => {
+const generatePrescriptionPlan = (
+  prediction: Pick<VoicePrediction, 'label' | 'probabilityOfParkinsons'>,
+  features: VoiceFeatureVector,
+): PrescriptionPlan => {
   const riskLevel = deriveRiskLevel(prediction.probabilityOfParkinsons);
   const symptomFlags = describeVoiceSymptoms(features);
   const probabilityText = (prediction.probabilityOfParkinsons * 100).toFixed(1);
@@ -71,81 +133,217 @@ const generatePrescriptionPlan = (prediction: VoicePrediction, features: VoiceFe
   return { summary, symptomFlags, recommendations };
 };
 
-const FEATURE_LABELS: Record<keyof VoiceFeatureVector, string> = {
+// Saved as tests.result: the aggregate stays at the top level (riskScore and
+// riskLevel are what the dashboard reads), with the per-task breakdown below.
+const buildResultPayload = (
+  results: VoiceTaskResult[],
+  combined: VoiceProtocolAggregate,
+  plan: PrescriptionPlan,
+) => ({
+  label: combined.label,
+  probability: combined.probabilityOfParkinsons,
+  riskScore: Number((combined.probabilityOfParkinsons * 10).toFixed(1)),
+  riskLevel: deriveRiskLevel(combined.probabilityOfParkinsons),
+  protocol: VOICE_PROTOCOL_VERSION,
+  recordingFormat: results[0]?.recordingFormat ?? null,
+  aggregate: {
+    probability: combined.probabilityOfParkinsons,
+    probabilityInterval: combined.probabilityInterval,
+    weights: combined.weights,
+    // Labelled so reports can show them without the feature dictionary.
+    attributions: combined.attributions.map(({ feature, contribution }) => ({ feature, label: featureLabel(feature), contribution })),
+    completedTasks: combined.completedTasks,
+    complete: combined.complete,
+  },
+  tasks: results.map(({ kind, quality, features, prosody, prediction, recordingFormat }) => ({
+    kind,
+    recordingFormat,
+    label: prediction.label,
+    probability: prediction.probabilityOfParkinsons,
+    probabilityInterval: prediction.probabilityInterval,
+    rawScore: prediction.rawScore,
+    outOfDistribution: prediction.outOfDistribution,
+    attributions: prediction.attributions,
+    algorithm: prediction.algorithm,
+    parameters: prediction.parameters,
+    neighbourVotes: prediction.neighbourVotes,
+    features,
+    prosody,
+    quality,
+  })),
+  prescription: plan,
+  createdAt: new Date().toISOString(),
+  source: 'voice-screening-local',
+});
+
+const buildModelVersions = (results: VoiceTaskResult[], metadata: VoiceModelMetadata | null) => {
+  const prediction = results[0]?.prediction;
+  const calibration = prediction?.calibration;
+  return {
+    voiceClassifier: prediction?.algorithm ?? null,
+    voiceClassifierParameters: prediction?.parameters ?? null,
+    probabilityCalibration: prediction?.probabilityCalibration ?? 'none',
+    dataset: 'pd_speech_features.csv',
+    // Identifies the precompiled model; null when it was trained in the browser.
+    voiceModelArtifact: metadata?.modelArtifact
+      ? `v${metadata.modelArtifact.version}:${metadata.modelArtifact.datasetSha256.slice(0, 12)}`
+      : null,
+    protocol: VOICE_PROTOCOL_VERSION,
+    microphoneCalibration: calibration ? `${calibration.method}:${calibration.profileId}` : 'none',
+  };
+};
+
+// Only the baseline Praat measures are listed; the MFCC group is too large to
+// show usefully and is kept in the stored feature vector instead.
+const FEATURE_LABELS: Record<BaselineFeatureKey, string> = {
   meanPeriodPulses: 'Mean period (pulses)',
   stdDevPeriodPulses: 'Std dev period (pulses)',
-  locPctJitter: 'Local jitter %',
+  locPctJitter: 'Local jitter',
   locAbsJitter: 'Local jitter (abs)',
-  rapJitter: 'RAP jitter %',
-  ppq5Jitter: 'PPQ5 jitter %',
-  ddpJitter: 'DDP jitter %',
-  locShimmer: 'Local shimmer %',
+  rapJitter: 'RAP jitter',
+  ppq5Jitter: 'PPQ5 jitter',
+  ddpJitter: 'DDP jitter',
+  locShimmer: 'Local shimmer',
   locDbShimmer: 'Local shimmer (dB)',
-  apq3Shimmer: 'APQ3 shimmer %',
-  apq5Shimmer: 'APQ5 shimmer %',
-  apq11Shimmer: 'APQ11 shimmer %',
-  ddaShimmer: 'DDA shimmer %',
+  apq3Shimmer: 'APQ3 shimmer',
+  apq5Shimmer: 'APQ5 shimmer',
+  apq11Shimmer: 'APQ11 shimmer',
+  ddaShimmer: 'DDA shimmer',
   meanAutoCorrHarmonicity: 'Mean autocorrelation harmonicity',
-  meanNoiseToHarmHarmonicity: 'Mean noise-to-harmonics',
-  meanHarmToNoiseHarmonicity: 'Mean harmonics-to-noise',
+  meanNoiseToHarmHarmonicity: 'Mean noise-to-harmonics ratio',
+  meanHarmToNoiseHarmonicity: 'Mean harmonics-to-noise (dB)',
+};
+
+const describePipelineProgress = (progress: VoicePipelineProgress, sampleCount: number): string => {
+  const percent = `${Math.round(progress.fraction * 100)}%`;
+  switch (progress.stage) {
+    case 'training-model':
+      return `Validating the voice model on the training samples (${percent})...`;
+    case 'extracting-features':
+      return `Extracting voice features from audio (${percent})...`;
+    case 'classifying':
+      return `Classifying against a model of ${sampleCount} training samples...`;
+    case 'calibrating':
+      return `Measuring microphone calibration references (${percent})...`;
+    default:
+      return 'Analyzing voice sample...';
+  }
 };
 
-const formatFeatureLabel = (key: keyof VoiceFeatureVector): string => FEATURE_LABELS[key] ?? key;
+const DISPLAYED_FEATURES = Object.keys(FEATURE_LABELS) as BaselineFeatureKey[];
+
+const PROSODY_LABELS: Record<keyof VoiceProsodyFeatures, string> = {
+  f0MeanHz: 'Mean F0 (Hz)',
+  f0StdSemitones: 'F0 variability (semitones)',
+  intensityStdDb: 'Loudness variability (dB)',
+  pauseRatio: 'Pause ratio',
+  pauseCount: 'Pauses',
+  articulationRate: 'Articulation rate (syllables/s)',
+  speakingSeconds: 'Speaking time (s)',
+  intensityDecayDbPerSecond: 'Loudness decay (dB/s)',
+};
+
+const DISPLAYED_PROSODY = Object.keys(PROSODY_LABELS) as Array<keyof VoiceProsodyFeatures>;
 
 const formatFeatureValue = (value: number): string => {
   const absolute = Math.abs(value);
   if (absolute >= 100) return value.toFixed(0);
   if (absolute >= 10) return value.toFixed(1);
   if (absolute >= 1) return value.toFixed(2);
-  return value.toFixed(3);
+  if (absolute >= 0.001 || absolute === 0) return value.toFixed(4);
+  return value.toExponential(2);
+};
+
+const MAX_EXPLAINED_FEATURES = 4;
+
+const featureLabel = (feature: VoiceFeatureKey) =>
+  feature in FEATURE_LABELS ? FEATURE_LABELS[feature as BaselineFeatureKey] : feature;
+
+// Plain-language reasons a task's features look unlike the training dataset.
+const explainOutOfDistribution = (report: OutOfDistributionReport): string[] => {
+  const reasons = report.outOfRange.slice(0, MAX_EXPLAINED_FEATURES).map(({ feature, value, zScore, trainingMin, trainingMax }) =>
+    `${featureLabel(feature)} is ${formatFeatureValue(value)}, ${value > trainingMax ? 'above' : 'below'} the dataset range of `
+    + `${formatFeatureValue(trainingMin)}–${formatFeatureValue(trainingMax)} (${zScore > 0 ? '+' : ''}${zScore.toFixed(1)} SD).`,
+  );
+  if (report.outOfRange.length > MAX_EXPLAINED_FEATURES) {
+    reasons.push(`${report.outOfRange.length - MAX_EXPLAINED_FEATURES} more measurements are outside the dataset range.`);
+  }
+  const distance = Math.min(...Object.values(report.classDistances).filter((value): value is number => value !== undefined));
+  if (distance > report.threshold) {
+    const furthest = (Object.entries(report.zScores) as Array<[VoiceFeatureKey, number]>)
+      .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+      .slice(0, 3)
+      .map(([feature, zScore]) => `${featureLabel(feature)} ${zScore > 0 ? '+' : ''}${zScore.toFixed(1)} SD`);
+    reasons.push(
+      `Together the measurements are ${distance.toFixed(1)} units from the nearest class, beyond the ${report.threshold.toFixed(1)} `
+      + `that 99% of dataset recordings fall within (furthest from the dataset mean: ${furthest.join(', ')}).`,
+    );
+  }
+  return reasons;
 };
 
 const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
   const [recordingStatus, setRecordingStatus] = useState<'idle' | 'recording' | 'recorded'>('idle');
-  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [capturedRecording, setCapturedRecording] = useState<CapturedVoiceRecording | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
-  const [prediction, setPrediction] = useState<VoicePrediction | null>(null);
+  const [taskResults, setTaskResults] = useState<VoiceTaskResult[]>([]);
+  const [aggregate, setAggregate] = useState<VoiceProtocolAggregate | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [modelMetadata, setModelMetadata] = useState<VoiceModelMetadata | null>(null);
   const [modelError, setModelError] = useState<string | null>(null);
   const [modelLoading, setModelLoading] = useState(true);
-  const [featureVector, setFeatureVector] = useState<VoiceFeatureVector | null>(null);
+  const [modelLoadingProgress, setModelLoadingProgress] = useState(0);
+  const [qualityReport, setQualityReport] = useState<VoiceQualityReport | null>(null);
   const [prescription, setPrescription] = useState<PrescriptionPlan | null>(null);
   const [savingResult, setSavingResult] = useState(false);
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
   const [savedTestId, setSavedTestId] = useState<string | null>(null);
   const [recordingDuration, setRecordingDuration] = useState(0);
-  const [recordingPrompt, setRecordingPrompt] = useState<string>('');
+  const [recordingPrompt, setRecordingPrompt] = useState<RecordingPrompt | null>(null);
   const [analysisStep, setAnalysisStep] = useState<string>('');
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
+  const [calibrationProfile, setCalibrationProfile] = useState<MicrophoneCalibrationProfile | null>(null);
+  const recorderRef = useRef<VoiceRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
   const autoStopTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // Read from the MediaRecorder onstop closure, so kept in refs rather than state.
+  const promptRef = useRef<RecordingPrompt | null>(null);
+  const taskResultsRef = useRef<VoiceTaskResult[]>([]);
+  const taskRecordingsRef = useRef<Partial<Record<VoicePromptKind, CapturedVoiceRecording>>>({});
+  const calibrationRef = useRef<Promise<MicrophoneCalibrationProfile | null> | null>(null);
+  const recordingStartedAtRef = useRef<number | null>(null);
+  const promptEndedAtRef = useRef<number | null>(null);
   const { user } = useAuth();
 
-  const RECORDING_PROMPTS = [
-    'Please say "Aaaah" steadily for as long as you can.',
-    'Count from one to ten at your natural pace.',
-    'Repeat: "The quick brown fox jumps over the lazy dog."',
-  ];
   const RECORDING_DURATION_SECONDS = 30;
   const MIN_RECORDING_DURATION_SECONDS = 3;
 
   useEffect(() => {
     let cancelled = false;
+    const controller = new AbortController();
     setModelLoading(true);
-    trainVoiceKnnModel()
+    // The first load searches KNN hyperparameters; later loads reuse the saved winner.
+    trainVoiceModelInBackground({
+      signal: controller.signal,
+      hyperparameterSearch: loadHyperparameterSearch(),
+      tune: true,
+      onProgress: (progress) => setModelLoadingProgress(progress.fraction),
+    })
       .then((metadata) => {
+        if (metadata.hyperparameterSearch) {
+          saveHyperparameterSearch(metadata.hyperparameterSearch);
+        }
         if (cancelled) return;
         setModelMetadata(metadata);
         setModelError(null);
       })
       .catch((modelInitError) => {
-        if (cancelled) return;
+        if (cancelled || isVoicePipelineCancellation(modelInitError)) return;
         const message = modelInitError instanceof Error
           ? modelInitError.message
           : 'Failed to initialise the voice screening model.';
@@ -158,68 +356,70 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
       });
     return () => {
       cancelled = true;
+      controller.abort();
+      analysisAbortRef.current?.abort();
     };
   }, []);
 
+  const updateTaskResults = (results: VoiceTaskResult[]) => {
+    taskResultsRef.current = results;
+    setTaskResults(results);
+  };
+
+  // The next protocol task without an accepted recording; a task whose
+  // recording failed the quality gate is simply offered again.
+  const nextPendingPrompt = (): RecordingPrompt | null =>
+    RECORDING_PROMPTS.find((prompt) => !taskResultsRef.current.some((result) => result.kind === prompt.kind)) ?? null;
+
+  const resetProtocol = () => {
+    updateTaskResults([]);
+    taskRecordingsRef.current = {};
+    setAggregate(null);
+    setPrescription(null);
+    setSavedTestId(null);
+  };
+
   const startRecording = async () => {
     try {
-      setPrediction(null);
+      if (!nextPendingPrompt()) {
+        resetProtocol();
+      }
       setAnalysisError(null);
-      setFeatureVector(null);
-      setPrescription(null);
+      setQualityReport(null);
       setSaveMessage(null);
-      setSavedTestId(null);
       setSuccess(false);
       setError(null);
       setRecordingDuration(0);
 
-      // Select a random prompt
-      const prompt = RECORDING_PROMPTS[Math.floor(Math.random() * RECORDING_PROMPTS.length)];
+      const prompt = nextPendingPrompt() ?? RECORDING_PROMPTS[0];
       setRecordingPrompt(prompt);
+      promptRef.current = prompt;
+      recordingStartedAtRef.current = null;
+      promptEndedAtRef.current = null;
 
       // Speak the prompt using Web Speech API
       if ('speechSynthesis' in window) {
-        const utterance = new SpeechSynthesisUtterance(prompt);
+        const utterance = new SpeechSynthesisUtterance(prompt.text);
+        utterance.onend = () => {
+          promptEndedAtRef.current = performance.now();
+        };
         utterance.rate = 0.9;
         utterance.pitch = 1.0;
         utterance.volume = 1.0;
         window.speechSynthesis.speak(utterance);
       }
 
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: RAW_AUDIO_CONSTRAINTS });
+      streamRef.current = stream;
+      // Looked up while recording; the analysis waits for it before classifying.
+      const microphone = describeMicrophone(stream);
+      calibrationRef.current = user
+        ? loadMicrophoneProfile(user.id, microphone.deviceId).catch(() => null)
+        : Promise.resolve(null);
+      calibrationRef.current.then(setCalibrationProfile);
+      recorderRef.current = await startVoiceRecorder(stream);
       setRecordingStatus('recording');
-      mediaRecorderRef.current = new MediaRecorder(stream);
-      mediaRecorderRef.current.ondataavailable = (event) => {
-        audioChunksRef.current.push(event.data);
-      };
-      mediaRecorderRef.current.onstop = async () => {
-        const blob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        setAudioBlob(blob);
-        setAudioUrl(URL.createObjectURL(blob));
-        audioChunksRef.current = [];
-        setRecordingStatus('recorded');
-        stream.getTracks().forEach(track => track.stop()); // Stop mic access
-
-        // Clear timers
-        if (recordingTimerRef.current) {
-          clearInterval(recordingTimerRef.current);
-          recordingTimerRef.current = null;
-        }
-        if (autoStopTimerRef.current) {
-          clearTimeout(autoStopTimerRef.current);
-          autoStopTimerRef.current = null;
-        }
-
-        // Automatically trigger KNN analysis after recording
-        setTimeout(() => {
-          if (!modelError && blob) {
-            // Trigger analysis with the new blob
-            setAudioBlob(blob);
-            triggerAnalysis(blob);
-          }
-        }, 500);
-      };
-      mediaRecorderRef.current.start();
+      recordingStartedAtRef.current = performance.now();
 
       // Start duration counter
       recordingTimerRef.current = setInterval(() => {
@@ -237,8 +437,8 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
   };
 
   const persistScreeningResult = async (
-    features: VoiceFeatureVector,
-    result: VoicePrediction,
+    results: VoiceTaskResult[],
+    result: VoiceProtocolAggregate,
     plan: PrescriptionPlan,
   ) => {
     if (!user) {
@@ -247,19 +447,8 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
     }
     setSavingResult(true);
     setSaveMessage(null);
-    const riskScore = Number((result.probabilityOfParkinsons * 10).toFixed(1));
-    const riskLevel = deriveRiskLevel(result.probabilityOfParkinsons);
-    const resultPayload = {
-      label: result.label,
-      probability: result.probabilityOfParkinsons,
-      riskScore,
-      riskLevel,
-      neighbourVotes: result.neighbourVotes,
-      features,
-      prescription: plan,
-      createdAt: new Date().toISOString(),
-      source: 'voice-screening-local',
-    };
+    const resultPayload = toJson(buildResultPayload(results, result, plan));
+    const modelVersions = buildModelVersions(results, modelMetadata);
 
     try {
       let supabaseSuccess = false;
@@ -269,10 +458,7 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
           .update({
             result: resultPayload,
             confidence: result.probabilityOfParkinsons,
-            model_versions: {
-              voiceKnn: `k=${result.k}`,
-              dataset: 'pd_speech_features.csv',
-            },
+            model_versions: modelVersions,
           })
           .eq('id', savedTestId);
         if (!updateError) supabaseSuccess = true;
@@ -285,10 +471,7 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
             raw_storage_path: null,
             result: resultPayload,
             confidence: result.probabilityOfParkinsons,
-            model_versions: {
-              voiceKnn: `k=${result.k}`,
-              dataset: 'pd_speech_features.csv',
-            },
+            model_versions: modelVersions,
           })
           .select('id')
           .single();
@@ -317,10 +500,7 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
           created_at: new Date().toISOString(),
           result: resultPayload,
           confidence: result.probabilityOfParkinsons,
-          model_versions: {
-            voiceKnn: `k=${result.k}`,
-            dataset: 'pd_speech_features.csv',
-          },
+          model_versions: modelVersions,
         };
         arr.unshift(testRecord);
         localStorage.setItem(localKey, JSON.stringify(arr));
@@ -345,10 +525,7 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
         created_at: new Date().toISOString(),
         result: resultPayload,
         confidence: result.probabilityOfParkinsons,
-        model_versions: {
-          voiceKnn: `k=${result.k}`,
-          dataset: 'pd_speech_features.csv',
-        },
+        model_versions: modelVersions,
       };
       arr.unshift(testRecord);
       localStorage.setItem(localKey, JSON.stringify(arr));
@@ -361,106 +538,162 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && recordingStatus === 'recording') {
-      // Check minimum duration
-      if (recordingDuration < MIN_RECORDING_DURATION_SECONDS) {
-        setError(`Please record for at least ${MIN_RECORDING_DURATION_SECONDS} seconds.`);
-        return;
-      }
-      mediaRecorderRef.current.stop();
+  // Reads refs only, so the auto-stop timer set when recording started can call it.
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    const prompt = promptRef.current;
+    const startedAt = recordingStartedAtRef.current;
+    if (!recorder || !prompt) return;
+    // Check minimum duration
+    if (startedAt !== null && (performance.now() - startedAt) / 1000 < MIN_RECORDING_DURATION_SECONDS) {
+      setError(`Please record for at least ${MIN_RECORDING_DURATION_SECONDS} seconds.`);
+      return;
+    }
+    recorderRef.current = null;
+
+    // Clear timers
+    if (recordingTimerRef.current) {
+      clearInterval(recordingTimerRef.current);
+      recordingTimerRef.current = null;
+    }
+    if (autoStopTimerRef.current) {
+      clearTimeout(autoStopTimerRef.current);
+      autoStopTimerRef.current = null;
     }
-  };
 
-  const triggerAnalysis = async (blob: Blob) => {
-    if (!blob || modelError) return;
-    setAnalyzing(true);
-    setAnalysisError(null);
-    setSaveMessage(null);
-    setAnalysisStep('');
     try {
-      setAnalysisStep('Extracting voice features from audio...');
-      const features = await extractVoiceFeatures(blob);
-      
-      setAnalysisStep(`Comparing with ${modelMetadata?.sampleCount || 188} training samples using KNN algorithm...`);
-      const result = await predictVoiceSample(features);
-      
-      setAnalysisStep('Generating prescription plan based on voice patterns...');
-      const plan = generatePrescriptionPlan(result, features);
-      
-      setFeatureVector(features);
-      setPrescription(plan);
-      setPrediction(result);
-      
-      setAnalysisStep('Saving screening results to database...');
-      await persistScreeningResult(features, result, plan);
-      
-      setAnalysisStep('Analysis complete!');
-    } catch (analysisFailure) {
-      const message = analysisFailure instanceof Error
-        ? analysisFailure.message
-        : 'Unable to analyse the voice recording locally.';
-      setAnalysisError(message);
-      setPrediction(null);
-      setFeatureVector(null);
-      setPrescription(null);
-      setAnalysisStep('');
-      console.error('Voice analysis failed:', analysisFailure);
+      const captured = await recorder.stop();
+      setCapturedRecording(captured);
+      setAudioUrl(URL.createObjectURL(captured.blob));
+      setRecordingStatus('recorded');
+      setError(null);
+
+      // Automatically trigger KNN analysis after recording
+      setTimeout(() => {
+        if (!modelError) {
+          triggerAnalysis(captured, prompt);
+        }
+      }, 500);
+    } catch (stopError) {
+      setError(stopError instanceof Error ? stopError.message : 'Recording failed. Please try again.');
+      setRecordingStatus('idle');
     } finally {
-      setAnalyzing(false);
+      streamRef.current?.getTracks().forEach(track => track.stop()); // Stop mic access
+      streamRef.current = null;
     }
   };
 
-  const handleAnalyze = async () => {
-    if (!audioBlob || modelError) return;
+  // Skip whatever the microphone picked up while the spoken prompt was still
+  // playing, and segment according to the task the user was given.
+  const buildSegmentationOptions = (prompt: RecordingPrompt): VoiceSegmentationOptions => {
+    const startedAt = recordingStartedAtRef.current;
+    const promptEndedAt = promptEndedAtRef.current;
+    return {
+      promptKind: prompt.kind,
+      ignoreBeforeSeconds:
+        startedAt !== null && promptEndedAt !== null ? Math.max(0, (promptEndedAt - startedAt) / 1000) : 0,
+    };
+  };
+
+  const triggerAnalysis = async (captured: CapturedVoiceRecording, prompt: RecordingPrompt) => {
+    if (modelError) return;
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setAnalyzing(true);
     setAnalysisError(null);
     setSaveMessage(null);
     setAnalysisStep('');
+    setQualityReport(null);
     try {
+      const calibration = await (calibrationRef.current ?? Promise.resolve(null));
       setAnalysisStep('Extracting voice features from audio...');
-      const features = await extractVoiceFeatures(audioBlob);
-      
-      setAnalysisStep(`Comparing with ${modelMetadata?.sampleCount || 188} training samples using KNN algorithm...`);
-      const result = await predictVoiceSample(features);
-      
+      // Lossless captures are analysed from their float PCM, without decoding.
+      const { quality, features, prosody, prediction: result } = await analyseVoiceRecording(captured.pcm ?? captured.blob, {
+        signal: controller.signal,
+        calibration,
+        segmentation: buildSegmentationOptions(prompt),
+        onProgress: (progress) =>
+          setAnalysisStep(describePipelineProgress(progress, modelMetadata?.sampleCount || 188)),
+      });
+      setQualityReport(quality);
+      if (!features || !result) {
+        setAnalysisStep('');
+        return;
+      }
+
+      taskRecordingsRef.current[prompt.kind] = captured;
+      const results = [
+        ...taskResultsRef.current.filter((taskResult) => taskResult.kind !== prompt.kind),
+        { kind: prompt.kind, quality, features, prosody, prediction: result, recordingFormat: captured.format },
+      ];
+      updateTaskResults(results);
+      if (nextPendingPrompt()) {
+        setAnalysisStep('');
+        return;
+      }
+
+      setAnalysisStep('Combining the results of all voice tasks...');
+      const combined = aggregateVoiceTasks(results);
+      // Jitter, shimmer and HNR are only meaningful on the sustained vowel.
+      const vowelResult = results.find((taskResult) => taskResult.kind === 'sustained-vowel') ?? results[0];
+
       setAnalysisStep('Generating prescription plan based on voice patterns...');
-      const plan = generatePrescriptionPlan(result, features);
+      const plan = generatePrescriptionPlan(combined, vowelResult.features);
       
-      setFeatureVector(features);
       setPrescription(plan);
-      setPrediction(result);
+      setAggregate(combined);
       
       setAnalysisStep('Saving screening results to database...');
-      await persistScreeningResult(features, result, plan);
+      await persistScreeningResult(results, combined, plan);
       
       setAnalysisStep('Analysis complete!');
     } catch (analysisFailure) {
+      if (isVoicePipelineCancellation(analysisFailure)) return;
       const message = analysisFailure instanceof Error
         ? analysisFailure.message
         : 'Unable to analyse the voice recording locally.';
       setAnalysisError(message);
-      setPrediction(null);
-      setFeatureVector(null);
-      setPrescription(null);
       setAnalysisStep('');
       console.error('Voice analysis failed:', analysisFailure);
     } finally {
-      setAnalyzing(false);
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setAnalyzing(false);
+      }
     }
   };
 
+  const handleAnalyze = async () => {
+    const prompt = promptRef.current;
+    if (!capturedRecording || !prompt) return;
+    await triggerAnalysis(capturedRecording, prompt);
+  };
+
   const handleUpload = async () => {
-    if (!audioBlob || !user) return;
+    if (!capturedRecording || !user) return;
     setProcessing(true);
     setError(null);
     setSuccess(false);
     setSaveMessage(null);
     try {
-      const fileName = `${user.id}-${Date.now()}.webm`;
-      const filePath = `voice/${user.id}/${fileName}`;
-      const { error: uploadError } = await supabase.storage.from('test_artifacts').upload(filePath, audioBlob);
-      if (uploadError) throw uploadError;
+      // Every task recording shares the session prefix; the sustained vowel is
+      // the one referenced by the test row and analysed in the cloud.
+      const sessionPrefix = `voice/${user.id}/${user.id}-${Date.now()}`;
+      const recordings = { ...taskRecordingsRef.current };
+      if (!Object.keys(recordings).length) {
+        recordings[promptRef.current?.kind ?? 'sustained-vowel'] = capturedRecording;
+      }
+      const uploadedPaths: string[] = [];
+      for (const kind of VOICE_PROTOCOL_TASKS) {
+        const recording = recordings[kind];
+        if (!recording) continue;
+        const taskPath = `${sessionPrefix}-${kind}.${recording.format.container}`;
+        const { error: uploadError } = await supabase.storage.from('test_artifacts').upload(taskPath, recording.blob);
+        if (uploadError) throw uploadError;
+        uploadedPaths.push(taskPath);
+      }
+      const filePath = uploadedPaths[0];
       let targetTestId = savedTestId;
       if (savedTestId) {
         const { error: updateError } = await supabase
@@ -475,20 +708,9 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
             patient_id: user.id,
             test_type: 'speech',
             raw_storage_path: filePath,
-            result: prediction && featureVector && prescription ? {
-              ...prediction,
-              riskScore: Number((prediction.probabilityOfParkinsons * 10).toFixed(1)),
-              riskLevel: deriveRiskLevel(prediction.probabilityOfParkinsons),
-              features: featureVector,
-              prescription,
-              createdAt: new Date().toISOString(),
-              source: 'voice-screening-local',
-            } : null,
-            confidence: prediction?.probabilityOfParkinsons ?? null,
-            model_versions: prediction ? {
-              voiceKnn: `k=${prediction.k}`,
-              dataset: 'pd_speech_features.csv',
-            } : null,
+            result: aggregate && prescription ? toJson(buildResultPayload(taskResults, aggregate, prescription)) : null,
+            confidence: aggregate?.probabilityOfParkinsons ?? null,
+            model_versions: taskResults.length ? buildModelVersions(taskResults, modelMetadata) : null,
           })
           .select('id')
           .single();
@@ -516,6 +738,12 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
     };
   }, [audioUrl]);
 
+  const pendingPrompt = RECORDING_PROMPTS.find((prompt) => !taskResults.some((result) => result.kind === prompt.kind)) ?? null;
+  const pendingTaskNumber = pendingPrompt ? RECORDING_PROMPTS.indexOf(pendingPrompt) + 1 : RECORDING_PROMPTS.length;
+  const recordButtonLabel = pendingPrompt && pendingPrompt.kind !== recordingPrompt?.kind
+    ? `Record Task ${pendingTaskNumber}: ${TASK_LABELS[pendingPrompt.kind]}`
+    : 'Record Again';
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
       <Card className="w-full max-w-lg">
@@ -526,17 +754,27 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
         <div className="space-y-4 text-center">
           {recordingStatus === 'idle' && (
             <div>
-              <p className="text-muted-foreground">Press the button to start recording your voice. You will be prompted with what to say.</p>
+              <p className="text-muted-foreground">
+                The screening has {RECORDING_PROMPTS.length} short voice tasks recorded one after another. Press the button to
+                start task {pendingTaskNumber}{pendingPrompt ? ` (${TASK_LABELS[pendingPrompt.kind].toLowerCase()})` : ''}; you will be prompted with what to say.
+              </p>
               <button onClick={startRecording} className="mx-auto flex items-center justify-center w-20 h-20 rounded-full bg-red-600 hover:bg-red-700 text-white transition-colors">
                 <Mic size={40} />
               </button>
+              {taskResults.length === 0 && (
+                <div className="mt-4">
+                  <MicrophoneCalibrationPanel userId={user?.id ?? null} featureGroups={modelMetadata?.featureGroups ?? null} />
+                </div>
+              )}
             </div>
           )}
           {recordingStatus === 'recording' && (
             <>
               <div className="bg-blue-900/30 border border-blue-500 rounded-lg p-4 mb-4">
-                <p className="text-lg font-semibold text-blue-300 mb-2">Recording Prompt:</p>
-                <p className="text-white text-base">{recordingPrompt}</p>
+                <p className="text-lg font-semibold text-blue-300 mb-2">
+                  Task {recordingPrompt ? RECORDING_PROMPTS.indexOf(recordingPrompt) + 1 : 1} of {RECORDING_PROMPTS.length}:
+                </p>
+                <p className="text-white text-base">{recordingPrompt?.text}</p>
               </div>
               <div className="flex items-center justify-center space-x-4 mb-2">
                 <div className="text-2xl font-mono text-red-500 animate-pulse">
@@ -568,13 +806,36 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
                   </div>
                 )}
                 
-                {!analyzing && !prediction && (
+                {taskResults.length > 0 && (
+                  <div className="border border-blue-700/40 bg-blue-900/10 rounded-lg p-3 text-left">
+                    <h5 className="text-sm font-semibold text-blue-300">
+                      Voice tasks ({taskResults.length} of {RECORDING_PROMPTS.length} complete)
+                    </h5>
+                    <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                      {RECORDING_PROMPTS.map(({ kind }) => {
+                        const taskResult = taskResults.find((result) => result.kind === kind);
+                        return (
+                          <li key={kind} className="flex justify-between">
+                            <span className="font-medium">{TASK_LABELS[kind]}</span>
+                            <span>
+                              {taskResult
+                                ? `${(taskResult.prediction.probabilityOfParkinsons * 100).toFixed(1)}% (SNR ${taskResult.quality.snrDb.toFixed(1)} dB, ${taskResult.quality.effectiveDurationSeconds.toFixed(1)} s)`
+                                : 'Pending'}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
+
+                {!analyzing && !aggregate && (
                   <div className="flex flex-col sm:flex-row gap-3">
                     <button
                       onClick={startRecording}
                       className="w-full bg-secondary text-secondary-foreground font-semibold p-3 rounded-lg"
                     >
-                      Record Again
+                      {recordButtonLabel}
                     </button>
                     <button
                       onClick={handleAnalyze}
@@ -587,31 +848,46 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
                   </div>
                 )}
                 
-                {prediction && (
+                {aggregate && (
                   <div className="flex flex-col gap-3">
                     <button
                       onClick={startRecording}
                       className="w-full bg-secondary text-secondary-foreground font-semibold p-3 rounded-lg"
                     >
-                      Record New Sample
+                      Start New Screening
                     </button>
                   </div>
                 )}
                 {modelLoading && (
                   <p className="text-xs text-muted-foreground text-left">
-                    Initialising KNN voice screening model...
+                    Initialising the voice screening model ({Math.round(modelLoadingProgress * 100)}%)...
+                    {!loadHyperparameterSearch() && ' The first load also searches for the best KNN settings.'}
                   </p>
                 )}
                 {modelMetadata && !modelLoading && !modelError && (
                   <div className="space-y-2">
                     <div className="bg-blue-900/20 border border-blue-700/40 rounded-lg p-3">
                       <p className="text-xs text-blue-300 text-left">
-                        ✓ KNN model ready: {modelMetadata.sampleCount} real voice samples loaded 
-                        (k={modelMetadata.k}
-                        {modelMetadata.accuracy !== null ? `, ${(modelMetadata.accuracy * 100).toFixed(1)}% accuracy` : ''})
+                        ✓ Voice model ready: {modelMetadata.sampleCount} real voice samples loaded 
+                        ({describeVoiceClassifier(modelMetadata)}, features: {modelMetadata.featureGroups.join(' + ')})
                       </p>
+                      {(modelMetadata.datasetValidation.droppedRows.length > 0 || Object.keys(modelMetadata.datasetValidation.missingValues).length > 0) && (
+                        <p className="text-xs text-blue-400/80 text-left mt-1">
+                          Dataset cleaning: {modelMetadata.datasetValidation.droppedRows.length} of {modelMetadata.datasetValidation.rows} rows dropped,
+                          {' '}{Object.values(modelMetadata.datasetValidation.missingValues).reduce((sum, count) => sum + (count ?? 0), 0)} missing
+                          {' '}values filled with the {modelMetadata.datasetValidation.imputation === 'class-median' ? 'class median' : 'median'}.
+                        </p>
+                      )}
+                      {(modelMetadata.evaluation ?? modelMetadata.selectionScores) && (
+                        <VoiceModelEvaluationSummary
+                          evaluation={(modelMetadata.evaluation ?? modelMetadata.selectionScores)!}
+                          hyperparameterSearch={modelMetadata.hyperparameterSearch}
+                          probabilityCalibration={modelMetadata.probabilityCalibration}
+                          selection={!modelMetadata.evaluation}
+                        />
+                      )}
                       <p className="text-xs text-blue-400/80 text-left mt-1">
-                        Voice screening uses real-time feature extraction and KNN algorithm with the actual dataset - no mock data.
+                        Voice screening uses real-time feature extraction and a {VOICE_CLASSIFIERS[modelMetadata.algorithm].label} classifier trained on the actual dataset - no mock data.
                       </p>
                     </div>
                     <div className="bg-amber-900/20 border border-amber-700/40 rounded-lg p-3">
@@ -630,21 +906,78 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
                     <p className="text-sm text-left">{modelError}</p>
                   </div>
                 )}
+                {qualityReport && !qualityReport.passed && !analyzing && (
+                  <div className="border border-amber-700/40 bg-amber-900/20 rounded-lg p-3 text-left">
+                    <div className="flex items-center space-x-2 text-amber-300">
+                      <AlertCircle size={18} />
+                      <p className="text-sm font-semibold">Recording not usable for screening</p>
+                    </div>
+                    <ul className="mt-2 space-y-1 list-disc list-inside text-xs text-amber-400/90">
+                      {qualityReport.issues.map((issue, index) => (
+                        <li key={`quality-${index}`}>{issue}</li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-muted-foreground mt-2">Please record again with the suggestions above.</p>
+                  </div>
+                )}
                 {analysisError && (
                   <div className="flex items-center space-x-2 text-red-400 bg-red-900/20 p-3 rounded-lg">
                     <AlertCircle size={20} />
                     <p className="text-sm text-left">{analysisError}</p>
                   </div>
                 )}
-                {prediction && (
+                {aggregate && (
                   <div className="border border-emerald-700/40 bg-emerald-900/10 rounded-lg p-4 text-left">
                     <h4 className="text-sm font-semibold uppercase tracking-wide text-emerald-300">Local screening</h4>
                     <p className="text-lg font-bold mt-2 capitalize">
-                      {prediction.label === 'Parkinsons' ? `${deriveRiskLevel(prediction.probabilityOfParkinsons).toLowerCase()} risk detected` : 'Within healthy range'}
+                      {aggregate.label === 'Parkinsons' ? `${deriveRiskLevel(aggregate.probabilityOfParkinsons).toLowerCase()} risk detected` : 'Within healthy range'}
                     </p>
                     <p className="text-sm text-muted-foreground mt-1">
-                      Parkinson&apos;s probability {(prediction.probabilityOfParkinsons * 100).toFixed(1)}% using KNN (k={prediction.k}).
+                      Parkinson&apos;s probability {(aggregate.probabilityOfParkinsons * 100).toFixed(1)}%
+                      {aggregate.probabilityInterval && ` (95% CI ${(aggregate.probabilityInterval[0] * 100).toFixed(1)}–${(aggregate.probabilityInterval[1] * 100).toFixed(1)}%)`}, weighted across
+                      {' '}{aggregate.completedTasks.length} voice tasks using
+                      {' '}{taskResults[0] ? describeVoiceClassifier(taskResults[0].prediction) : 'the voice model'}.
                     </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {calibrationProfile && taskResults.some((result) => result.prediction.calibration)
+                        ? `Microphone calibration applied: ${calibrationProfile.deviceLabel} (${calibrationProfile.method}).`
+                        : calibrationProfile
+                          ? `The ${calibrationProfile.method} profile for ${calibrationProfile.deviceLabel} adjusts no feature this voice model uses; features are compared on the raw device scale.`
+                          : 'No calibration profile for this microphone; features are compared on the raw device scale.'}
+                    </p>
+                    {taskResults.some((result) => result.prediction.outOfDistribution.flagged) && (
+                      <div className="border border-amber-700/40 bg-amber-900/20 rounded-lg p-3 mt-3">
+                        <div className="flex items-center space-x-2 text-amber-300">
+                          <AlertCircle size={18} />
+                          <p className="text-sm font-semibold">Some measurements look unlike the training dataset</p>
+                        </div>
+                        <p className="text-xs text-amber-400/90 mt-1">
+                          The probability above is shown unchanged, but the model has seen few or no recordings like these, so treat it with extra caution.
+                        </p>
+                        {taskResults.filter((result) => result.prediction.outOfDistribution.flagged).map(({ kind, prediction }) => (
+                          <div key={kind} className="mt-2">
+                            <p className="text-xs font-medium text-amber-300">{TASK_LABELS[kind]}</p>
+                            <ul className="mt-1 space-y-1 list-disc list-inside text-xs text-amber-400/90">
+                              {explainOutOfDistribution(prediction.outOfDistribution).map((reason, index) => (
+                                <li key={`ood-${kind}-${index}`}>{reason}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {aggregate.attributions.length > 0 && (
+                      <div className="mt-3">
+                        <h5 className="text-sm font-semibold text-emerald-200">What drove this result</h5>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          How much each measurement moved the probability compared with typical dataset recordings
+                          {' '}(red toward Parkinson&apos;s, green toward healthy), weighted across tasks like the probability.
+                        </p>
+                        <VoiceFeatureAttributionChart
+                          attributions={aggregate.attributions.map(({ feature, contribution }) => ({ label: featureLabel(feature), contribution }))}
+                        />
+                      </div>
+                    )}
                     <p className="text-xs text-muted-foreground mt-2">
                       This automated screening is not a diagnosis. Share results with your clinician for confirmation.
                     </p>
@@ -688,17 +1021,54 @@ const VoiceCaptureModal = ({ onClose }: { onClose: () => void }) => {
                         </div>
                       </div>
                     )}
-                    {featureVector && (
+                    {taskResults.length > 0 && (
                       <div className="mt-4">
                         <h5 className="text-sm font-semibold text-emerald-200">Extracted Feature Values</h5>
-                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-2 text-xs text-muted-foreground">
-                          {Object.entries(featureVector).map(([key, value]) => (
-                            <div key={key} className="flex justify-between bg-emerald-900/20 px-3 py-2 rounded">
-                              <span className="font-medium mr-2">{formatFeatureLabel(key as keyof VoiceFeatureVector)}</span>
-                              <span>{formatFeatureValue(value)}</span>
-                            </div>
-                          ))}
-                        </div>
+                        <table className="w-full mt-2 text-xs text-muted-foreground">
+                          <thead>
+                            <tr className="text-emerald-300">
+                              <th className="text-left font-medium py-1">Feature</th>
+                              {taskResults.map(({ kind }) => (
+                                <th key={kind} className="text-right font-medium py-1 pl-2">{TASK_LABELS[kind]}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {DISPLAYED_FEATURES.map((key) => (
+                              <tr key={key} className="border-t border-emerald-900/40">
+                                <td className="py-1 pr-2">{FEATURE_LABELS[key]}</td>
+                                {taskResults.map(({ kind, features }) => (
+                                  <td key={kind} className="text-right py-1 pl-2">{formatFeatureValue(features[key])}</td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                    {taskResults.some((result) => result.prosody) && (
+                      <div className="mt-4">
+                        <h5 className="text-sm font-semibold text-emerald-200">Prosody and Speech Rate</h5>
+                        <table className="w-full mt-2 text-xs text-muted-foreground">
+                          <thead>
+                            <tr className="text-emerald-300">
+                              <th className="text-left font-medium py-1">Measure</th>
+                              {taskResults.filter((result) => result.prosody).map(({ kind }) => (
+                                <th key={kind} className="text-right font-medium py-1 pl-2">{TASK_LABELS[kind]}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {DISPLAYED_PROSODY.map((key) => (
+                              <tr key={key} className="border-t border-emerald-900/40">
+                                <td className="py-1 pr-2">{PROSODY_LABELS[key]}</td>
+                                {taskResults.map(({ kind, prosody }) => prosody && (
+                                  <td key={kind} className="text-right py-1 pl-2">{formatFeatureValue(prosody[key])}</td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
                       </div>
                     )}
                   </div>
@@ -0,0 +1,49 @@
+import Chart from './Chart';
+
+const MAX_BARS = 10;
+
+// Ranked horizontal bars, largest at the top: red pushes toward Parkinson's,
+// green toward healthy. Contributions are in percentage points of probability.
+const getAttributionChartOption = (attributions: Array<{ label: string; contribution: number }>) => {
+  const ranked = attributions.slice(0, MAX_BARS).reverse();
+  return {
+    backgroundColor: 'transparent',
+    tooltip: {
+      trigger: 'axis',
+      axisPointer: { type: 'shadow' },
+      formatter: (params: Array<{ name: string; value: number }>) =>
+        `${params[0].name}<br/>${params[0].value > 0 ? '+' : ''}${params[0].value.toFixed(1)} points`,
+    },
+    xAxis: {
+      type: 'value',
+      name: 'Points of probability',
+      nameLocation: 'middle',
+      nameGap: 22,
+      axisLine: { lineStyle: { color: '#4A5568' } },
+      splitLine: { lineStyle: { color: '#2D3748' } },
+    },
+    yAxis: {
+      type: 'category',
+      data: ranked.map((attribution) => attribution.label),
+      axisLine: { lineStyle: { color: '#4A5568' } },
+      axisLabel: { color: '#A0AEC0', fontSize: 10 },
+    },
+    series: [{
+      name: 'Contribution',
+      type: 'bar',
+      data: ranked.map((attribution) => ({
+        value: Number((attribution.contribution * 100).toFixed(2)),
+        itemStyle: { color: attribution.contribution > 0 ? '#f87171' : '#34d399' },
+      })),
+    }],
+    grid: { left: '3%', right: '4%', top: 8, bottom: 30, containLabel: true },
+  };
+};
+
+const VoiceFeatureAttributionChart = ({ attributions }: { attributions: Array<{ label: string; contribution: number }> }) => (
+  <div className="h-64">
+    <Chart option={getAttributionChartOption(attributions)} />
+  </div>
+);
+
+export default VoiceFeatureAttributionChart;
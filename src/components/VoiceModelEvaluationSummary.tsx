@@ -0,0 +1,167 @@
+import Chart from './Chart';
+import { FoldSpread, VoiceEvaluationStrategy, VoiceModelEvaluation } from '../services/voiceEvaluation';
+import { HyperparameterSearchResult } from '../services/voiceHyperparameterSearch';
+import { ProbabilityCalibrationReport, ReliabilityBin } from '../services/voiceProbabilityCalibration';
+
+const STRATEGY_LABELS: Record<VoiceEvaluationStrategy, string> = {
+  'leave-one-subject-out': 'leave-one-subject-out',
+  'stratified-k-fold': 'stratified subject k-fold',
+};
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+
+// Spread is shown as the standard deviation across folds, in the metric's units.
+const foldSpread = (spread: FoldSpread | null) =>
+  spread ? ` ± ${(Math.sqrt(spread.variance) * 100).toFixed(1)}` : '';
+
+const describeParameters = (parameters: HyperparameterSearchResult['selected']) =>
+  Object.entries(parameters).map(([name, value]) => `${name}=${value}`).join(', ');
+
+// Observed Parkinson's rate against the mean predicted probability per bin;
+// a calibrated model follows the diagonal.
+const getReliabilityChartOption = (bins: ReliabilityBin[]) => ({
+  backgroundColor: 'transparent',
+  tooltip: {
+    trigger: 'item',
+    formatter: (params: { data: [number, number, number] }) =>
+      `Predicted ${(params.data[0] * 100).toFixed(0)}%<br/>Observed ${(params.data[1] * 100).toFixed(0)}%<br/>${params.data[2]} recordings`,
+  },
+  xAxis: {
+    type: 'value',
+    min: 0,
+    max: 1,
+    name: 'Predicted',
+    nameLocation: 'middle',
+    nameGap: 22,
+    axisLine: { lineStyle: { color: '#4A5568' } },
+    splitLine: { show: false },
+  },
+  yAxis: {
+    type: 'value',
+    min: 0,
+    max: 1,
+    name: 'Observed',
+    nameLocation: 'middle',
+    nameGap: 30,
+    axisLine: { lineStyle: { color: '#4A5568' } },
+    splitLine: { lineStyle: { color: '#2D3748' } },
+  },
+  series: [
+    {
+      name: 'Perfect calibration',
+      type: 'line',
+      data: [[0, 0], [1, 1]],
+      symbol: 'none',
+      silent: true,
+      lineStyle: { color: '#4A5568', type: 'dashed' },
+    },
+    {
+      name: 'Model',
+      type: 'line',
+      data: bins.map((bin) => [bin.meanPredicted, bin.observedRate, bin.count]),
+      itemStyle: { color: '#38bdf8' },
+    },
+  ],
+  grid: { left: 40, right: 12, top: 12, bottom: 36 },
+});
+
+const VoiceModelEvaluationSummary = ({
+  evaluation,
+  hyperparameterSearch,
+  probabilityCalibration,
+  selection = false,
+}: {
+  evaluation: VoiceModelEvaluation;
+  hyperparameterSearch?: HyperparameterSearchResult | null;
+  probabilityCalibration?: ProbabilityCalibrationReport | null;
+  selection?: boolean; // the metrics are the search's selection scores
+}) => {
+  const { confusionMatrix: matrix, perFold } = evaluation;
+  const metrics = [
+    { label: 'Sensitivity', value: percent(evaluation.sensitivity), spread: foldSpread(perFold.sensitivity) },
+    { label: 'Specificity', value: percent(evaluation.specificity), spread: foldSpread(perFold.specificity) },
+    { label: 'ROC AUC', value: evaluation.rocAuc === null ? 'n/a' : evaluation.rocAuc.toFixed(3), spread: '' },
+    { label: 'Accuracy', value: percent(evaluation.accuracy), spread: foldSpread(perFold.accuracy) },
+  ];
+
+  return (
+    <div className="mt-2 text-left">
+      <p className="text-xs text-blue-400/80">
+        Validated {STRATEGY_LABELS[evaluation.strategy]} ({evaluation.folds} folds, {evaluation.subjects} subjects);
+        {' '}± is the standard deviation across folds.
+        {selection && ' These are selection scores: the parameters were chosen on the same folds, so they overstate how the model does on new speakers.'}
+      </p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-2">
+        {metrics.map(({ label, value, spread }) => (
+          <div key={label} className="bg-blue-950/30 rounded p-2">
+            <p className="text-[10px] uppercase tracking-wide text-blue-400/80">{label}</p>
+            <p className="text-sm font-semibold text-blue-200">
+              {value}
+              {spread && <span className="text-[10px] font-normal text-blue-400/80">{spread}</span>}
+            </p>
+          </div>
+        ))}
+      </div>
+      <table className="mt-2 text-xs text-blue-300/90">
+        <thead>
+          <tr>
+            <th className="text-left font-medium pr-3 py-0.5">Actual \ Predicted</th>
+            <th className="text-right font-medium px-2 py-0.5">Parkinson&apos;s</th>
+            <th className="text-right font-medium px-2 py-0.5">Healthy</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="border-t border-blue-900/40">
+            <td className="pr-3 py-0.5">Parkinson&apos;s</td>
+            <td className="text-right px-2 py-0.5">{matrix.truePositive}</td>
+            <td className="text-right px-2 py-0.5">{matrix.falseNegative}</td>
+          </tr>
+          <tr className="border-t border-blue-900/40">
+            <td className="pr-3 py-0.5">Healthy</td>
+            <td className="text-right px-2 py-0.5">{matrix.falsePositive}</td>
+            <td className="text-right px-2 py-0.5">{matrix.trueNegative}</td>
+          </tr>
+        </tbody>
+      </table>
+      {probabilityCalibration && (
+        <details className="mt-2 text-xs text-blue-300/90">
+          <summary className="cursor-pointer text-blue-400/80">
+            {probabilityCalibration.calibrator.method === 'platt' ? 'Platt' : 'Isotonic'} calibration: Brier score
+            {' '}{probabilityCalibration.brierScore.toFixed(3)} (uncalibrated {probabilityCalibration.uncalibratedBrierScore.toFixed(3)})
+          </summary>
+          <div className="h-48 mt-1">
+            <Chart option={getReliabilityChartOption(probabilityCalibration.reliability)} />
+          </div>
+        </details>
+      )}
+      {hyperparameterSearch && (
+        <details className="mt-2 text-xs text-blue-300/90">
+          <summary className="cursor-pointer text-blue-400/80">
+            Selected {describeParameters(hyperparameterSearch.selected)} from {hyperparameterSearch.candidates.length} candidates
+            {' '}(by ROC AUC, searched {new Date(hyperparameterSearch.searchedAt).toLocaleDateString()})
+          </summary>
+          <table className="mt-1">
+            <thead>
+              <tr>
+                <th className="text-left font-medium pr-3 py-0.5">Parameters</th>
+                <th className="text-right font-medium px-2 py-0.5">ROC AUC</th>
+                <th className="text-right font-medium px-2 py-0.5">Balanced accuracy</th>
+              </tr>
+            </thead>
+            <tbody>
+              {hyperparameterSearch.candidates.slice(0, 5).map((candidate) => (
+                <tr key={describeParameters(candidate.parameters)} className="border-t border-blue-900/40">
+                  <td className="pr-3 py-0.5">{describeParameters(candidate.parameters)}</td>
+                  <td className="text-right px-2 py-0.5">{candidate.rocAuc === null ? 'n/a' : candidate.rocAuc.toFixed(3)}</td>
+                  <td className="text-right px-2 py-0.5">{percent(candidate.balancedAccuracy)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default VoiceModelEvaluationSummary;
@@ -1,13 +1,16 @@
 import { useState } from 'react';
 import Card from '../components/Card';
-import { Upload, Mic, PenTool, Video } from 'lucide-react';
+import { Upload, Mic, PenTool, Pencil, Video, Printer, LoaderCircle } from 'lucide-react';
 import UploadModal from '../components/UploadModal';
 import VoiceCaptureModal from '../components/VoiceCaptureModal';
 import ImageCaptureModal from '../components/ImageCaptureModal';
+import DrawingTestModal from '../components/DrawingTestModal';
+import { useAuth } from '../hooks/useAuth';
 
 const testOptions = [
     { id: 'voice', title: 'Capture Voice', description: 'Record a 30-120s audio sample.', icon: Mic, type: 'speech' },
     { id: 'handwriting', title: 'Capture Handwriting', description: 'Photograph a spiral or wave drawing.', icon: PenTool, type: 'spiral' },
+    { id: 'drawing', title: 'Draw on Screen', description: 'Trace a spiral or wave with a stylus or finger.', icon: Pencil, type: 'drawing' },
     { id: 'video', title: 'Capture Face Video', description: 'Record a 2-minute video for vitals estimation.', icon: Video, type: 'video' },
     { id: 'upload', title: 'Upload File', description: 'Upload an existing audio, image, or video file.', icon: Upload, type: 'upload' },
 ];
@@ -15,6 +18,9 @@ const testOptions = [
 const NewTest = () => {
   const [activeModal, setActiveModal] = useState<string | null>(null);
   const [activeTestType, setActiveTestType] = useState<string>('upload');
+  const [printing, setPrinting] = useState(false);
+  const [printError, setPrintError] = useState<string | null>(null);
+  const { user } = useAuth();
 
   const openModal = (id: string, type: string) => {
       setActiveModal(id);
@@ -25,13 +31,27 @@ const NewTest = () => {
       setActiveModal(null);
   }
 
+  const printTemplate = async () => {
+      if (!user) return;
+      setPrinting(true);
+      setPrintError(null);
+      try {
+          const { downloadDrawingTemplate } = await import('../services/drawingTemplate');
+          await downloadDrawingTemplate(user.id);
+      } catch (templateError) {
+          setPrintError(templateError instanceof Error ? templateError.message : 'Could not create the drawing template.');
+      } finally {
+          setPrinting(false);
+      }
+  }
+
   return (
     <div>
       <h2 className="text-3xl font-bold mb-6">Start a New Test</h2>
       <p className="text-muted-foreground mb-8 max-w-2xl">
         Choose a method to provide data for analysis. Real-time capture provides the most accurate environmental data, but you can also upload existing files.
       </p>
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
         {testOptions.map(option => (
             <Card key={option.title} onClick={() => openModal(option.id, option.type)} className="text-center hover:border-primary transition-colors cursor-pointer">
                 <option.icon className="h-12 w-12 mx-auto text-primary-foreground mb-4" />
@@ -41,8 +61,20 @@ const NewTest = () => {
         ))}
       </div>
 
+      <div className="mt-8 flex flex-wrap items-center gap-4">
+        <button onClick={printTemplate} disabled={printing || !user} className="bg-secondary text-secondary-foreground font-semibold px-4 py-2 rounded-lg flex items-center disabled:opacity-50">
+          {printing ? <LoaderCircle size={18} className="mr-2 animate-spin" /> : <Printer size={18} className="mr-2" />}
+          Print a Drawing Template
+        </button>
+        <p className="text-sm text-muted-foreground max-w-xl">
+          Draw on the printed sheet, then photograph it with Capture Handwriting. The photo is aligned to the template and linked to its session automatically.
+        </p>
+      </div>
+      {printError && <p className="text-sm text-red-400 mt-2">{printError}</p>}
+
       {activeModal === 'upload' && <UploadModal onClose={closeModal} />}
       {activeModal === 'voice' && <VoiceCaptureModal onClose={closeModal} />}
+      {activeModal === 'drawing' && <DrawingTestModal onClose={closeModal} />}
       {(activeModal === 'handwriting' || activeModal === 'video') && <ImageCaptureModal onClose={closeModal} testType={activeTestType} />}
 
     </div>
@@ -0,0 +1,399 @@
+import { fftInPlace } from '../utils/fft';
+import { solveLinearSystem } from '../utils/linearAlgebra';
+
+// Kinematic analysis of an on-screen spiral or wave drawing. Pen samples arrive
+// at an irregular rate, so each stroke is first resampled onto a uniform time
+// grid; speed, acceleration and jerk come from finite differences of the
+// smoothed path, and tremor from the spectrum of the drawing's deviation from
+// the ideal curve fitted to it. Distances are in the drawing surface's pixels.
+
+export type DrawingTemplate = 'spiral' | 'wave';
+
+export interface PenSample {
+  x: number;
+  y: number;
+  t: number; // ms, PointerEvent.timeStamp
+  pressure: number; // 0..1; mice report 0.5 while a button is down
+  tiltX: number; // degrees, -90..90
+  tiltY: number;
+}
+
+export interface PenStroke {
+  pointerType: string; // "pen", "touch" or "mouse"
+  samples: PenSample[];
+}
+
+// Archimedean spiral r = maxRadius * θ / (2π * turns), drawn outwards from the centre.
+export interface SpiralGuide {
+  template: 'spiral';
+  centreX: number;
+  centreY: number;
+  turns: number;
+  maxRadius: number;
+}
+
+// Sine wave across [left, right] around the baseline.
+export interface WaveGuide {
+  template: 'wave';
+  left: number;
+  right: number;
+  baseline: number;
+  amplitude: number;
+  periods: number;
+}
+
+export type DrawingGuide = SpiralGuide | WaveGuide;
+
+export interface KinematicSummary {
+  mean: number;
+  std: number;
+  max: number;
+}
+
+export interface DrawingTremor {
+  frequencyHz: number; // spectral peak between TREMOR_BAND_HZ
+  amplitude: number; // px, of a sinusoid at that frequency
+  powerShare: number; // share of the 1-25 Hz deviation power within 1 Hz of the peak
+}
+
+export interface DrawingKinematics {
+  template: DrawingTemplate;
+  durationMs: number; // first pen-down to last pen-up
+  penDownMs: number;
+  sampleRateHz: number; // median rate of the raw pointer events
+  sampleCount: number;
+  pathLength: number;
+  speed: KinematicSummary; // px/s
+  acceleration: KinematicSummary; // px/s²
+  jerk: KinematicSummary; // px/s³
+  normalisedJerk: number; // dimensionless; higher means less smooth, independent of size and duration
+  penLifts: number;
+  pressure: { mean: number; std: number } | null; // null when the device does not sense pressure
+  tilt: { meanX: number; meanY: number } | null; // null when the device does not sense tilt
+  deviation: { meanAbsolute: number; rms: number }; // px, radial (spiral) or vertical (wave) from the fitted curve
+  tremor: DrawingTremor | null; // null when no stroke is long enough for a spectrum
+}
+
+// Recorded in tests.model_versions; bump when the features change meaning.
+export const DRAWING_ANALYSIS_VERSION = 'drawing-kinematics-v1';
+
+export const SPIRAL_TURNS = 3;
+export const WAVE_PERIODS = 3;
+
+const RESAMPLE_HZ = 100;
+const SMOOTHING_SAMPLES = 5; // 50 ms moving average before differentiating
+const TREMOR_SEGMENT = 128; // 1.28 s Welch segments, half overlapping
+const TREMOR_FFT_SIZE = 512;
+export const TREMOR_BAND_HZ: readonly [number, number] = [3, 12];
+const MIN_SAMPLES = 20;
+const CENTRE_ITERATIONS = 10; // refits that move the spiral's centre, each to within about 0.1 px
+
+/** Guide curve sized to a drawing surface of the given CSS size. */
+export function createDrawingGuide(template: DrawingTemplate, width: number, height: number): DrawingGuide {
+  if (template === 'spiral') {
+    return { template, centreX: width / 2, centreY: height / 2, turns: SPIRAL_TURNS, maxRadius: 0.42 * Math.min(width, height) };
+  }
+  return { template, left: 0.08 * width, right: 0.92 * width, baseline: height / 2, amplitude: 0.22 * height, periods: WAVE_PERIODS };
+}
+
+/** Points along the guide curve, for drawing it underneath the pen. */
+export function guidePoints(guide: DrawingGuide, count = 600): Array<{ x: number; y: number }> {
+  return Array.from({ length: count }, (_, index) => {
+    const fraction = index / (count - 1);
+    if (guide.template === 'spiral') {
+      const angle = fraction * 2 * Math.PI * guide.turns;
+      const radius = fraction * guide.maxRadius;
+      return { x: guide.centreX + radius * Math.cos(angle), y: guide.centreY + radius * Math.sin(angle) };
+    }
+    const x = guide.left + fraction * (guide.right - guide.left);
+    return { x, y: guide.baseline - guide.amplitude * Math.sin(2 * Math.PI * guide.periods * fraction) };
+  });
+}
+
+function summarise(values: number[]): KinematicSummary {
+  if (!values.length) {
+    return { mean: 0, std: 0, max: 0 };
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance), max: Math.max(...values) };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Least squares coefficients of the given basis functions.
+function fitCoefficients(targets: number[], basis: number[][]): number[] {
+  const size = basis[0].length;
+  const normal = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const rhs = new Array<number>(size).fill(0);
+  basis.forEach((row, index) => {
+    for (let i = 0; i < size; i += 1) {
+      rhs[i] += row[i] * targets[index];
+      for (let j = 0; j < size; j += 1) normal[i][j] += row[i] * row[j];
+    }
+  });
+  // The systems here are 2×2 or 3×3, singular only for a handful of samples.
+  const coefficients = solveLinearSystem(normal, rhs);
+  if (!coefficients) {
+    throw new Error('The drawing is too short to fit the guide curve.');
+  }
+  return coefficients;
+}
+
+// Least squares on the given basis functions, returning the residuals.
+function fitResiduals(targets: number[], basis: number[][]): number[] {
+  const coefficients = fitCoefficients(targets, basis);
+  return targets.map((target, index) => target - basis[index].reduce((sum, value, i) => sum + value * coefficients[i], 0));
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Angle of every sample around `centre`, unwrapped within each stroke. A pen lift can skip any part of a turn, so strokes are not
+ * unwrapped across the gap; instead each is shifted by the whole number of
+ * turns that puts it on the spiral r = a + bθ fitted to all of them. The fit
+ * starts from the guide's pitch, signed by whether the radius grows or shrinks
+ * as the angle advances within the strokes.
+ */
+function unwrapSpiralAngles(strokes: PenSample[][], radii: number[][], guide: SpiralGuide, centre: { x: number; y: number }): number[][] {
+  const angles = strokes.map((samples) => {
+    let previous = 0;
+    let unwrapped = 0;
+    return samples.map((sample, index) => {
+      const angle = Math.atan2(sample.y - centre.y, sample.x - centre.x);
+      if (index === 0) {
+        unwrapped = angle;
+      } else {
+        let step = angle - previous;
+        if (step > Math.PI) step -= 2 * Math.PI;
+        if (step < -Math.PI) step += 2 * Math.PI;
+        unwrapped += step;
+      }
+      previous = angle;
+      return unwrapped;
+    });
+  });
+
+  let covariance = 0;
+  angles.forEach((strokeAngles, stroke) => {
+    const meanAngle = mean(strokeAngles);
+    const meanRadius = mean(radii[stroke]);
+    strokeAngles.forEach((angle, index) => { covariance += (angle - meanAngle) * (radii[stroke][index] - meanRadius); });
+  });
+  let a = 0;
+  let b = (covariance < 0 ? -1 : 1) * (guide.maxRadius / (2 * Math.PI * guide.turns));
+  let turns = strokes.map(() => 0);
+  for (let iteration = 0; iteration < 5 && Math.abs(b) > 1e-9; iteration += 1) {
+    const next = angles.map((strokeAngles, stroke) =>
+      Math.round(mean(strokeAngles.map((angle, index) => (radii[stroke][index] - a) / b - angle)) / (2 * Math.PI)),
+    );
+    if (iteration && next.every((turn, stroke) => turn === turns[stroke])) break;
+    turns = next;
+    const shifted = angles.flatMap((strokeAngles, stroke) => strokeAngles.map((angle) => angle + 2 * Math.PI * turns[stroke]));
+    [a, b] = fitCoefficients(radii.flat(), shifted.map((angle) => [1, angle]));
+  }
+  return angles.map((strokeAngles, stroke) => strokeAngles.map((angle) => angle + 2 * Math.PI * turns[stroke]));
+}
+
+/**
+ * Deviation of every sample (in drawing order, stroke after stroke) from the
+ * ideal curve fitted to the drawing: r = a + bθ for the spiral, with θ
+ * unwrapped so either drawing direction fits, and y = c + A sin φ + B cos φ
+ * for the wave. Fitting rather than comparing with the guide keeps a drawing
+ * that is slightly too large or offset from reading as deviation. Seen from
+ * the wrong centre a spiral gains a once-per-turn term, o·(cos θ, sin θ) for
+ * an offset o, so the spiral fit carries cos θ and sin θ terms and the centre
+ * is moved by their coefficients until it settles.
+ */
+function deviationFromIdeal(strokes: PenSample[][], guide: DrawingGuide): number[] {
+  if (guide.template === 'spiral') {
+    let centre = { x: guide.centreX, y: guide.centreY };
+    for (let iteration = 0; ; iteration += 1) {
+      const radii = strokes.map((samples) => samples.map((sample) => Math.hypot(sample.x - centre.x, sample.y - centre.y)));
+      const basis = unwrapSpiralAngles(strokes, radii, guide, centre)
+        .flat()
+        .map((angle) => [1, angle, Math.cos(angle), Math.sin(angle)]);
+      const [, , offsetX, offsetY] = fitCoefficients(radii.flat(), basis);
+      if (iteration === CENTRE_ITERATIONS || Math.hypot(offsetX, offsetY) < 0.1) {
+        return fitResiduals(radii.flat(), basis);
+      }
+      centre = { x: centre.x + offsetX, y: centre.y + offsetY };
+    }
+  }
+  const samples = strokes.flat();
+  const phase = (x: number) => (2 * Math.PI * guide.periods * (x - guide.left)) / (guide.right - guide.left);
+  return fitResiduals(
+    samples.map((sample) => sample.y),
+    samples.map((sample) => [1, Math.sin(phase(sample.x)), Math.cos(phase(sample.x))]),
+  );
+}
+
+// Linear interpolation of a stroke's samples onto a RESAMPLE_HZ grid.
+function resample(times: number[], channels: number[][]): number[][] {
+  const step = 1000 / RESAMPLE_HZ;
+  const count = Math.floor((times[times.length - 1] - times[0]) / step) + 1;
+  let cursor = 0;
+  const output = channels.map(() => new Array<number>(count));
+  for (let index = 0; index < count; index += 1) {
+    const time = times[0] + index * step;
+    while (cursor < times.length - 2 && times[cursor + 1] < time) cursor += 1;
+    const span = times[cursor + 1] - times[cursor];
+    const weight = span > 0 ? Math.min(Math.max((time - times[cursor]) / span, 0), 1) : 0;
+    channels.forEach((channel, channelIndex) => {
+      output[channelIndex][index] = channel[cursor] + weight * (channel[cursor + 1] - channel[cursor]);
+    });
+  }
+  return output;
+}
+
+function movingAverage(values: number[], width: number): number[] {
+  const half = Math.floor(width / 2);
+  return values.map((_, index) => {
+    const start = Math.max(0, index - half);
+    const end = Math.min(values.length, index + half + 1);
+    let sum = 0;
+    for (let position = start; position < end; position += 1) sum += values[position];
+    return sum / (end - start);
+  });
+}
+
+const difference = (values: number[]) => values.slice(1).map((value, index) => (value - values[index]) * RESAMPLE_HZ);
+
+/**
+ * Welch estimate of the deviation spectrum: Hann-windowed, linearly detrended
+ * segments from every stroke long enough, averaged. The amplitude is that of a
+ * sinusoid producing the peak, so a 2 px tremor reads as about 2 px.
+ */
+function estimateTremor(deviationSegments: number[][]): DrawingTremor | null {
+  const window = Array.from({ length: TREMOR_SEGMENT }, (_, index) => 0.5 - 0.5 * Math.cos((2 * Math.PI * index) / (TREMOR_SEGMENT - 1)));
+  const windowSum = window.reduce((sum, value) => sum + value, 0);
+  const power = new Float64Array(TREMOR_FFT_SIZE / 2 + 1);
+  let segments = 0;
+  deviationSegments.forEach((signal) => {
+    for (let start = 0; start + TREMOR_SEGMENT <= signal.length; start += TREMOR_SEGMENT / 2) {
+      const segment = signal.slice(start, start + TREMOR_SEGMENT);
+      const detrended = fitResiduals(segment, segment.map((_, index) => [1, index]));
+      const real = new Float64Array(TREMOR_FFT_SIZE);
+      const imag = new Float64Array(TREMOR_FFT_SIZE);
+      detrended.forEach((value, index) => { real[index] = value * window[index]; });
+      fftInPlace(real, imag);
+      for (let bin = 0; bin < power.length; bin += 1) power[bin] += real[bin] * real[bin] + imag[bin] * imag[bin];
+      segments += 1;
+    }
+  });
+  if (!segments) {
+    return null;
+  }
+  const binHz = RESAMPLE_HZ / TREMOR_FFT_SIZE;
+  const binOf = (frequency: number) => Math.round(frequency / binHz);
+  let peak = binOf(TREMOR_BAND_HZ[0]);
+  for (let bin = peak; bin <= binOf(TREMOR_BAND_HZ[1]); bin += 1) {
+    if (power[bin] > power[peak]) peak = bin;
+  }
+  // Parabolic interpolation between bins.
+  const [left, centre, right] = [power[peak - 1], power[peak], power[peak + 1]];
+  const curvature = left - 2 * centre + right;
+  const offset = curvature < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / curvature)) : 0;
+
+  let total = 0;
+  let nearPeak = 0;
+  for (let bin = binOf(1); bin <= binOf(25); bin += 1) {
+    total += power[bin];
+    if (Math.abs(bin - peak) * binHz <= 1) nearPeak += power[bin];
+  }
+  return {
+    frequencyHz: (peak + offset) * binHz,
+    amplitude: (2 * Math.sqrt(centre / segments)) / windowSum,
+    powerShare: total ? nearPeak / total : 0,
+  };
+}
+
+/** Computes the kinematic features of a finished drawing. */
+export function analyseDrawing(strokes: PenStroke[], guide: DrawingGuide): DrawingKinematics {
+  // Coalesced events can repeat a timestamp; keep time strictly increasing.
+  const cleaned = strokes
+    .map((stroke) => ({
+      ...stroke,
+      samples: stroke.samples.filter((sample, index, samples) => index === 0 || sample.t > samples[index - 1].t),
+    }))
+    .filter((stroke) => stroke.samples.length);
+  const allSamples = cleaned.flatMap((stroke) => stroke.samples);
+  if (allSamples.length < MIN_SAMPLES) {
+    throw new Error(`Draw the whole ${guide.template} before finishing; too few pen samples were recorded.`);
+  }
+
+  const deviations = deviationFromIdeal(cleaned.map((stroke) => stroke.samples), guide);
+  const speeds: number[] = [];
+  const accelerations: number[] = [];
+  const jerks: number[] = [];
+  const deviationSegments: number[][] = [];
+  let pathLength = 0;
+  let penDownMs = 0;
+  let squaredJerkIntegral = 0;
+  let offset = 0;
+  cleaned.forEach(({ samples }) => {
+    const strokeDeviation = deviations.slice(offset, offset + samples.length);
+    offset += samples.length;
+    for (let index = 1; index < samples.length; index += 1) {
+      pathLength += Math.hypot(samples[index].x - samples[index - 1].x, samples[index].y - samples[index - 1].y);
+    }
+    penDownMs += samples[samples.length - 1].t - samples[0].t;
+    if (samples.length < 2) {
+      return;
+    }
+    const [x, y, deviation] = resample(
+      samples.map((sample) => sample.t),
+      [samples.map((sample) => sample.x), samples.map((sample) => sample.y), strokeDeviation],
+    );
+    deviationSegments.push(deviation);
+    const smoothX = movingAverage(x, SMOOTHING_SAMPLES);
+    const smoothY = movingAverage(y, SMOOTHING_SAMPLES);
+    const [vx, vy] = [difference(smoothX), difference(smoothY)];
+    const [ax, ay] = [difference(vx), difference(vy)];
+    const [jx, jy] = [difference(ax), difference(ay)];
+    vx.forEach((value, index) => speeds.push(Math.hypot(value, vy[index])));
+    ax.forEach((value, index) => accelerations.push(Math.hypot(value, ay[index])));
+    jx.forEach((value, index) => {
+      const magnitude = Math.hypot(value, jy[index]);
+      jerks.push(magnitude);
+      squaredJerkIntegral += (magnitude * magnitude) / RESAMPLE_HZ;
+    });
+  });
+
+  const pressures = allSamples.map((sample) => sample.pressure);
+  const pressure = summarise(pressures);
+  const sensesTilt = allSamples.some((sample) => sample.tiltX || sample.tiltY);
+  const intervals = allSamples.slice(1).map((sample, index) => sample.t - allSamples[index].t).filter((interval) => interval > 0);
+  const durationSeconds = penDownMs / 1000;
+
+  return {
+    template: guide.template,
+    durationMs: allSamples[allSamples.length - 1].t - allSamples[0].t,
+    penDownMs,
+    sampleRateHz: intervals.length ? 1000 / median(intervals) : 0,
+    sampleCount: allSamples.length,
+    pathLength,
+    speed: summarise(speeds),
+    acceleration: summarise(accelerations),
+    jerk: summarise(jerks),
+    // Teulings et al. (1997): sqrt(½ ∫ j² dt · T⁵ / L²)
+    normalisedJerk: pathLength ? Math.sqrt((0.5 * squaredJerkIntegral * durationSeconds ** 5) / (pathLength * pathLength)) : 0,
+    penLifts: cleaned.length - 1,
+    pressure: pressure.std > 0 ? { mean: pressure.mean, std: pressure.std } : null,
+    tilt: sensesTilt
+      ? {
+          meanX: allSamples.reduce((sum, sample) => sum + sample.tiltX, 0) / allSamples.length,
+          meanY: allSamples.reduce((sum, sample) => sum + sample.tiltY, 0) / allSamples.length,
+        }
+      : null,
+    deviation: {
+      meanAbsolute: deviations.reduce((sum, value) => sum + Math.abs(value), 0) / deviations.length,
+      rms: Math.sqrt(deviations.reduce((sum, value) => sum + value * value, 0) / deviations.length),
+    },
+    tremor: estimateTremor(deviationSegments),
+  };
+}
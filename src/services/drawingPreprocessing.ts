@@ -0,0 +1,213 @@
+import { applyHomography, homography, Point, Quad, warpPerspective } from '../utils/perspective';
+import {
+  adaptiveThreshold,
+  greyscale,
+  largestComponent,
+  otsuThreshold,
+  removeBorderComponents,
+  removeSmallComponents,
+} from '../utils/skeleton';
+
+// Turns a photo of a hand-drawn spiral or wave into an image like the
+// reference drawings under /public/spiral and /public/wave: the sheet is found
+// and flattened, the ink is separated from shadows and paper texture, and the
+// drawing is cropped and padded to a square of dark ink on white. The
+// classifiers then compare drawings rather than lighting and backgrounds.
+
+export const DRAWING_PREPROCESSING_VERSION = 'drawing-preprocessing-v1';
+
+const WORKING_SIZE = 1024; // longer side the photo is scaled to before processing
+const OUTPUT_SIZE = 256; // side of the reference spiral images
+const PADDING = 0.04; // margin around the drawing, as a share of its longer side
+const PAPER_TRIM = 0.02; // share of the flattened sheet cut from each edge, where its border and shadow lie
+const MIN_PAPER_SHARE = 0.2; // of the frame
+const MIN_PAPER_FILL = 0.85; // of the quadrilateral around the sheet
+
+export interface InkBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CleanedDrawing {
+  pixels: Uint8ClampedArray; // OUTPUT_SIZE × OUTPUT_SIZE grey levels, 0 = ink
+  size: number;
+  paper: Quad | null; // sheet corners in the input, null when no sheet edge was found
+  inkBox: InkBox; // in the flattened sheet, or the input when there is no sheet
+}
+
+export interface PreprocessedDrawing {
+  image: Blob; // PNG
+  paper: Quad | null; // sheet corners in the original photo
+  inkBox: InkBox;
+}
+
+const quadArea = (quad: Quad) =>
+  Math.abs(quad.reduce((sum, point, index) => {
+    const next = quad[(index + 1) % 4];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+
+/**
+ * Corners of a sheet of paper brighter than its background: the largest
+ * bright region, with its extreme points along the diagonals as corners,
+ * which holds for sheets turned by up to about 30°. Returns null when the
+ * sheet fills the frame or no sheet-shaped region stands out.
+ */
+export function detectPaper(grey: Float32Array, width: number, height: number): Quad | null {
+  const threshold = otsuThreshold(grey);
+  const bright = new Uint8Array(grey.length);
+  grey.forEach((value, index) => { if (value > threshold) bright[index] = 1; });
+  const region = largestComponent(bright, width, height);
+  if (region.length < MIN_PAPER_SHARE * width * height) return null;
+
+  let topLeft = region[0];
+  let topRight = region[0];
+  let bottomRight = region[0];
+  let bottomLeft = region[0];
+  const sum = (index: number) => (index % width) + Math.floor(index / width);
+  const difference = (index: number) => (index % width) - Math.floor(index / width);
+  region.forEach((index) => {
+    if (sum(index) < sum(topLeft)) topLeft = index;
+    if (sum(index) > sum(bottomRight)) bottomRight = index;
+    if (difference(index) > difference(topRight)) topRight = index;
+    if (difference(index) < difference(bottomLeft)) bottomLeft = index;
+  });
+  const toPoint = (index: number): Point => ({ x: index % width, y: Math.floor(index / width) });
+  const quad: Quad = [toPoint(topLeft), toPoint(topRight), toPoint(bottomRight), toPoint(bottomLeft)];
+
+  const frame: Quad = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+  const tolerance = 0.03 * Math.hypot(width, height);
+  if (quad.every((corner, index) => Math.hypot(corner.x - frame[index].x, corner.y - frame[index].y) < tolerance)) {
+    return null;
+  }
+  // A lit patch bounded by a shadow, rather than a sheet, leaves much of its
+  // quadrilateral empty.
+  const area = quadArea(quad);
+  if (area < MIN_PAPER_SHARE * width * height || region.length < MIN_PAPER_FILL * area) return null;
+  return quad;
+}
+
+/**
+ * Runs the preprocessing on a greyscale image (0-255): flattens the sheet if
+ * one is found, thresholds the ink locally, drops specks and the sheet's
+ * edges, then crops to the drawing and scales it onto a padded square.
+ */
+export function cleanDrawing(grey: Float32Array, width: number, height: number): CleanedDrawing {
+  let pixels: Float32Array = grey;
+  let sheetWidth = width;
+  let sheetHeight = height;
+  const paper = detectPaper(grey, width, height);
+  if (paper) {
+    const [topLeft, topRight, bottomRight, bottomLeft] = paper;
+    const flatWidth = Math.round(Math.max(Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y), Math.hypot(bottomRight.x - bottomLeft.x, bottomRight.y - bottomLeft.y)));
+    const flatHeight = Math.round(Math.max(Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y), Math.hypot(bottomRight.x - topRight.x, bottomRight.y - topRight.y)));
+    const trimX = Math.round(PAPER_TRIM * flatWidth);
+    const trimY = Math.round(PAPER_TRIM * flatHeight);
+    // Warping straight to the trimmed rectangle: its corners, mapped back into the photo.
+    const toPhoto = homography(
+      [{ x: 0, y: 0 }, { x: flatWidth - 1, y: 0 }, { x: flatWidth - 1, y: flatHeight - 1 }, { x: 0, y: flatHeight - 1 }],
+      paper,
+    );
+    if (toPhoto) {
+      const trimmed: Quad = [
+        applyHomography(toPhoto, { x: trimX, y: trimY }),
+        applyHomography(toPhoto, { x: flatWidth - 1 - trimX, y: trimY }),
+        applyHomography(toPhoto, { x: flatWidth - 1 - trimX, y: flatHeight - 1 - trimY }),
+        applyHomography(toPhoto, { x: trimX, y: flatHeight - 1 - trimY }),
+      ];
+      sheetWidth = flatWidth - 2 * trimX;
+      sheetHeight = flatHeight - 2 * trimY;
+      pixels = warpPerspective(grey, width, height, trimmed, sheetWidth, sheetHeight);
+    }
+  }
+
+  const window = Math.max(15, Math.round(Math.min(sheetWidth, sheetHeight) / 12)) | 1;
+  const mask = adaptiveThreshold(pixels, sheetWidth, sheetHeight, window);
+  if (pixels !== grey) {
+    removeBorderComponents(mask, sheetWidth, sheetHeight, Math.round(PAPER_TRIM * Math.min(sheetWidth, sheetHeight)));
+  }
+  removeSmallComponents(mask, sheetWidth, sheetHeight);
+
+  let left = sheetWidth;
+  let top = sheetHeight;
+  let right = -1;
+  let bottom = -1;
+  mask.forEach((value, index) => {
+    if (!value) return;
+    const x = index % sheetWidth;
+    const y = Math.floor(index / sheetWidth);
+    left = Math.min(left, x);
+    right = Math.max(right, x);
+    top = Math.min(top, y);
+    bottom = Math.max(bottom, y);
+  });
+  if (right < 0) {
+    throw new Error('No drawing was found in the photo.');
+  }
+  const inkBox = { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+
+  // Each output pixel averages the ink over the source square it covers, so
+  // thin lines stay visible, in grey, when the drawing is scaled down.
+  const side = Math.max(inkBox.width, inkBox.height) * (1 + 2 * PADDING);
+  const originX = left + inkBox.width / 2 - side / 2;
+  const originY = top + inkBox.height / 2 - side / 2;
+  const scale = side / OUTPUT_SIZE;
+  const output = new Uint8ClampedArray(OUTPUT_SIZE * OUTPUT_SIZE);
+  for (let v = 0; v < OUTPUT_SIZE; v += 1) {
+    const y0 = Math.floor(originY + v * scale);
+    const y1 = Math.max(y0 + 1, Math.floor(originY + (v + 1) * scale));
+    for (let u = 0; u < OUTPUT_SIZE; u += 1) {
+      const x0 = Math.floor(originX + u * scale);
+      const x1 = Math.max(x0 + 1, Math.floor(originX + (u + 1) * scale));
+      let ink = 0;
+      for (let y = y0; y < y1; y += 1) {
+        if (y < 0 || y >= sheetHeight) continue;
+        for (let x = x0; x < x1; x += 1) {
+          if (x >= 0 && x < sheetWidth) ink += mask[y * sheetWidth + x];
+        }
+      }
+      output[v * OUTPUT_SIZE + u] = 255 - (255 * ink) / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return { pixels: output, size: OUTPUT_SIZE, paper, inkBox };
+}
+
+/** Preprocesses a photo of a drawing into a PNG for the handwriting classifiers. */
+export async function preprocessDrawingPhoto(image: Blob): Promise<PreprocessedDrawing> {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, WORKING_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  let cleaned: CleanedDrawing;
+  try {
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available to preprocess the photo.');
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    cleaned = cleanDrawing(greyscale(context.getImageData(0, 0, canvas.width, canvas.height)), canvas.width, canvas.height);
+  } finally {
+    bitmap.close();
+  }
+
+  canvas.width = cleaned.size;
+  canvas.height = cleaned.size;
+  const context = canvas.getContext('2d')!;
+  const output = context.createImageData(cleaned.size, cleaned.size);
+  cleaned.pixels.forEach((value, index) => {
+    output.data.set([value, value, value, 255], index * 4);
+  });
+  context.putImageData(output, 0, 0);
+  const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!png) {
+    throw new Error('Could not encode the preprocessed drawing.');
+  }
+  return {
+    image: png,
+    paper: cleaned.paper && (cleaned.paper.map(({ x, y }) => ({ x: x / scale, y: y / scale })) as Quad),
+    inkBox: cleaned.inkBox,
+  };
+}
@@ -0,0 +1,98 @@
+import jsPDF from 'jspdf';
+import QRCode from 'qrcode';
+import { supabase } from '../lib/supabaseClient';
+import type { Database } from '../types/database';
+import { createDrawingGuide, DrawingTemplate, guidePoints } from './drawingKinematics';
+import {
+  DRAWING_TEMPLATE_VERSION,
+  encodeTemplatePayload,
+  FIDUCIAL_CENTRES,
+  FIDUCIAL_RADIUS,
+  QR_AREA,
+  TEMPLATE_PAGE,
+  TEMPLATE_REGIONS,
+  TemplateSession,
+} from './drawingTemplateLayout';
+
+// Printable A4 template for drawing the spiral and wave on paper. Solid discs
+// in the corners let a photo of the sheet be registered to the template
+// exactly, and a QR code carries the patient and session ids so the photo is
+// linked to the session it was drawn in.
+
+type DrawingSessionInsert = Database['public']['Tables']['drawing_sessions']['Insert'];
+
+// The guides are printed light enough that local thresholding, which looks
+// for ink at least 15% darker than its surroundings, does not take them for
+// the patient's drawing.
+const GUIDE_GREY = 225;
+
+/**
+ * Records a new drawing session for the patient. Without a database the
+ * session id is generated locally; ensureDrawingSession creates the row once
+ * a photo of the template is uploaded.
+ */
+export async function createDrawingSession(patientId: string): Promise<TemplateSession> {
+  const row: DrawingSessionInsert = { patient_id: patientId, template_version: DRAWING_TEMPLATE_VERSION };
+  const { data, error } = await supabase.from('drawing_sessions').insert(row).select('id').single();
+  if (error || !data) {
+    console.warn('Could not record the drawing session; using a local session id:', error);
+    return { patientId, sessionId: crypto.randomUUID() };
+  }
+  return { patientId, sessionId: data.id };
+}
+
+/** Creates the session row for a template printed while offline, if it is missing. */
+export async function ensureDrawingSession({ patientId, sessionId }: TemplateSession): Promise<void> {
+  const row: DrawingSessionInsert = { id: sessionId, patient_id: patientId, template_version: DRAWING_TEMPLATE_VERSION };
+  const { error } = await supabase.from('drawing_sessions').upsert(row, { onConflict: 'id', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+function drawGuide(pdf: jsPDF, template: DrawingTemplate) {
+  const region = TEMPLATE_REGIONS[template];
+  const points = guidePoints(createDrawingGuide(template, region.width, region.height), 400);
+  for (let index = 1; index < points.length; index += 1) {
+    pdf.line(region.x + points[index - 1].x, region.y + points[index - 1].y, region.x + points[index].x, region.y + points[index].y);
+  }
+}
+
+/** Lays out the template for one session on an A4 page. */
+export async function createDrawingTemplatePdf(session: TemplateSession, createdAt = new Date()): Promise<jsPDF> {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+
+  pdf.setFillColor(0, 0, 0);
+  FIDUCIAL_CENTRES.forEach(({ x, y }) => pdf.circle(x, y, FIDUCIAL_RADIUS, 'F'));
+
+  pdf.setFontSize(16);
+  pdf.setTextColor(40, 40, 40);
+  pdf.text('Spiral and Wave Drawing Test', TEMPLATE_PAGE.width / 2, 17, { align: 'center' });
+  pdf.setFontSize(9);
+  pdf.setTextColor(90, 90, 90);
+  pdf.text('Use a dark pen. Trace each grey guide in one stroke at your normal pace, without resting your hand.', TEMPLATE_PAGE.width / 2, 25, { align: 'center' });
+  pdf.text('Then photograph the whole sheet, with all four black discs in view, from Capture Handwriting.', TEMPLATE_PAGE.width / 2, 30, { align: 'center' });
+  pdf.text('Spiral: start at the centre and work outwards', TEMPLATE_REGIONS.spiral.x, TEMPLATE_REGIONS.spiral.y - 3);
+  pdf.text('Wave: from left to right', TEMPLATE_REGIONS.wave.x, TEMPLATE_REGIONS.wave.y - 3);
+
+  pdf.setDrawColor(GUIDE_GREY, GUIDE_GREY, GUIDE_GREY);
+  pdf.setLineWidth(0.4);
+  pdf.setLineDashPattern([1.5, 1.5], 0);
+  drawGuide(pdf, 'spiral');
+  drawGuide(pdf, 'wave');
+  pdf.setLineDashPattern([], 0);
+
+  const qr = await QRCode.toDataURL(encodeTemplatePayload(session), { errorCorrectionLevel: 'M', margin: 0, width: 360 });
+  pdf.addImage(qr, 'PNG', QR_AREA.x, QR_AREA.y, QR_AREA.size, QR_AREA.size, undefined, 'FAST');
+  pdf.setFontSize(8);
+  pdf.text(`Session ${session.sessionId.slice(0, 8)}`, 28, 268);
+  pdf.text(`Printed ${createdAt.toLocaleDateString()}`, 28, 273);
+  pdf.text(DRAWING_TEMPLATE_VERSION, 182, 273, { align: 'right' });
+  return pdf;
+}
+
+/** Starts a session for the patient and downloads its template. */
+export async function downloadDrawingTemplate(patientId: string): Promise<TemplateSession> {
+  const session = await createDrawingSession(patientId);
+  const pdf = await createDrawingTemplatePdf(session);
+  pdf.save(`drawing-template-${session.sessionId.slice(0, 8)}.pdf`);
+  return session;
+}
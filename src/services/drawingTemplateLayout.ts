@@ -0,0 +1,46 @@
+import type { Quad } from '../utils/perspective';
+import type { DrawingTemplate } from './drawingKinematics';
+
+// Layout of the printable A4 drawing template and the payload of its QR code,
+// shared by the PDF generator and the photo registration. All lengths are in
+// millimetres.
+
+export const DRAWING_TEMPLATE_VERSION = 'drawing-template-v1';
+
+export const TEMPLATE_PAGE = { width: 210, height: 297 };
+export const FIDUCIAL_RADIUS = 6;
+// Disc centres, in the order top-left, top-right, bottom-right, bottom-left.
+export const FIDUCIAL_CENTRES: Quad = [
+  { x: 15, y: 15 },
+  { x: 195, y: 15 },
+  { x: 195, y: 282 },
+  { x: 15, y: 282 },
+];
+export const TEMPLATE_REGIONS: Record<DrawingTemplate, { x: number; y: number; width: number; height: number }> = {
+  spiral: { x: 30, y: 42, width: 150, height: 150 },
+  wave: { x: 20, y: 207, width: 170, height: 40 },
+};
+export const QR_AREA = { x: 90, y: 255, size: 30 };
+
+export interface TemplateSession {
+  patientId: string;
+  sessionId: string;
+}
+
+// QR payload: a version tag and both ids as upper-case hex, which QR codes
+// store in their compact alphanumeric mode.
+const PAYLOAD_PATTERN = /^PDT1:([0-9A-F]{32}):([0-9A-F]{32})$/;
+
+export function encodeTemplatePayload({ patientId, sessionId }: TemplateSession): string {
+  const hex = (uuid: string) => uuid.replace(/-/g, '').toUpperCase();
+  return `PDT1:${hex(patientId)}:${hex(sessionId)}`;
+}
+
+/** The ids in a template's QR code, or null for any other QR code. */
+export function parseTemplatePayload(text: string): TemplateSession | null {
+  const match = PAYLOAD_PATTERN.exec(text.trim());
+  if (!match) return null;
+  const uuid = (hex: string) =>
+    [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join('-').toLowerCase();
+  return { patientId: uuid(match[1]), sessionId: uuid(match[2]) };
+}
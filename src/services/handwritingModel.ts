@@ -1,4 +1,8 @@
-type HandwritingType = 'spiral' | 'wave';
+import { DRAWING_PREPROCESSING_VERSION, preprocessDrawingPhoto, PreprocessedDrawing } from './drawingPreprocessing';
+import { predictImageLocally } from './imagePredictor';
+import { analyseSpiralImage, SpiralGeometry } from './spiralGeometry';
+
+export type HandwritingType = 'spiral' | 'wave';
 type HandwritingClass = 'Parkinsons' | 'Healthy';
 
 interface ModelConfig {
@@ -15,6 +19,25 @@ export interface HandwritingPrediction {
 	summary: string;
 }
 
+// Stored in tests.model_versions so a saved result can be traced to the model
+// that produced it; a type alias, unlike an interface, is assignable to Json.
+export type HandwritingModelVersions = {
+	handwritingModel: 'tfjs-layers' | 'mobilenet-centroid';
+	handwritingType: HandwritingType | 'auto';
+	modelPath: string | null; // model.json of the trained model; null for the centroid fallback
+	description: string;
+	preprocessing: typeof DRAWING_PREPROCESSING_VERSION | null; // null when the original image was classified
+};
+
+export interface HandwritingAnalysis {
+	label: 'Parkinson-like' | 'Healthy-like' | 'unknown'; // unknown when the fallback has no reference drawings
+	confidence: number;
+	details?: string;
+	modelVersions: HandwritingModelVersions;
+	spiralGeometry: SpiralGeometry | null; // for drawings known to be spirals, when the ink could be traced
+	preprocessed: PreprocessedDrawing | null; // the cleaned image the models saw, null if preprocessing failed
+}
+
 const MODEL_CONFIG: Record<HandwritingType, ModelConfig> = {
 	spiral: {
 		path: '/models/spiral/model.json',
@@ -30,6 +53,7 @@ const MODEL_CONFIG: Record<HandwritingType, ModelConfig> = {
 
 let tfModule: typeof import('@tensorflow/tfjs') | null = null;
 const modelCache: Partial<Record<HandwritingType, Promise<import('@tensorflow/tfjs').LayersModel>>> = {};
+const availabilityCache: Partial<Record<HandwritingType, Promise<boolean>>> = {};
 
 async function loadTensorflow() {
 	if (!tfModule) {
@@ -153,8 +177,109 @@ export function getModelMetadata(type: HandwritingType) {
 }
 
 export function resetHandwritingModels() {
+	Object.keys(availabilityCache).forEach((key) => {
+		delete availabilityCache[key as HandwritingType];
+	});
 	if (!tfModule) return;
 	Object.keys(modelCache).forEach((key) => {
 		delete modelCache[key as HandwritingType];
 	});
 }
+
+/**
+ * Whether a trained model has been exported for `type`. The dev server and
+ * most static hosts answer unknown paths with index.html, so the file must
+ * also parse as a Layers model rather than merely exist.
+ */
+export function isHandwritingModelAvailable(type: HandwritingType): Promise<boolean> {
+	if (!availabilityCache[type]) {
+		const { path } = MODEL_CONFIG[type];
+		availabilityCache[type] = fetch(path)
+			.then(async (response) => {
+				if (!response.ok) return false;
+				const manifest = (await response.json()) as { modelTopology?: unknown };
+				return Boolean(manifest.modelTopology);
+			})
+			.catch(() => false)
+			.then((available) => {
+				if (!available) {
+					console.info(`No trained ${type} handwriting model at ${path}; using the MobileNet centroid predictor.`);
+				}
+				return available;
+			});
+	}
+	return availabilityCache[type]!;
+}
+
+/**
+ * Classifies a drawing with the trained model for its type when one has been
+ * exported, otherwise with the MobileNet centroid predictor. A drawing of
+ * unknown type (`auto`) always goes to the centroid predictor and is recorded
+ * as `auto`: a trained model would score a wave as if it were a spiral. Photos are cleaned up first so they
+ * resemble the training drawings, and spirals are also skeletonised and
+ * measured against the ideal spiral.
+ */
+export async function analyseHandwritingImage(
+	image: Blob,
+	type: HandwritingType | 'auto',
+): Promise<HandwritingAnalysis> {
+	const modelType = type !== 'auto' && (await isHandwritingModelAvailable(type)) ? type : null;
+
+	let preprocessed: PreprocessedDrawing | null = null;
+	try {
+		preprocessed = await preprocessDrawingPhoto(image);
+	} catch (error) {
+		console.warn('Drawing preprocessing failed; classifying the original image:', error);
+	}
+	const input = preprocessed?.image ?? image;
+
+	let spiralGeometry: SpiralGeometry | null = null;
+	if (type === 'spiral') {
+		try {
+			spiralGeometry = await analyseSpiralImage(input);
+		} catch (error) {
+			console.warn('Spiral geometry analysis failed:', error);
+		}
+	}
+
+	if (modelType) {
+		const bitmap = await createImageBitmap(input);
+		try {
+			const prediction = await predictHandwriting(bitmap, modelType);
+			const { Parkinsons, Healthy } = prediction.probabilities;
+			return {
+				label: prediction.label === 'Parkinsons' ? 'Parkinson-like' : 'Healthy-like',
+				confidence: prediction.confidence,
+				details: `${prediction.summary} Model scores - Parkinson: ${Parkinsons.toFixed(3)}, Healthy: ${Healthy.toFixed(3)}`,
+				modelVersions: {
+					handwritingModel: 'tfjs-layers',
+					handwritingType: modelType,
+					modelPath: MODEL_CONFIG[modelType].path,
+					description: MODEL_CONFIG[modelType].description,
+					preprocessing: preprocessed ? DRAWING_PREPROCESSING_VERSION : null,
+				},
+				spiralGeometry,
+				preprocessed,
+			};
+		} finally {
+			bitmap.close();
+		}
+	}
+
+	const file = input instanceof File ? input : new File([input], `${type}.png`, { type: input.type || 'image/png' });
+	const result = await predictImageLocally(file, type);
+	return {
+		label: result.label as HandwritingAnalysis['label'],
+		confidence: result.confidence,
+		details: result.details,
+		modelVersions: {
+			handwritingModel: 'mobilenet-centroid',
+			handwritingType: type,
+			modelPath: null,
+			description: 'MobileNetV2 embeddings compared with the centroids of the reference drawings',
+			preprocessing: preprocessed ? DRAWING_PREPROCESSING_VERSION : null,
+		},
+		spiralGeometry,
+		preprocessed,
+	};
+}
@@ -0,0 +1,125 @@
+import { supabase } from '../lib/supabaseClient';
+import type { Database } from '../types/database';
+import { toJson } from '../utils/json';
+import type { CalibrationMethod, CalibrationTransform, VoiceCalibration } from './voiceCalibration';
+
+// Microphone calibration profiles, one per user and input device. Stored in
+// Supabase, with `voice_calibration_profiles` in localStorage as the offline
+// fallback (mirroring `local_tests`).
+
+export interface MicrophoneDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface MicrophoneCalibrationProfile extends VoiceCalibration {
+  userId: string;
+  deviceId: string;
+  deviceLabel: string;
+  referenceCount: number;
+  createdAt: string;
+}
+
+type MicrophoneCalibrationInsert = Database['public']['Tables']['microphone_calibrations']['Insert'];
+
+const LOCAL_PROFILES_KEY = 'voice_calibration_profiles';
+
+/**
+ * Identifies the input device behind a getUserMedia stream. Browsers only
+ * expose device ids once microphone access was granted, so the track label
+ * (or "default") stands in when the id is missing.
+ */
+export function describeMicrophone(stream: MediaStream): MicrophoneDevice {
+  const track = stream.getAudioTracks()[0];
+  const settings = track?.getSettings();
+  const label = track?.label || 'Default microphone';
+  return { deviceId: settings?.deviceId || track?.label || 'default', label };
+}
+
+function readLocalProfiles(): MicrophoneCalibrationProfile[] {
+  const existing = localStorage.getItem(LOCAL_PROFILES_KEY);
+  if (!existing) return [];
+  try {
+    return JSON.parse(existing) as MicrophoneCalibrationProfile[];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalProfile(profile: MicrophoneCalibrationProfile) {
+  const profiles = readLocalProfiles().filter(
+    (stored) => !(stored.userId === profile.userId && stored.deviceId === profile.deviceId),
+  );
+  profiles.unshift(profile);
+  localStorage.setItem(LOCAL_PROFILES_KEY, JSON.stringify(profiles));
+}
+
+function findLocalProfile(userId: string, deviceId: string): MicrophoneCalibrationProfile | null {
+  return readLocalProfiles().find((stored) => stored.userId === userId && stored.deviceId === deviceId) ?? null;
+}
+
+export async function loadMicrophoneProfile(
+  userId: string,
+  deviceId: string,
+): Promise<MicrophoneCalibrationProfile | null> {
+  try {
+    const { data: row, error } = await supabase
+      .from('microphone_calibrations')
+      .select('*')
+      .eq('patient_id', userId)
+      .eq('device_id', deviceId)
+      .maybeSingle();
+    if (!error && row) {
+      return {
+        profileId: row.id,
+        userId: row.patient_id,
+        deviceId: row.device_id,
+        deviceLabel: row.device_label ?? row.device_id,
+        method: row.method as CalibrationMethod,
+        transform: row.transform as CalibrationTransform,
+        referenceCount: row.reference_count,
+        createdAt: row.created_at,
+      };
+    }
+  } catch (loadError) {
+    console.warn('[Calibration] Falling back to locally stored microphone profiles:', loadError);
+  }
+  return findLocalProfile(userId, deviceId);
+}
+
+/**
+ * Saves (or replaces) the profile for the user's device and returns it with
+ * its stored id.
+ */
+export async function saveMicrophoneProfile(
+  profile: Omit<MicrophoneCalibrationProfile, 'profileId' | 'createdAt'>,
+): Promise<MicrophoneCalibrationProfile> {
+  const createdAt = new Date().toISOString();
+  const row: MicrophoneCalibrationInsert = {
+    patient_id: profile.userId,
+    device_id: profile.deviceId,
+    device_label: profile.deviceLabel,
+    method: profile.method,
+    transform: toJson(profile.transform),
+    reference_count: profile.referenceCount,
+  };
+  try {
+    const { data, error } = await supabase
+      .from('microphone_calibrations')
+      .upsert(row, { onConflict: 'patient_id,device_id' })
+      .select('id, created_at')
+      .single();
+    if (!error && data?.id) {
+      return { ...profile, profileId: data.id, createdAt: data.created_at };
+    }
+  } catch (saveError) {
+    console.warn('[Calibration] Saving the microphone profile locally (offline mode):', saveError);
+  }
+  const localProfile: MicrophoneCalibrationProfile = {
+    ...profile,
+    profileId: `local-calibration-${Date.now()}`,
+    createdAt,
+  };
+  writeLocalProfile(localProfile);
+  return localProfile;
+}
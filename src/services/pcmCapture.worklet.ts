@@ -0,0 +1,58 @@
+// AudioWorklet processor that forwards the microphone's raw float PCM to the
+// main thread in fixed-size mono chunks. A "flush" message sends the partly
+// filled chunk followed by "flushed".
+
+// The app compiles against the DOM lib only, so describe the slice of the
+// AudioWorklet global scope we use.
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processorCtor: new () => AudioWorkletProcessor): void;
+
+const CHUNK_SAMPLES = 4096;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private chunk = new Float32Array(CHUNK_SAMPLES);
+  private filled = 0;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<string>) => {
+      if (event.data === 'flush') {
+        this.post(this.chunk.slice(0, this.filled));
+        this.filled = 0;
+        this.port.postMessage('flushed');
+      }
+    };
+  }
+
+  private post(samples: Float32Array) {
+    if (samples.length) {
+      this.port.postMessage(samples, [samples.buffer]);
+    }
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || !channels.length) {
+      return true;
+    }
+    const frameLength = channels[0].length;
+    for (let index = 0; index < frameLength; index += 1) {
+      let sum = 0;
+      for (let channel = 0; channel < channels.length; channel += 1) {
+        sum += channels[channel][index];
+      }
+      this.chunk[this.filled] = sum / channels.length;
+      this.filled += 1;
+      if (this.filled === CHUNK_SAMPLES) {
+        this.post(this.chunk);
+        this.chunk = new Float32Array(CHUNK_SAMPLES);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,134 @@
+import pcmCaptureWorkletUrl from './pcmCapture.worklet.ts?worker&url';
+import { encodeWav } from '../utils/wav';
+import type { DecodedVoiceRecording } from './voiceKnnModel';
+
+// Lossless voice capture: raw PCM from an AudioWorklet instead of MediaRecorder,
+// whose Opus encoding smooths the cycle-to-cycle perturbations jitter and
+// shimmer measure. MediaRecorder WebM remains the fallback for browsers
+// without AudioWorklet support.
+
+export interface VoiceRecordingFormat {
+  container: 'wav' | 'webm';
+  codec: 'pcm_s16le' | 'opus';
+  sampleRate: number | null; // null when the encoder does not report it
+  lossless: boolean;
+}
+
+export interface CapturedVoiceRecording {
+  blob: Blob; // WAV or WebM, for playback and upload
+  pcm: DecodedVoiceRecording | null; // float PCM for analysis, null for the WebM fallback
+  format: VoiceRecordingFormat;
+}
+
+export interface VoiceRecorder {
+  format: VoiceRecordingFormat;
+  stop(): Promise<CapturedVoiceRecording>;
+}
+
+// Browser echo cancellation, noise suppression and gain control reshape exactly
+// the features being measured, and echo cancellation removes a speaker tone.
+export const RAW_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+};
+
+export const WEBM_OPUS_FORMAT: VoiceRecordingFormat = {
+  container: 'webm',
+  codec: 'opus',
+  sampleRate: null,
+  lossless: false,
+};
+
+export const isPcmCaptureSupported = (): boolean =>
+  typeof window !== 'undefined' && typeof window.AudioWorkletNode !== 'undefined';
+
+function concatenate(chunks: Float32Array[]): Float32Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const samples = new Float32Array(total);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return samples;
+}
+
+async function startPcmRecorder(stream: MediaStream): Promise<VoiceRecorder> {
+  const context = new AudioContext();
+  await context.audioWorklet.addModule(pcmCaptureWorkletUrl);
+  const source = context.createMediaStreamSource(stream);
+  const capture = new AudioWorkletNode(context, 'pcm-capture');
+  // The node only renders while connected to the graph; route it into a muted
+  // gain so the microphone is not played back.
+  const mute = context.createGain();
+  mute.gain.value = 0;
+  source.connect(capture).connect(mute).connect(context.destination);
+
+  const chunks: Float32Array[] = [];
+  let onFlushed: (() => void) | null = null;
+  capture.port.onmessage = (event: MessageEvent<Float32Array | string>) => {
+    if (event.data === 'flushed') {
+      onFlushed?.();
+    } else if (event.data instanceof Float32Array) {
+      chunks.push(event.data);
+    }
+  };
+
+  const format: VoiceRecordingFormat = {
+    container: 'wav',
+    codec: 'pcm_s16le',
+    sampleRate: context.sampleRate,
+    lossless: true,
+  };
+
+  return {
+    format,
+    stop: async () => {
+      await new Promise<void>((resolve) => {
+        onFlushed = resolve;
+        capture.port.postMessage('flush');
+      });
+      source.disconnect();
+      capture.disconnect();
+      await context.close();
+      const samples = concatenate(chunks);
+      return {
+        blob: encodeWav(samples, context.sampleRate),
+        pcm: { samples, sampleRate: context.sampleRate },
+        format,
+      };
+    },
+  };
+}
+
+function startMediaRecorder(stream: MediaStream): VoiceRecorder {
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  recorder.start();
+  return {
+    format: WEBM_OPUS_FORMAT,
+    stop: () =>
+      new Promise((resolve, reject) => {
+        recorder.onstop = () =>
+          resolve({ blob: new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }), pcm: null, format: WEBM_OPUS_FORMAT });
+        recorder.onerror = () => reject(new Error('The browser stopped the recording unexpectedly.'));
+        recorder.stop();
+      }),
+  };
+}
+
+/**
+ * Starts recording the stream, losslessly where AudioWorklet is available.
+ */
+export async function startVoiceRecorder(stream: MediaStream): Promise<VoiceRecorder> {
+  if (isPcmCaptureSupported()) {
+    try {
+      return await startPcmRecorder(stream);
+    } catch (workletError) {
+      console.warn('[Recorder] AudioWorklet capture unavailable, falling back to MediaRecorder:', workletError);
+    }
+  }
+  return startMediaRecorder(stream);
+}
@@ -0,0 +1,427 @@
+import { inkMask, removeSmallComponents, thinMask } from '../utils/skeleton';
+
+// Geometry of a drawn Archimedean spiral, for drawings captured on screen and
+// for photographs once they are thinned to one-pixel lines. The ink is
+// unwrapped into polar coordinates around the spiral's centre and compared with
+// the ideal spiral r = a + bφ fitted to it, following the spiral analysis of
+// Pullman (1998). Lengths are in the input's pixels; the ratios and the
+// severity rating do not depend on scale.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type SpiralSeverityCategory = 'normal' | 'mild' | 'moderate' | 'severe';
+
+export interface SpiralGeometry {
+  centre: Point; // detected, not assumed
+  direction: 'clockwise' | 'counterclockwise'; // as seen on screen, from the centre outwards
+  fit: { a: number; b: number }; // r = a + bφ, φ in radians from the start of the spiral
+  turns: number;
+  loopSpacing: number; // px between successive loops, 2πb
+  tightness: number; // loops per 100 px of radius
+  radialResidual: { meanAbsolute: number; rms: number; max: number }; // px from the fitted spiral
+  firstOrderSmoothness: number; // mean |dr/dφ - b| / b; 0 for a perfect spiral
+  secondOrderSmoothness: number; // mean |d²r/dφ²| / b, per radian
+  interLoopVariability: number; // coefficient of variation of the gap between neighbouring loops
+  severity: number; // 0-10, Bain-Findley style; see spiralSeverity
+  severityCategory: SpiralSeverityCategory;
+  crossings: number; // ray crossings the fit used
+}
+
+const SECTOR_DEGREES = 3;
+const SECTORS = 360 / SECTOR_DEGREES;
+const START_ANGLE_CANDIDATES = 72;
+const MIN_CROSSINGS = 60;
+const MAX_IMAGE_SIDE = 512;
+// Sectors either side for the second derivative; over a single 3° step it
+// mostly measures pixel quantisation.
+const CURVATURE_LAG = 2;
+// Crossings (15°) a traced chain needs before its loop is held to be distinct
+// from the others on its rays; shorter ones are specks or scribbles.
+const MIN_CHAIN = 5;
+
+interface Crossing {
+  sector: number;
+  loop: number; // order along the ray, innermost first; the fit may renumber it
+  angle: number;
+  radius: number;
+}
+
+interface SpiralFit {
+  a: number;
+  b: number;
+  rms: number;
+  startAngle: number;
+  direction: number; // +1 with increasing atan2 angle
+  loops: number[]; // per crossing
+}
+
+/**
+ * Where each ray from `centre` crosses the ink: the ink is binned into angular
+ * sectors and, within a sector, points closer in radius than `mergeDistance`
+ * form one crossing. On an unbroken spiral the k-th crossing outwards lies on
+ * loop k; a gap in the ink shifts that order on the rays through it.
+ */
+function rayCrossings(points: Point[], centre: Point, mergeDistance: number): Crossing[] {
+  const sectors: Array<Array<{ radius: number; angle: number }>> = Array.from({ length: SECTORS }, () => []);
+  points.forEach(({ x, y }) => {
+    const angle = Math.atan2(y - centre.y, x - centre.x);
+    const sector = Math.min(SECTORS - 1, Math.floor(((angle + Math.PI) / (2 * Math.PI)) * SECTORS));
+    sectors[sector].push({ radius: Math.hypot(x - centre.x, y - centre.y), angle });
+  });
+  const crossings: Crossing[] = [];
+  sectors.forEach((entries, sector) => {
+    entries.sort((a, b) => a.radius - b.radius);
+    let group: typeof entries = [];
+    const flush = () => {
+      if (!group.length) return;
+      crossings.push({
+        sector,
+        loop: crossings.length && crossings[crossings.length - 1].sector === sector ? crossings[crossings.length - 1].loop + 1 : 0,
+        angle: group.reduce((sum, entry) => sum + entry.angle, 0) / group.length,
+        radius: group.reduce((sum, entry) => sum + entry.radius, 0) / group.length,
+      });
+      group = [];
+    };
+    entries.forEach((entry) => {
+      if (group.length && entry.radius - group[group.length - 1].radius > mergeDistance) flush();
+      group.push(entry);
+    });
+    flush();
+  });
+  return crossings;
+}
+
+// Angle of a crossing within its loop, in [0, 2π), for a spiral starting at
+// `startAngle` and turning in `direction` (+1 with increasing atan2 angle).
+const loopAngle = (crossing: Crossing, startAngle: number, direction: number) => {
+  const turn = 2 * Math.PI;
+  return (((direction * (crossing.angle - startAngle)) % turn) + turn) % turn;
+};
+
+function fitLine(xs: number[], ys: number[]): { a: number; b: number; rms: number } {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, value) => sum + value, 0) / n;
+  const meanY = ys.reduce((sum, value) => sum + value, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  xs.forEach((x, index) => {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (ys[index] - meanY);
+  });
+  const b = sxx ? sxy / sxx : 0;
+  const a = meanY - b * meanX;
+  const rms = Math.sqrt(xs.reduce((sum, x, index) => sum + (ys[index] - a - b * x) ** 2, 0) / n);
+  return { a, b, rms };
+}
+
+// Best start angle and direction for the crossings around one centre.
+function fitSpiral(crossings: Crossing[]) {
+  let best = { a: 0, b: 0, rms: Infinity, startAngle: 0, direction: 1 };
+  const radii = crossings.map((crossing) => crossing.radius);
+  const turn = 2 * Math.PI;
+  for (const direction of [1, -1]) {
+    for (let candidate = 0; candidate < START_ANGLE_CANDIDATES; candidate += 1) {
+      const startAngle = -Math.PI + (turn * candidate) / START_ANGLE_CANDIDATES;
+      const fit = fitLine(crossings.map((crossing) => loopAngle(crossing, startAngle, direction) + turn * crossing.loop), radii);
+      if (fit.b > 0 && fit.rms < best.rms) {
+        best = { ...fit, startAngle, direction };
+      }
+    }
+  }
+  return best;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Loop numbers from the continuity of the ink rather than the order along each
+ * ray. Crossings in neighbouring sectors that are each other's nearest in
+ * radius, and closer than a fraction of the loop spacing, are linked into
+ * chains that follow the drawn line, so the angle unwraps continuously along a
+ * chain and a gap in the ink only starts a new one. The longest chain gives
+ * the first fit; every chain is then placed on the whole turn its radii imply,
+ * refitting until the placement settles. Null when the chains do not make a
+ * spiral, that is when two of them land on one loop of the same ray.
+ */
+function traceSpiral(crossings: Crossing[]): SpiralFit | null {
+  const turn = 2 * Math.PI;
+  const radii = crossings.map((crossing) => crossing.radius);
+  const rayGaps = crossings
+    .slice(1)
+    .flatMap((crossing, index) => (crossing.sector === crossings[index].sector ? [crossing.radius - crossings[index].radius] : []));
+  if (!rayGaps.length) return null;
+  const tolerance = 0.3 * median(rayGaps);
+
+  const bySector: number[][] = Array.from({ length: SECTORS }, () => []);
+  crossings.forEach((crossing, index) => bySector[crossing.sector].push(index));
+  const nearest = (from: number, candidates: number[]) =>
+    candidates.reduce<number | null>(
+      (best, candidate) =>
+        best === null || Math.abs(radii[candidate] - radii[from]) < Math.abs(radii[best] - radii[from]) ? candidate : best,
+      null,
+    );
+  const next = new Array<number | null>(crossings.length).fill(null);
+  const linked = new Array<boolean>(crossings.length).fill(false);
+  bySector.forEach((indices, sector) => {
+    const following = bySector[(sector + 1) % SECTORS];
+    indices.forEach((index) => {
+      const candidate = nearest(index, following);
+      if (candidate !== null && nearest(candidate, indices) === index && Math.abs(radii[candidate] - radii[index]) < tolerance) {
+        next[index] = candidate;
+        linked[candidate] = true;
+      }
+    });
+  });
+
+  // Walk each chain from its first crossing; whatever is left is a closed ring.
+  const chain = new Array<number>(crossings.length).fill(-1);
+  const unwrapped = new Array<number>(crossings.length).fill(0);
+  const heads = [...crossings.keys()].sort((a, b) => Number(linked[a]) - Number(linked[b]));
+  let chains = 0;
+  heads.forEach((head) => {
+    if (chain[head] >= 0) return;
+    let angle = crossings[head].angle;
+    let previous = angle;
+    for (let index: number | null = head; index !== null && chain[index] < 0; index = next[index]) {
+      let step = crossings[index].angle - previous;
+      if (step > Math.PI) step -= turn;
+      if (step < -Math.PI) step += turn;
+      angle += step;
+      previous = crossings[index].angle;
+      chain[index] = chains;
+      unwrapped[index] = angle;
+    }
+    chains += 1;
+  });
+
+  const members: number[][] = Array.from({ length: chains }, () => []);
+  chain.forEach((id, index) => members[id].push(index));
+  // The radius grows with the unwrapped angle for a spiral turning with atan2.
+  let covariance = 0;
+  members.forEach((indices) => {
+    const meanAngle = indices.reduce((sum, index) => sum + unwrapped[index], 0) / indices.length;
+    const meanRadius = indices.reduce((sum, index) => sum + radii[index], 0) / indices.length;
+    indices.forEach((index) => { covariance += (unwrapped[index] - meanAngle) * (radii[index] - meanRadius); });
+  });
+  const direction = covariance < 0 ? -1 : 1;
+
+  const longest = members.reduce((best, indices) => (indices.length > best.length ? indices : best));
+  let fit = fitLine(longest.map((index) => direction * unwrapped[index]), longest.map((index) => radii[index]));
+  let turns = new Array<number>(chains).fill(0);
+  for (let pass = 0; pass < 5; pass += 1) {
+    if (!(fit.b > 0)) return null;
+    const current = fit;
+    const placed = members.map((indices) =>
+      Math.round(
+        indices.reduce((sum, index) => sum + (radii[index] - current.a) / current.b - direction * unwrapped[index], 0) /
+          indices.length / turn,
+      ));
+    if (pass && placed.every((placement, id) => placement === turns[id])) break;
+    turns = placed;
+    fit = fitLine(crossings.map((_, index) => direction * unwrapped[index] + turn * turns[chain[index]]), radii);
+  }
+  if (!(fit.b > 0)) return null;
+
+  // Start the spiral at the edge of the innermost crossing's sector, so the
+  // crossings of one ray share a loop angle and differ in loop number.
+  const spiralAngles = crossings.map((_, index) => direction * unwrapped[index] + turn * turns[chain[index]]);
+  const innermost = spiralAngles.indexOf(Math.min(...spiralAngles));
+  const startAngle = -Math.PI + ((crossings[innermost].sector + (direction > 0 ? 0 : 1)) * turn) / SECTORS;
+  const shift = loopAngle(crossings[innermost], startAngle, direction) - spiralAngles[innermost];
+  const loops = crossings.map((crossing, index) =>
+    Math.round((spiralAngles[index] + shift - loopAngle(crossing, startAngle, direction)) / turn));
+  const placed = crossings.flatMap((crossing, index) => (members[chain[index]].length >= MIN_CHAIN ? [`${crossing.sector}:${loops[index]}`] : []));
+  if (new Set(placed).size < placed.length) return null;
+  return { ...fitLine(spiralAngles.map((angle) => angle + shift), radii), startAngle, direction, loops };
+}
+
+/**
+ * Maps the residual relative to the loop spacing onto a 0-10 scale anchored to
+ * the Bain-Findley descriptions: 0 no visible tremor, 1-3 slight wavering,
+ * 4-6 obvious tremor with the loops still apart, 7-9 loops touching or
+ * crossing (a sinusoidal wobble reaches the next loop at about 0.35), 10
+ * unrecognisable. It is a heuristic for comparing drawings, not a validated
+ * clinical rating.
+ */
+export function spiralSeverity(residualRms: number, loopSpacing: number): { severity: number; category: SpiralSeverityCategory } {
+  const anchors: Array<[number, number]> = [[0.02, 0], [0.08, 3], [0.18, 6], [0.35, 8], [0.6, 10]];
+  const ratio = loopSpacing > 0 ? residualRms / loopSpacing : Infinity;
+  let severity = 10;
+  if (ratio <= anchors[0][0]) {
+    severity = 0;
+  } else {
+    for (let index = 1; index < anchors.length; index += 1) {
+      const [upperRatio, upperScore] = anchors[index];
+      if (ratio <= upperRatio) {
+        const [lowerRatio, lowerScore] = anchors[index - 1];
+        severity = lowerScore + ((ratio - lowerRatio) / (upperRatio - lowerRatio)) * (upperScore - lowerScore);
+        break;
+      }
+    }
+  }
+  severity = Math.round(severity * 10) / 10;
+  const category: SpiralSeverityCategory = severity < 1 ? 'normal' : severity < 4 ? 'mild' : severity < 7 ? 'moderate' : 'severe';
+  return { severity, category };
+}
+
+/** Points every `spacing` px along each polyline, so sparse pen samples cover the ink evenly. */
+export function densifyPolylines(polylines: Point[][], spacing = 1): Point[] {
+  return polylines.flatMap((line) =>
+    line.flatMap((point, index) => {
+      if (!index) return [point];
+      const previous = line[index - 1];
+      const steps = Math.max(1, Math.ceil(Math.hypot(point.x - previous.x, point.y - previous.y) / spacing));
+      return Array.from({ length: steps }, (_, step) => ({
+        x: previous.x + ((step + 1) / steps) * (point.x - previous.x),
+        y: previous.y + ((step + 1) / steps) * (point.y - previous.y),
+      }));
+    }),
+  );
+}
+
+/**
+ * Analyses the ink of one spiral, given as points in any order (pen samples
+ * through densifyPolylines, or skeleton pixels). The centre starts at the
+ * ink's centroid and moves by pattern search to where the fitted spiral
+ * leaves the smallest residual.
+ */
+export function analyseSpiralGeometry(points: Point[]): SpiralGeometry {
+  if (points.length < MIN_CROSSINGS) {
+    throw new Error('Too little ink to analyse the spiral.');
+  }
+  const centroid = {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  };
+  const extent = Math.max(...points.map((point) => Math.hypot(point.x - centroid.x, point.y - centroid.y)));
+  const mergeDistance = Math.max(3, 0.02 * extent);
+  // Loops traced along the ink survive gaps, and numbering by order along the
+  // rays survives lines that touch; each centre keeps whichever fits better.
+  const evaluate = (centre: Point) => {
+    const crossings = rayCrossings(points, centre, mergeDistance);
+    if (crossings.length < MIN_CROSSINGS) {
+      return { centre, crossings, fit: null };
+    }
+    const byRay: SpiralFit = { ...fitSpiral(crossings), loops: crossings.map((crossing) => crossing.loop) };
+    const traced = traceSpiral(crossings);
+    return { centre, crossings, fit: traced && traced.rms < byRay.rms ? traced : byRay };
+  };
+  const search = (start: Point, initialStep: number) => {
+    let current = evaluate(start);
+    for (let step = initialStep; step >= 0.5; step /= 2) {
+      let moved = true;
+      while (moved) {
+        moved = false;
+        for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]]) {
+          const result = evaluate({ x: current.centre.x + dx * step, y: current.centre.y + dy * step });
+          if (result.fit && (!current.fit || result.fit.rms < current.fit.rms)) {
+            current = result;
+            moved = true;
+          }
+        }
+      }
+    }
+    return current;
+  };
+
+  const { centre, crossings, fit } = search(centroid, 0.1 * extent);
+  if (!fit) {
+    throw new Error('The ink does not form a recognisable spiral.');
+  }
+  const angles = crossings.map((crossing, index) => loopAngle(crossing, fit.startAngle, fit.direction) + 2 * Math.PI * fit.loops[index]);
+  const residuals = crossings.map((crossing, index) => crossing.radius - fit.a - fit.b * angles[index]);
+
+  // Residual profile along the spiral, one value per sector step of φ. The
+  // fitted line has slope b and no curvature, so the residual's derivatives
+  // are dr/dφ - b and d²r/dφ², measured at each crossing's own angle.
+  const step = (SECTOR_DEGREES * Math.PI) / 180;
+  const curvatureStep = CURVATURE_LAG * step;
+  const profile = new Map<number, number>();
+  angles.forEach((angle, index) => profile.set(Math.round(angle / step), residuals[index]));
+  const firstDifferences: number[] = [];
+  const secondDifferences: number[] = [];
+  profile.forEach((residual, position) => {
+    const before = profile.get(position - 1);
+    const after = profile.get(position + 1);
+    if (before !== undefined && after !== undefined) {
+      firstDifferences.push(Math.abs((after - before) / (2 * step)));
+    }
+    const inner = profile.get(position - CURVATURE_LAG);
+    const outer = profile.get(position + CURVATURE_LAG);
+    if (inner !== undefined && outer !== undefined) {
+      secondDifferences.push(Math.abs((outer - 2 * residual + inner) / (curvatureStep * curvatureStep)));
+    }
+  });
+
+  // Gap to the next loop out along the same ray.
+  const gaps: number[] = [];
+  const bySectorLoop = new Map(crossings.map((crossing, index) => [`${crossing.sector}:${fit.loops[index]}`, crossing.radius]));
+  crossings.forEach((crossing, index) => {
+    const outer = bySectorLoop.get(`${crossing.sector}:${fit.loops[index] + 1}`);
+    if (outer !== undefined) gaps.push(outer - crossing.radius);
+  });
+  const gapMean = gaps.reduce((sum, gap) => sum + gap, 0) / (gaps.length || 1);
+  const gapStd = Math.sqrt(gaps.reduce((sum, gap) => sum + (gap - gapMean) ** 2, 0) / (gaps.length || 1));
+
+  const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+  const loopSpacing = 2 * Math.PI * fit.b;
+  const rms = Math.sqrt(mean(residuals.map((residual) => residual * residual)));
+  const { severity, category } = spiralSeverity(rms, loopSpacing);
+  return {
+    centre,
+    // atan2 grows clockwise on screen, where y points down.
+    direction: fit.direction === 1 ? 'clockwise' : 'counterclockwise',
+    fit: { a: fit.a, b: fit.b },
+    turns: (Math.max(...angles) - Math.min(...angles)) / (2 * Math.PI),
+    loopSpacing,
+    tightness: 100 / loopSpacing,
+    radialResidual: {
+      meanAbsolute: mean(residuals.map(Math.abs)),
+      rms,
+      max: Math.max(...residuals.map(Math.abs)),
+    },
+    firstOrderSmoothness: mean(firstDifferences) / fit.b,
+    secondOrderSmoothness: mean(secondDifferences) / fit.b,
+    interLoopVariability: gapMean ? gapStd / gapMean : 0,
+    severity,
+    severityCategory: category,
+    crossings: crossings.length,
+  };
+}
+
+/**
+ * Thins a photographed spiral to one-pixel lines and analyses it. The photo
+ * is scaled so its longer side is at most 512 px, so its lengths are in those
+ * pixels; the relative measures and severity compare with on-screen drawings.
+ */
+export async function analyseSpiralImage(image: Blob): Promise<SpiralGeometry> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available to analyse the spiral photo.');
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+    const mask = removeSmallComponents(thinMask(inkMask(context.getImageData(0, 0, width, height)), width, height), width, height);
+    const points: Point[] = [];
+    mask.forEach((value, index) => {
+      if (value) points.push({ x: index % width, y: Math.floor(index / width) });
+    });
+    return analyseSpiralGeometry(points);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,200 @@
+import jsQR from 'jsqr';
+import { applyHomography, homography, Point, Quad, warpPerspective } from '../utils/perspective';
+import { adaptiveThreshold, forEachComponent, greyscale } from '../utils/skeleton';
+import type { DrawingTemplate } from './drawingKinematics';
+import {
+  FIDUCIAL_CENTRES,
+  parseTemplatePayload,
+  QR_AREA,
+  TEMPLATE_REGIONS,
+  TemplateSession,
+} from './drawingTemplateLayout';
+
+// Recognises a photo of a printed drawing template: finds its corner discs,
+// maps the photo onto the template with the perspective transform they fix,
+// reads the session from the QR code and cuts out the spiral and wave areas.
+
+const WORKING_SIZE = 2000; // longer side the photo is scaled to; the QR code needs the detail
+const REGION_PIXELS_PER_MM = 4;
+const QR_PIXELS_PER_MM = 8;
+const QR_MARGIN = 5; // mm of white kept around the QR code, which decoders need
+const MIN_FIDUCIAL_SHARE = 0.0002; // of the frame, about a page's width across a quarter of the photo
+const MAX_FIDUCIAL_SIZE_RATIO = 3;
+
+export interface RegisteredRegion {
+  pixels: Float32Array; // grey levels
+  width: number;
+  height: number;
+}
+
+export interface TemplateMatch extends TemplateSession {
+  fiducials: Quad; // disc centres in the image, in template order
+  regions: Record<DrawingTemplate, RegisteredRegion>;
+}
+
+export interface TemplateRegistration extends TemplateSession {
+  fiducials: Quad; // disc centres in the original photo, in template order
+  regions: Record<DrawingTemplate, Blob>; // PNG
+}
+
+/**
+ * Centres of the template's corner discs: solid, roughly round dark blobs
+ * (a disc seen at an angle fills about π/4 of its bounding box, where pen
+ * strokes and the QR code's hollow squares fill much less), taking the one
+ * closest to each corner of the image. Returns them top-left, top-right,
+ * bottom-right, bottom-left as seen in the image, or null without four
+ * discs of similar size.
+ */
+export function findFiducials(mask: Uint8Array, width: number, height: number): Quad | null {
+  const discs: Array<{ centre: Point; area: number }> = [];
+  forEachComponent(mask, width, height, (component) => {
+    if (component.length < MIN_FIDUCIAL_SHARE * width * height) return;
+    let left = width;
+    let right = 0;
+    let top = height;
+    let bottom = 0;
+    let sumX = 0;
+    let sumY = 0;
+    component.forEach((index) => {
+      const x = index % width;
+      const y = Math.floor(index / width);
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+      sumX += x;
+      sumY += y;
+    });
+    const boxWidth = right - left + 1;
+    const boxHeight = bottom - top + 1;
+    const fill = component.length / (boxWidth * boxHeight);
+    const aspect = boxWidth / boxHeight;
+    if (fill > 0.65 && fill < 0.9 && aspect > 0.4 && aspect < 2.5) {
+      discs.push({ centre: { x: sumX / component.length, y: sumY / component.length }, area: component.length });
+    }
+  });
+  if (discs.length < 4) return null;
+
+  const extreme = (score: (point: Point) => number) =>
+    discs.reduce((best, disc) => (score(disc.centre) > score(best.centre) ? disc : best));
+  const corners = [
+    extreme(({ x, y }) => -x - y),
+    extreme(({ x, y }) => x - y),
+    extreme(({ x, y }) => x + y),
+    extreme(({ x, y }) => y - x),
+  ];
+  if (new Set(corners).size < 4) return null;
+  const areas = corners.map(({ area }) => area);
+  if (Math.max(...areas) > MAX_FIDUCIAL_SIZE_RATIO * Math.min(...areas)) return null;
+  return corners.map(({ centre }) => centre) as Quad;
+}
+
+// Warps a rectangle of the template, in millimetres, out of the image.
+function warpTemplateArea(
+  grey: Float32Array,
+  width: number,
+  height: number,
+  toImage: number[],
+  area: { x: number; y: number; width: number; height: number },
+  pixelsPerMm: number,
+): RegisteredRegion {
+  const corners: Quad = [
+    applyHomography(toImage, { x: area.x, y: area.y }),
+    applyHomography(toImage, { x: area.x + area.width, y: area.y }),
+    applyHomography(toImage, { x: area.x + area.width, y: area.y + area.height }),
+    applyHomography(toImage, { x: area.x, y: area.y + area.height }),
+  ];
+  const outWidth = Math.round(area.width * pixelsPerMm);
+  const outHeight = Math.round(area.height * pixelsPerMm);
+  return { pixels: warpPerspective(grey, width, height, corners, outWidth, outHeight), width: outWidth, height: outHeight };
+}
+
+function decodeQr({ pixels, width, height }: RegisteredRegion): string | null {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  pixels.forEach((value, index) => {
+    rgba.set([value, value, value, 255], index * 4);
+  });
+  return jsQR(rgba, width, height, { inversionAttempts: 'dontInvert' })?.data ?? null;
+}
+
+/**
+ * Registers a greyscale image (0-255) of a printed template. The sheet may be
+ * turned any way up: each assignment of the discs to the template's corners
+ * is tried until the QR code reads where the template puts it, which also
+ * fixes the orientation. Returns null when the image is not of a template.
+ */
+export function registerTemplate(grey: Float32Array, width: number, height: number): TemplateMatch | null {
+  const window = Math.max(31, Math.round(Math.min(width, height) / 6)) | 1;
+  const found = findFiducials(adaptiveThreshold(grey, width, height, window, 0.3), width, height);
+  if (!found) return null;
+
+  const qrArea = {
+    x: QR_AREA.x - QR_MARGIN,
+    y: QR_AREA.y - QR_MARGIN,
+    width: QR_AREA.size + 2 * QR_MARGIN,
+    height: QR_AREA.size + 2 * QR_MARGIN,
+  };
+  for (let turn = 0; turn < 4; turn += 1) {
+    const fiducials = found.map((_, index) => found[(index + turn) % 4]) as Quad;
+    const toImage = homography(FIDUCIAL_CENTRES, fiducials);
+    if (!toImage) return null;
+    const payload = decodeQr(warpTemplateArea(grey, width, height, toImage, qrArea, QR_PIXELS_PER_MM));
+    const session = payload === null ? null : parseTemplatePayload(payload);
+    if (!session) continue;
+    return {
+      ...session,
+      fiducials,
+      regions: {
+        spiral: warpTemplateArea(grey, width, height, toImage, TEMPLATE_REGIONS.spiral, REGION_PIXELS_PER_MM),
+        wave: warpTemplateArea(grey, width, height, toImage, TEMPLATE_REGIONS.wave, REGION_PIXELS_PER_MM),
+      },
+    };
+  }
+  return null;
+}
+
+async function regionToPng(canvas: HTMLCanvasElement, { pixels, width, height }: RegisteredRegion): Promise<Blob> {
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  const image = context.createImageData(width, height);
+  pixels.forEach((value, index) => {
+    image.data.set([value, value, value, 255], index * 4);
+  });
+  context.putImageData(image, 0, 0);
+  const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!png) {
+    throw new Error('Could not encode the registered drawing.');
+  }
+  return png;
+}
+
+/** Registers a photo of a printed template; null when the photo is not of one. */
+export async function registerTemplatePhoto(image: Blob): Promise<TemplateRegistration | null> {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, WORKING_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  let match: TemplateMatch | null;
+  try {
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available to read the template.');
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    match = registerTemplate(greyscale(context.getImageData(0, 0, canvas.width, canvas.height)), canvas.width, canvas.height);
+  } finally {
+    bitmap.close();
+  }
+  if (!match) return null;
+  return {
+    patientId: match.patientId,
+    sessionId: match.sessionId,
+    fiducials: match.fiducials.map(({ x, y }) => ({ x: x / scale, y: y / scale })) as Quad,
+    regions: {
+      spiral: await regionToPng(canvas, match.regions.spiral),
+      wave: await regionToPng(canvas, match.regions.wave),
+    },
+  };
+}
@@ -0,0 +1,180 @@
+// Energy and zero-crossing voice activity detection. Picks the parts of a
+// recording that should reach feature extraction, so breaths, clicks and the
+// speech-synthesis prompt echo do not leak into jitter and shimmer.
+
+export type VoicePromptKind = 'sustained-vowel' | 'counting' | 'sentence';
+
+export interface VoiceSegment {
+  start: number; // sample index, inclusive
+  end: number; // sample index, exclusive
+}
+
+export interface VoiceSegmentationOptions {
+  promptKind?: VoicePromptKind;
+  ignoreBeforeSeconds?: number; // e.g. until the spoken prompt finished playing
+  maxSeconds?: number;
+  gapSamples?: number; // silence inserted between concatenated segments
+}
+
+export interface VoiceSegmentation {
+  signal: Float32Array;
+  segments: VoiceSegment[];
+  voicedSeconds: number;
+}
+
+interface ActivityFrame {
+  energyDb: number;
+  zeroCrossingRate: number;
+}
+
+const FRAME_SECONDS = 0.02;
+const HOP_SECONDS = 0.01;
+const ENERGY_MARGIN_DB = 10;
+const ABSOLUTE_FLOOR_DB = -55;
+// Voiced speech crosses zero far less often than breath noise and fricatives.
+const MAX_VOICED_ZERO_CROSSING_RATE = 0.25;
+const MIN_SEGMENT_SECONDS = 0.1;
+const MAX_GAP_SECONDS = 0.12;
+const STABLE_ENERGY_DROP_DB = 10;
+
+function measureFrames(samples: Float32Array, frameSize: number, hopSize: number): ActivityFrame[] {
+  const frames: ActivityFrame[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    let energy = 0;
+    let crossings = 0;
+    for (let index = start; index < start + frameSize; index += 1) {
+      energy += samples[index] * samples[index];
+      if (index > start && (samples[index] >= 0) !== (samples[index - 1] >= 0)) {
+        crossings += 1;
+      }
+    }
+    frames.push({
+      energyDb: 10 * Math.log10(energy / frameSize + 1e-12),
+      zeroCrossingRate: crossings / frameSize,
+    });
+  }
+  return frames;
+}
+
+function median(values: number[]): number {
+  if (!values.length) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Returns the voiced regions of a recording. The energy threshold adapts to the
+ * recording's own noise floor (its quietest decile of frames).
+ */
+export function detectVoiceActivity(
+  samples: Float32Array,
+  sampleRate: number,
+  ignoreBeforeSeconds = 0,
+): VoiceSegment[] {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const hopSize = Math.max(1, Math.round(sampleRate * HOP_SECONDS));
+  const frames = measureFrames(samples, frameSize, hopSize);
+  if (!frames.length) {
+    return [];
+  }
+
+  const energies = frames.map((frame) => frame.energyDb).sort((a, b) => a - b);
+  const noiseFloor = energies[Math.floor(energies.length * 0.1)];
+  const threshold = Math.max(noiseFloor + ENERGY_MARGIN_DB, ABSOLUTE_FLOOR_DB);
+  const firstFrame = Math.ceil((ignoreBeforeSeconds * sampleRate) / hopSize);
+
+  const active = frames.map(
+    (frame, index) =>
+      index >= firstFrame && frame.energyDb >= threshold && frame.zeroCrossingRate <= MAX_VOICED_ZERO_CROSSING_RATE,
+  );
+
+  // Bridge short dropouts (plosives, brief pitch breaks) before discarding
+  // fragments too short to hold a few glottal cycles.
+  const maxGapFrames = Math.round(MAX_GAP_SECONDS / HOP_SECONDS);
+  const runs: Array<{ first: number; last: number }> = [];
+  active.forEach((isActive, index) => {
+    if (!isActive) return;
+    const current = runs[runs.length - 1];
+    if (current && index - current.last <= maxGapFrames + 1) {
+      current.last = index;
+    } else {
+      runs.push({ first: index, last: index });
+    }
+  });
+
+  const minFrames = Math.round(MIN_SEGMENT_SECONDS / HOP_SECONDS);
+  return runs
+    .filter((run) => run.last - run.first + 1 >= minFrames)
+    .map((run) => ({
+      start: run.first * hopSize,
+      end: Math.min(samples.length, run.last * hopSize + frameSize),
+    }));
+}
+
+// Trims a sustained-vowel segment to its steady part: onset and decay frames
+// more than STABLE_ENERGY_DROP_DB below the segment's median level are dropped.
+function stableCore(samples: Float32Array, segment: VoiceSegment, sampleRate: number): VoiceSegment {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const hopSize = Math.max(1, Math.round(sampleRate * HOP_SECONDS));
+  const frames = measureFrames(samples.subarray(segment.start, segment.end), frameSize, hopSize);
+  if (!frames.length) {
+    return segment;
+  }
+  const level = median(frames.map((frame) => frame.energyDb));
+  let first = 0;
+  let last = frames.length - 1;
+  while (first < last && frames[first].energyDb < level - STABLE_ENERGY_DROP_DB) first += 1;
+  while (last > first && frames[last].energyDb < level - STABLE_ENERGY_DROP_DB) last -= 1;
+  return {
+    start: segment.start + first * hopSize,
+    end: Math.min(segment.end, segment.start + last * hopSize + frameSize),
+  };
+}
+
+/**
+ * Chooses the audio to analyse for a prompt: the longest stable segment for a
+ * sustained vowel, every voiced region (joined by short silences) for counting
+ * and sentence prompts.
+ */
+export function selectAnalysisSegments(
+  samples: Float32Array,
+  sampleRate: number,
+  options: VoiceSegmentationOptions = {},
+): VoiceSegmentation {
+  const { promptKind = 'sustained-vowel', ignoreBeforeSeconds = 0, maxSeconds = 15, gapSamples = 0 } = options;
+  const detected = detectVoiceActivity(samples, sampleRate, ignoreBeforeSeconds);
+  const maxSamples = Math.floor(maxSeconds * sampleRate);
+
+  let segments: VoiceSegment[];
+  if (promptKind === 'sustained-vowel') {
+    const longest = detected.reduce<VoiceSegment | null>(
+      (best, segment) => (!best || segment.end - segment.start > best.end - best.start ? segment : best),
+      null,
+    );
+    segments = longest ? [stableCore(samples, longest, sampleRate)] : [];
+  } else {
+    segments = detected;
+  }
+
+  const kept: VoiceSegment[] = [];
+  let budget = maxSamples;
+  for (const segment of segments) {
+    if (budget <= 0) break;
+    const length = Math.min(segment.end - segment.start, budget);
+    kept.push({ start: segment.start, end: segment.start + length });
+    budget -= length;
+  }
+
+  const voicedSamples = kept.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+  const signal = new Float32Array(voicedSamples + Math.max(0, kept.length - 1) * gapSamples);
+  let offset = 0;
+  kept.forEach((segment, index) => {
+    if (index > 0) offset += gapSamples;
+    signal.set(samples.subarray(segment.start, segment.end), offset);
+    offset += segment.end - segment.start;
+  });
+
+  return { signal, segments: kept, voicedSeconds: voicedSamples / sampleRate };
+}
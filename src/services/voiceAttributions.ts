@@ -0,0 +1,52 @@
+import type { VoiceFeatureKey } from './voiceKnnModel';
+
+// Explains a single prediction feature by feature. Each feature's value is
+// swapped for the values a set of training recordings have for it, with every
+// other feature left as recorded; the average drop in the probability is what
+// that feature contributed. This treats the classifier as a black box, so it
+// works for every algorithm in the registry.
+
+export interface FeatureAttribution {
+  feature: VoiceFeatureKey;
+  zScore: number; // the recording's normalised value
+  contribution: number; // change in the probability of Parkinson's; positive pushes toward Parkinson's
+}
+
+export interface VoiceFeatureAttributions {
+  method: 'permutation';
+  references: number; // training recordings the features were swapped with
+  attributions: FeatureAttribution[]; // largest absolute contribution first
+}
+
+export const ATTRIBUTION_REFERENCE_COUNT = 32;
+
+/** Evenly spaced training vectors, so both classes appear in their dataset proportions. */
+export function selectAttributionReferences(vectors: number[][], count = ATTRIBUTION_REFERENCE_COUNT): number[][] {
+  if (vectors.length <= count) {
+    return vectors.map((vector) => [...vector]);
+  }
+  return Array.from({ length: count }, (_, index) => [...vectors[Math.floor((index * vectors.length) / count)]]);
+}
+
+export function attributeVoicePrediction(
+  score: (vector: number[]) => number,
+  vector: number[],
+  columns: VoiceFeatureKey[],
+  references: number[][],
+): VoiceFeatureAttributions {
+  if (!references.length) {
+    throw new Error('Feature attributions need at least one reference recording.');
+  }
+  const probability = score(vector);
+  const attributions = columns.map((feature, column) => {
+    const permuted = [...vector];
+    let sum = 0;
+    references.forEach((reference) => {
+      permuted[column] = reference[column];
+      sum += score(permuted);
+    });
+    return { feature, zScore: vector[column], contribution: probability - sum / references.length };
+  });
+  attributions.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+  return { method: 'permutation', references: references.length, attributions };
+}
@@ -0,0 +1,125 @@
+import type { BaselineFeatureKey, VoiceFeatureGroup, VoiceFeatureKey, VoiceFeatureVector } from './voiceKnnModel';
+
+// Per-device feature transforms that map microphone measurements into the
+// feature space of the reference dataset. Pure functions only: the transform is
+// derived in the voice pipeline worker and applied before normalisation.
+
+export type CalibrationMethod = 'reference-tone' | 'baseline-vowels';
+
+export interface FeatureTransform {
+  scale: number;
+  offset: number;
+  min?: number; // lower bound after the transform, for features that cannot go negative
+}
+
+export type CalibrationTransform = Partial<Record<VoiceFeatureKey, FeatureTransform>>;
+
+export interface VoiceCalibration {
+  profileId: string;
+  method: CalibrationMethod;
+  transform: CalibrationTransform;
+}
+
+export interface FeatureStatistics {
+  mean: number;
+  std: number;
+}
+
+// A tone played through the speaker is perfectly periodic, so whatever jitter,
+// shimmer and noise the chain still measures is the device's own floor.
+const PERTURBATION_FEATURES: BaselineFeatureKey[] = [
+  'stdDevPeriodPulses',
+  'locPctJitter',
+  'locAbsJitter',
+  'rapJitter',
+  'ppq5Jitter',
+  'ddpJitter',
+  'locShimmer',
+  'locDbShimmer',
+  'apq3Shimmer',
+  'apq5Shimmer',
+  'apq11Shimmer',
+  'ddaShimmer',
+  'meanNoiseToHarmHarmonicity',
+];
+
+// A microphone's frequency response adds a constant to every cepstral
+// coefficient and its gain shifts log energy; deltas and spreads are unaffected.
+// Aligning the reference vowels' averages with the dataset's removes that offset
+// (cepstral mean normalisation) without touching the perturbation measures,
+// which carry the speaker's own voice quality.
+const CHANNEL_FEATURE_PATTERN = /^mean_(Log_energy|MFCC_\w+_coef)$/;
+
+// The feature group each method adjusts; against a model without that group a
+// profile changes nothing.
+export const CALIBRATION_FEATURE_GROUPS: Record<CalibrationMethod, VoiceFeatureGroup> = {
+  'reference-tone': 'baseline',
+  'baseline-vowels': 'mfcc',
+};
+
+function averageOf(references: VoiceFeatureVector[], key: VoiceFeatureKey): number | null {
+  const values = references
+    .map((features) => features[key])
+    .filter((value): value is number => value !== undefined && Number.isFinite(value));
+  if (!values.length) {
+    return null;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function deriveCalibrationTransform(
+  method: CalibrationMethod,
+  references: VoiceFeatureVector[],
+  datasetStats: Partial<Record<VoiceFeatureKey, FeatureStatistics>>,
+): CalibrationTransform {
+  if (!references.length) {
+    throw new Error('At least one reference recording is required to calibrate the microphone.');
+  }
+  const transform: CalibrationTransform = {};
+
+  if (method === 'reference-tone') {
+    PERTURBATION_FEATURES.forEach((key) => {
+      const floor = averageOf(references, key);
+      if (floor !== null && floor > 0) {
+        transform[key] = { scale: 1, offset: -floor, min: 0 };
+      }
+    });
+    return transform;
+  }
+
+  (Object.keys(datasetStats) as VoiceFeatureKey[])
+    .filter((key) => CHANNEL_FEATURE_PATTERN.test(key))
+    .forEach((key) => {
+      const referenceMean = averageOf(references, key);
+      const stat = datasetStats[key];
+      if (referenceMean !== null && stat) {
+        transform[key] = { scale: 1, offset: stat.mean - referenceMean };
+      }
+    });
+  if (!Object.keys(transform).length) {
+    throw new Error('The reference dataset has no MFCC columns, so baseline vowels cannot calibrate this microphone.');
+  }
+  return transform;
+}
+
+/** Whether the transform changes any of the given model features. */
+export function calibrationAffects(transform: CalibrationTransform, features: readonly VoiceFeatureKey[]): boolean {
+  return features.some((key) => transform[key] !== undefined);
+}
+
+export function applyCalibrationTransform(
+  features: VoiceFeatureVector,
+  transform: CalibrationTransform,
+): VoiceFeatureVector {
+  const calibrated: VoiceFeatureVector = { ...features };
+  (Object.keys(transform) as VoiceFeatureKey[]).forEach((key) => {
+    const value = calibrated[key];
+    const featureTransform = transform[key];
+    if (value === undefined || !featureTransform) {
+      return;
+    }
+    const mapped = value * featureTransform.scale + featureTransform.offset;
+    calibrated[key] = featureTransform.min !== undefined ? Math.max(featureTransform.min, mapped) : mapped;
+  });
+  return calibrated;
+}
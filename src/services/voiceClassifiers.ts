@@ -0,0 +1,520 @@
+import { BallTree, buildBallTree, bruteForceNearest } from '../utils/ballTree';
+import {
+  cosineDistance,
+  covarianceCholesky,
+  DistanceMetric,
+  euclideanDistance,
+  manhattanDistance,
+  whiten,
+} from '../utils/distance';
+
+// Classifiers the voice model can be trained with. Every classifier works on
+// z-score normalised feature vectors prepared by voiceKnnModel.ts, so
+// alternatives can be benchmarked against the same features and validation.
+
+export type VoiceClass = 'Parkinsons' | 'Healthy';
+
+export interface LabelledVector {
+  vector: number[];
+  label: VoiceClass;
+}
+
+export type VoiceClassifierAlgorithm = 'knn' | 'logistic-regression' | 'gaussian-naive-bayes' | 'random-forest';
+
+// Plain values only, so they can be stored as JSON in tests.model_versions.
+// Every parameter keeps the type of its default.
+export type VoiceClassifierParameters = Record<string, number | string>;
+
+// Numeric hyperparameters of the classifiers that have no string options.
+type NumericParameters = Record<string, number>;
+
+export interface VoiceClassifierConfig {
+  algorithm: VoiceClassifierAlgorithm;
+  parameters?: VoiceClassifierParameters; // merged over the algorithm's defaults
+}
+
+export interface VoiceClassifierOutput {
+  probabilityOfParkinsons: number; // raw score in [0, 1]; voiceProbabilityCalibration.ts calibrates it
+  neighbourVotes: Array<{ label: VoiceClass; distance: number }>; // sorted nearest-first; empty unless the classifier is neighbour-based
+}
+
+export interface SerializedVoiceClassifier {
+  algorithm: VoiceClassifierAlgorithm;
+  parameters: VoiceClassifierParameters;
+  state: unknown; // JSON-compatible fitted state, shape owned by the algorithm
+}
+
+export interface VoiceClassifier {
+  readonly algorithm: VoiceClassifierAlgorithm;
+  readonly parameters: VoiceClassifierParameters;
+  train(samples: LabelledVector[]): void;
+  predict(vector: number[]): VoiceClassifierOutput;
+  serialize(): SerializedVoiceClassifier;
+}
+
+interface ClassifierDefinition {
+  label: string;
+  defaults: VoiceClassifierParameters;
+  create(parameters: VoiceClassifierParameters, state?: unknown): VoiceClassifier;
+}
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+const notTrained = (algorithm: VoiceClassifierAlgorithm) =>
+  new Error(`The ${VOICE_CLASSIFIERS[algorithm].label} classifier has not been trained yet.`);
+
+// Small seeded generator (mulberry32) so forests are reproducible run to run.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export type KnnWeighting = 'uniform' | 'inverse-distance';
+
+export const KNN_DISTANCE_METRICS: readonly DistanceMetric[] = ['euclidean', 'manhattan', 'cosine', 'mahalanobis'];
+
+export const KNN_WEIGHTINGS: readonly KnnWeighting[] = ['uniform', 'inverse-distance'];
+
+interface KnnState {
+  samples: LabelledVector[];
+  cholesky: number[][] | null; // covariance factor of the training vectors, Mahalanobis only
+}
+
+// Above this many columns the ball tree answers queries more slowly than a
+// linear scan (KNN_INDEX_BENCHMARK.md), so the full 754-column feature set is
+// still searched by brute force.
+const KNN_INDEX_MAX_DIMENSIONS = 32;
+
+const DISTANCES: Record<Exclude<DistanceMetric, 'mahalanobis'>, (a: ArrayLike<number>, b: ArrayLike<number>) => number> = {
+  euclidean: euclideanDistance,
+  manhattan: manhattanDistance,
+  cosine: cosineDistance,
+};
+
+function unitVector(vector: number[]): number[] | null {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map((value) => value / norm) : null;
+}
+
+function createKnnClassifier(parameters: VoiceClassifierParameters, state?: unknown): VoiceClassifier {
+  const metric = parameters.metric as DistanceMetric;
+  const weighting = parameters.weighting as KnnWeighting;
+  if (!KNN_DISTANCE_METRICS.includes(metric)) {
+    throw new Error(`Unknown KNN distance metric "${metric}". Use one of: ${KNN_DISTANCE_METRICS.join(', ')}.`);
+  }
+  if (!KNN_WEIGHTINGS.includes(weighting)) {
+    throw new Error(`Unknown KNN weighting "${weighting}". Use one of: ${KNN_WEIGHTINGS.join(', ')}.`);
+  }
+
+  let model = (state as KnnState | undefined) ?? null;
+  // Mahalanobis distance is Euclidean distance between whitened vectors, so
+  // the training vectors are whitened once rather than on every query.
+  let searchVectors: number[][] = [];
+  // Cosine distance is not a metric, but on unit vectors it is half the
+  // squared Euclidean distance, so the index holds the normalised vectors and
+  // ranks by Euclidean distance. Zero vectors have no direction; with any of
+  // those, or with too many columns, the search falls back to a linear scan.
+  let index: BallTree | null = null;
+  const prepare = () => {
+    searchVectors = model?.cholesky
+      ? model.samples.map((sample) => whiten(sample.vector, model!.cholesky!))
+      : (model?.samples.map((sample) => sample.vector) ?? []);
+    const indexVectors = metric === 'cosine' ? searchVectors.map(unitVector) : searchVectors;
+    index = indexVectors.length && indexVectors[0]!.length <= KNN_INDEX_MAX_DIMENSIONS && indexVectors.every(Boolean)
+      ? buildBallTree(indexVectors as number[][], metric === 'manhattan' ? 'manhattan' : 'euclidean')
+      : null;
+  };
+  prepare();
+  const distance = metric === 'mahalanobis' ? euclideanDistance : DISTANCES[metric];
+
+  const nearest = (query: number[], k: number) => {
+    const indexQuery = metric === 'cosine' ? unitVector(query) : query;
+    if (!index || !indexQuery) {
+      return bruteForceNearest(searchVectors, query, k, distance);
+    }
+    const found = index.nearest(indexQuery, k);
+    return metric === 'cosine'
+      ? found.map(({ index: position }) => ({ index: position, distance: distance(query, searchVectors[position]) }))
+      : found;
+  };
+
+  return {
+    algorithm: 'knn',
+    parameters,
+    train(trainingSamples) {
+      model = {
+        samples: trainingSamples,
+        cholesky: metric === 'mahalanobis' && trainingSamples.length
+          ? covarianceCholesky(trainingSamples.map((sample) => sample.vector))
+          : null,
+      };
+      prepare();
+    },
+    predict(vector) {
+      if (!model?.samples.length) {
+        throw notTrained('knn');
+      }
+      const { samples } = model;
+      const query = model.cholesky ? whiten(vector, model.cholesky) : vector;
+      const effectiveK = Math.min(Math.max(Math.round(Number(parameters.k)), 1), samples.length);
+      const neighbours = nearest(query, effectiveK).map(({ index: position, distance: neighbourDistance }) => ({
+        label: samples[position].label,
+        distance: neighbourDistance,
+      }));
+
+      // Inverse-distance weighting lets the closest recordings dominate the vote.
+      const weights = neighbours.map((neighbour) => (weighting === 'inverse-distance' ? 1 / (neighbour.distance + 1e-6) : 1));
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      const parkinsonsWeight = neighbours.reduce(
+        (sum, neighbour, index) => sum + (neighbour.label === 'Parkinsons' ? weights[index] : 0),
+        0,
+      );
+
+      return { probabilityOfParkinsons: parkinsonsWeight / totalWeight, neighbourVotes: neighbours };
+    },
+    serialize() {
+      if (!model) {
+        throw notTrained('knn');
+      }
+      return { algorithm: 'knn', parameters, state: model };
+    },
+  };
+}
+
+interface LogisticState {
+  weights: number[];
+  bias: number;
+}
+
+// Batch gradient descent on the L2-regularised log loss.
+function createLogisticClassifier(parameters: VoiceClassifierParameters, state?: unknown): VoiceClassifier {
+  const { learningRate, epochs, l2 } = parameters as NumericParameters;
+  let model = (state as LogisticState | undefined) ?? null;
+  return {
+    algorithm: 'logistic-regression',
+    parameters,
+    train(samples) {
+      if (!samples.length) {
+        throw new Error('Logistic regression needs at least one training sample.');
+      }
+      const dimensions = samples[0].vector.length;
+      const weights = new Array<number>(dimensions).fill(0);
+      let bias = 0;
+      for (let epoch = 0; epoch < epochs; epoch += 1) {
+        const gradient = new Array<number>(dimensions).fill(0);
+        let biasGradient = 0;
+        samples.forEach(({ vector, label }) => {
+          let logit = bias;
+          for (let index = 0; index < dimensions; index += 1) {
+            logit += weights[index] * vector[index];
+          }
+          const error = sigmoid(logit) - (label === 'Parkinsons' ? 1 : 0);
+          for (let index = 0; index < dimensions; index += 1) {
+            gradient[index] += error * vector[index];
+          }
+          biasGradient += error;
+        });
+        for (let index = 0; index < dimensions; index += 1) {
+          weights[index] -= learningRate * (gradient[index] / samples.length + l2 * weights[index]);
+        }
+        bias -= learningRate * (biasGradient / samples.length);
+      }
+      model = { weights, bias };
+    },
+    predict(vector) {
+      if (!model) {
+        throw notTrained('logistic-regression');
+      }
+      const logit = model.weights.reduce((sum, weight, index) => sum + weight * vector[index], model.bias);
+      return { probabilityOfParkinsons: sigmoid(logit), neighbourVotes: [] };
+    },
+    serialize() {
+      if (!model) {
+        throw notTrained('logistic-regression');
+      }
+      return { algorithm: 'logistic-regression', parameters, state: model };
+    },
+  };
+}
+
+interface GaussianClassState {
+  prior: number;
+  means: number[];
+  variances: number[];
+}
+
+type NaiveBayesState = Record<VoiceClass, GaussianClassState>;
+
+function createNaiveBayesClassifier(parameters: VoiceClassifierParameters, state?: unknown): VoiceClassifier {
+  const { varianceSmoothing } = parameters as NumericParameters;
+  let model = (state as NaiveBayesState | undefined) ?? null;
+
+  const fitClass = (samples: LabelledVector[], label: VoiceClass, total: number): GaussianClassState => {
+    const members = samples.filter((sample) => sample.label === label);
+    if (!members.length) {
+      throw new Error(`Gaussian naive Bayes needs training samples of both classes; none are labelled ${label}.`);
+    }
+    const dimensions = members[0].vector.length;
+    const means = new Array<number>(dimensions).fill(0);
+    const variances = new Array<number>(dimensions).fill(0);
+    members.forEach(({ vector }) => vector.forEach((value, index) => { means[index] += value / members.length; }));
+    members.forEach(({ vector }) =>
+      vector.forEach((value, index) => { variances[index] += (value - means[index]) ** 2 / members.length; }),
+    );
+    return {
+      prior: members.length / total,
+      means,
+      // Smoothing keeps near-constant features from dominating the likelihood.
+      variances: variances.map((variance) => variance + varianceSmoothing),
+    };
+  };
+
+  const logLikelihood = ({ prior, means, variances }: GaussianClassState, vector: number[]) =>
+    vector.reduce(
+      (sum, value, index) =>
+        sum - 0.5 * (Math.log(2 * Math.PI * variances[index]) + (value - means[index]) ** 2 / variances[index]),
+      Math.log(prior),
+    );
+
+  return {
+    algorithm: 'gaussian-naive-bayes',
+    parameters,
+    train(samples) {
+      model = {
+        Parkinsons: fitClass(samples, 'Parkinsons', samples.length),
+        Healthy: fitClass(samples, 'Healthy', samples.length),
+      };
+    },
+    predict(vector) {
+      if (!model) {
+        throw notTrained('gaussian-naive-bayes');
+      }
+      const difference = logLikelihood(model.Healthy, vector) - logLikelihood(model.Parkinsons, vector);
+      return { probabilityOfParkinsons: 1 / (1 + Math.exp(difference)), neighbourVotes: [] };
+    },
+    serialize() {
+      if (!model) {
+        throw notTrained('gaussian-naive-bayes');
+      }
+      return { algorithm: 'gaussian-naive-bayes', parameters, state: model };
+    },
+  };
+}
+
+type TreeNode =
+  | { probability: number }
+  | { feature: number; threshold: number; left: TreeNode; right: TreeNode };
+
+const parkinsonsFraction = (samples: LabelledVector[]) =>
+  samples.filter((sample) => sample.label === 'Parkinsons').length / samples.length;
+
+const gini = (positives: number, total: number) => {
+  if (!total) {
+    return 0;
+  }
+  const fraction = positives / total;
+  return 2 * fraction * (1 - fraction);
+};
+
+// Best Gini split of one feature, scanning the sorted values once.
+function bestThreshold(
+  samples: LabelledVector[],
+  feature: number,
+  minLeafSize: number,
+): { threshold: number; impurity: number } | null {
+  const sorted = [...samples].sort((a, b) => a.vector[feature] - b.vector[feature]);
+  const totalPositives = sorted.filter((sample) => sample.label === 'Parkinsons').length;
+  let leftPositives = 0;
+  let best: { threshold: number; impurity: number } | null = null;
+  for (let index = 0; index < sorted.length - 1; index += 1) {
+    if (sorted[index].label === 'Parkinsons') {
+      leftPositives += 1;
+    }
+    const leftSize = index + 1;
+    const rightSize = sorted.length - leftSize;
+    const value = sorted[index].vector[feature];
+    const nextValue = sorted[index + 1].vector[feature];
+    if (value === nextValue || leftSize < minLeafSize || rightSize < minLeafSize) {
+      continue;
+    }
+    const impurity =
+      (leftSize * gini(leftPositives, leftSize) + rightSize * gini(totalPositives - leftPositives, rightSize)) /
+      sorted.length;
+    if (!best || impurity < best.impurity) {
+      best = { threshold: (value + nextValue) / 2, impurity };
+    }
+  }
+  return best;
+}
+
+function growTree(
+  samples: LabelledVector[],
+  depth: number,
+  parameters: NumericParameters,
+  random: () => number,
+): TreeNode {
+  const probability = parkinsonsFraction(samples);
+  if (depth >= parameters.maxDepth || samples.length < 2 * parameters.minLeafSize || probability === 0 || probability === 1) {
+    return { probability };
+  }
+  const dimensions = samples[0].vector.length;
+  // Each split considers a random subset of about sqrt(d) features.
+  const candidateCount = Math.max(1, Math.round(Math.sqrt(dimensions)));
+  const features = Array.from({ length: dimensions }, (_, index) => index);
+  for (let index = 0; index < candidateCount; index += 1) {
+    const swap = index + Math.floor(random() * (dimensions - index));
+    [features[index], features[swap]] = [features[swap], features[index]];
+  }
+
+  let best: { feature: number; threshold: number; impurity: number } | null = null;
+  for (const feature of features.slice(0, candidateCount)) {
+    const split = bestThreshold(samples, feature, parameters.minLeafSize);
+    if (split && (!best || split.impurity < best.impurity)) {
+      best = { feature, ...split };
+    }
+  }
+  if (!best) {
+    return { probability };
+  }
+  const { feature, threshold } = best;
+  return {
+    feature,
+    threshold,
+    left: growTree(samples.filter((sample) => sample.vector[feature] <= threshold), depth + 1, parameters, random),
+    right: growTree(samples.filter((sample) => sample.vector[feature] > threshold), depth + 1, parameters, random),
+  };
+}
+
+function evaluateTree(node: TreeNode, vector: number[]): number {
+  let current = node;
+  while ('feature' in current) {
+    current = vector[current.feature] <= current.threshold ? current.left : current.right;
+  }
+  return current.probability;
+}
+
+// Bagged CART trees; the probability is the mean leaf class fraction.
+function createRandomForestClassifier(parameters: VoiceClassifierParameters, state?: unknown): VoiceClassifier {
+  let trees = (state as TreeNode[] | undefined) ?? null;
+  return {
+    algorithm: 'random-forest',
+    parameters,
+    train(samples) {
+      if (!samples.length) {
+        throw new Error('A random forest needs at least one training sample.');
+      }
+      const numeric = parameters as NumericParameters;
+      const random = createRandom(numeric.seed);
+      trees = Array.from({ length: Math.max(1, Math.round(numeric.trees)) }, () => {
+        const bootstrap = samples.map(() => samples[Math.floor(random() * samples.length)]);
+        return growTree(bootstrap, 0, numeric, random);
+      });
+    },
+    predict(vector) {
+      if (!trees) {
+        throw notTrained('random-forest');
+      }
+      const probability = trees.reduce((sum, tree) => sum + evaluateTree(tree, vector), 0) / trees.length;
+      return { probabilityOfParkinsons: probability, neighbourVotes: [] };
+    },
+    serialize() {
+      if (!trees) {
+        throw notTrained('random-forest');
+      }
+      return { algorithm: 'random-forest', parameters, state: trees };
+    },
+  };
+}
+
+export const VOICE_CLASSIFIERS: Record<VoiceClassifierAlgorithm, ClassifierDefinition> = {
+  knn: { label: 'KNN', defaults: { k: 5, metric: 'euclidean', weighting: 'uniform' }, create: createKnnClassifier },
+  'logistic-regression': {
+    label: 'logistic regression',
+    defaults: { learningRate: 0.1, epochs: 300, l2: 0.01 },
+    create: createLogisticClassifier,
+  },
+  'gaussian-naive-bayes': {
+    label: 'Gaussian naive Bayes',
+    defaults: { varianceSmoothing: 1e-3 },
+    create: createNaiveBayesClassifier,
+  },
+  'random-forest': {
+    label: 'random forest',
+    defaults: { trees: 25, maxDepth: 6, minLeafSize: 3, seed: 1 },
+    create: createRandomForestClassifier,
+  },
+};
+
+function resolveParameters(config: VoiceClassifierConfig): VoiceClassifierParameters {
+  if (!Object.hasOwn(VOICE_CLASSIFIERS, config.algorithm)) {
+    throw new Error(`Unknown voice classifier "${config.algorithm}".`);
+  }
+  const definition = VOICE_CLASSIFIERS[config.algorithm];
+  const unknown = Object.keys(config.parameters ?? {}).filter((name) => !Object.hasOwn(definition.defaults, name));
+  if (unknown.length) {
+    throw new Error(`Unknown ${definition.label} parameter(s): ${unknown.join(', ')}.`);
+  }
+  Object.entries(config.parameters ?? {}).forEach(([name, value]) => {
+    if (typeof value !== typeof definition.defaults[name]) {
+      throw new Error(`The ${definition.label} parameter "${name}" must be a ${typeof definition.defaults[name]}.`);
+    }
+  });
+  return { ...definition.defaults, ...config.parameters };
+}
+
+export function createVoiceClassifier(config: VoiceClassifierConfig): VoiceClassifier {
+  return VOICE_CLASSIFIERS[config.algorithm].create(resolveParameters(config));
+}
+
+export function deserializeVoiceClassifier(serialized: SerializedVoiceClassifier): VoiceClassifier {
+  const parameters = resolveParameters(serialized);
+  return VOICE_CLASSIFIERS[serialized.algorithm].create(parameters, serialized.state);
+}
+
+/** Stable one-line description, e.g. "knn(k=5)", used as the model cache key. */
+export function describeVoiceClassifier(config: VoiceClassifierConfig): string {
+  const parameters = resolveParameters(config);
+  const list = Object.keys(parameters)
+    .sort()
+    .map((name) => `${name}=${parameters[name]}`)
+    .join(',');
+  return `${config.algorithm}(${list})`;
+}
+
+/**
+ * Reads a classifier from configuration strings: an algorithm name and
+ * comma-separated name=value parameters (e.g. "trees=50,maxDepth=8" or
+ * "k=7,metric=manhattan"). Numeric values are read as numbers.
+ * Unknown algorithms fall back to KNN.
+ */
+export function parseVoiceClassifierConfig(
+  algorithm: string | undefined,
+  parameters: string | undefined,
+): VoiceClassifierConfig {
+  const name = (algorithm ?? '').trim();
+  const known = Object.hasOwn(VOICE_CLASSIFIERS, name);
+  if (name && !known) {
+    console.warn(`[Voice classifier] Unknown algorithm "${name}", using KNN.`);
+  }
+  const parsed: VoiceClassifierParameters = {};
+  (parameters ?? '')
+    .split(',')
+    .map((entry) => entry.split('='))
+    .forEach(([key, value]) => {
+      if (!key?.trim() || !value?.trim()) {
+        return;
+      }
+      const number = Number(value);
+      parsed[key.trim()] = Number.isFinite(number) ? number : value.trim();
+    });
+  return {
+    algorithm: known ? (name as VoiceClassifierAlgorithm) : 'knn',
+    parameters: parsed,
+  };
+}
@@ -0,0 +1,190 @@
+import { parseCsv } from '../utils/csv';
+import type { VoiceClass } from './voiceClassifiers';
+import type { VoiceFeatureGroup, VoiceFeatureKey, VoiceFeatureVector } from './voiceKnnModel';
+
+// Reads a speech dataset CSV into labelled feature vectors and reports what
+// had to be dropped or filled in along the way, so a different dataset can be
+// swapped in without silently training on garbage.
+
+export type VoiceImputationStrategy = 'median' | 'class-median';
+
+export interface VoiceDatasetSample {
+  features: VoiceFeatureVector;
+  label: VoiceClass;
+  subjectId: string; // recordings of one speaker share an id
+  // Under class-median imputation, for rows with gaps: the features with the
+  // gaps filled from the overall median instead, for scoring the row when its
+  // label must not be known.
+  unlabelledFeatures?: VoiceFeatureVector;
+}
+
+export interface VoiceDatasetValidationReport {
+  rows: number; // data rows in the file
+  droppedRows: Array<{ row: number; reason: string }>; // row is the line's record number, header included
+  missingColumns: VoiceFeatureKey[]; // of partially present optional groups, which are then left out
+  missingValues: Partial<Record<VoiceFeatureKey, number>>; // empty or non-numeric cells, filled by imputation
+  imputation: VoiceImputationStrategy;
+  classBalance: Record<VoiceClass, number>;
+  subjects: number;
+  duplicateSubjectIds: Array<{ subjectId: string; rows: number }>; // ids shared by several recordings
+}
+
+export interface VoiceDataset {
+  samples: VoiceDatasetSample[];
+  featureGroups: VoiceFeatureGroup[]; // groups whose columns are all present in the CSV
+  validation: VoiceDatasetValidationReport;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Parses and validates the dataset. The "class" column and every column of
+ * the required groups must be present; other groups are used only when all of
+ * their columns exist.
+ * Class-median imputation fills a gap with the median of the row's own class,
+ * which leaks the label into the features; such rows also carry
+ * `unlabelledFeatures`, which cross-validation scores them on when they are
+ * held out.
+ */
+export function parseVoiceDataset(
+  csvText: string,
+  featureGroups: Record<VoiceFeatureGroup, readonly VoiceFeatureKey[]>,
+  imputation: VoiceImputationStrategy,
+  requiredGroups: readonly VoiceFeatureGroup[] = ['baseline'],
+): VoiceDataset {
+  if (!csvText.trim()) {
+    throw new Error('The speech dataset CSV is empty.');
+  }
+  const records = parseCsv(csvText);
+  // Some exports put a row of group captions above the real header.
+  const headerIndex = records.findIndex((record) => record.some((cell) => cell.trim() === 'class'));
+  if (headerIndex === -1) {
+    throw new Error('The speech dataset CSV must contain a "class" column with 0/1 labels.');
+  }
+  const headers = records[headerIndex].map((column) => column.trim());
+  const statusIndex = headers.lastIndexOf('class');
+
+  const missingRequired = [...new Set(['baseline', ...requiredGroups] as VoiceFeatureGroup[])]
+    .flatMap((group) => featureGroups[group])
+    .filter((key) => !headers.includes(key));
+  if (missingRequired.length) {
+    throw new Error(`The speech dataset CSV is missing required feature columns: ${missingRequired.join(', ')}`);
+  }
+  const missingColumns: VoiceFeatureKey[] = [];
+  const presentGroups = (Object.keys(featureGroups) as VoiceFeatureGroup[]).filter((group) => {
+    const missing = featureGroups[group].filter((key) => !headers.includes(key));
+    // A group that is absent altogether is simply not part of this dataset.
+    if (missing.length < featureGroups[group].length) {
+      missingColumns.push(...missing);
+    }
+    return !missing.length;
+  });
+  const columns = presentGroups.flatMap((group) => featureGroups[group]);
+  const columnIndices = columns.map((key) => headers.indexOf(key));
+  // Without an id column every recording is treated as its own subject.
+  const idIndex = headers.indexOf('id');
+  if (idIndex === -1) {
+    console.warn('[KNN] The speech dataset has no "id" column; cross-validation cannot group recordings by subject.');
+  }
+
+  const droppedRows: VoiceDatasetValidationReport['droppedRows'] = [];
+  const missingValues: Partial<Record<VoiceFeatureKey, number>> = {};
+  const parsed: Array<{ values: number[]; label: VoiceClass; subjectId: string }> = [];
+  const dataRecords = records.slice(headerIndex + 1);
+  dataRecords.forEach((record, offset) => {
+    const row = headerIndex + offset + 2;
+    if (record.every((cell) => !cell.trim())) {
+      return;
+    }
+    if (record.length !== headers.length) {
+      droppedRows.push({ row, reason: `has ${record.length} columns but the header has ${headers.length}` });
+      return;
+    }
+    const labelRaw = Number.parseFloat(record[statusIndex]);
+    if (!Number.isFinite(labelRaw)) {
+      droppedRows.push({ row, reason: `has no numeric class label ("${record[statusIndex]}")` });
+      return;
+    }
+    const values = columnIndices.map((index, column) => {
+      const cell = record[index].trim();
+      const value = cell ? Number(cell) : Number.NaN;
+      if (!Number.isFinite(value)) {
+        missingValues[columns[column]] = (missingValues[columns[column]] ?? 0) + 1;
+      }
+      return value;
+    });
+    const subjectId = idIndex === -1 || !record[idIndex].trim() ? `row-${row}` : record[idIndex].trim();
+    parsed.push({ values, label: labelRaw >= 0.5 ? 'Parkinsons' : 'Healthy', subjectId });
+  });
+  if (!parsed.length) {
+    throw new Error('No usable data rows were found in the speech dataset CSV.');
+  }
+
+  const subjectRows = new Map<string, { rows: number; labels: Set<VoiceClass> }>();
+  parsed.forEach(({ subjectId, label }) => {
+    const entry = subjectRows.get(subjectId) ?? { rows: 0, labels: new Set<VoiceClass>() };
+    entry.rows += 1;
+    entry.labels.add(label);
+    subjectRows.set(subjectId, entry);
+  });
+  const conflicting = [...subjectRows].filter(([, entry]) => entry.labels.size > 1).map(([subjectId]) => subjectId);
+  if (conflicting.length) {
+    throw new Error(`Subject ids with recordings of both classes in the speech dataset CSV: ${conflicting.join(', ')}`);
+  }
+
+  const fills = columns.map((key, column) => {
+    const observed = (label?: VoiceClass) =>
+      parsed
+        .filter((sample) => !label || sample.label === label)
+        .map((sample) => sample.values[column])
+        .filter((value) => Number.isFinite(value));
+    const overall = observed();
+    if (!overall.length) {
+      throw new Error(`Feature column ${key} in the speech dataset CSV has no numeric values.`);
+    }
+    const overallMedian = median(overall);
+    const byClass = (label: VoiceClass) => {
+      const values = observed(label);
+      return imputation === 'class-median' && values.length ? median(values) : overallMedian;
+    };
+    return { Parkinsons: byClass('Parkinsons'), Healthy: byClass('Healthy'), overall: overallMedian };
+  });
+
+  const fillRow = (values: number[], fill: 'overall' | VoiceClass) =>
+    columns.reduce((features, key, column) => {
+      features[key] = Number.isFinite(values[column]) ? values[column] : fills[column][fill];
+      return features;
+    }, {} as VoiceFeatureVector);
+  const samples = parsed.map(({ values, label, subjectId }): VoiceDatasetSample => ({
+    features: fillRow(values, label),
+    label,
+    subjectId,
+    ...(imputation === 'class-median' && values.some((value) => !Number.isFinite(value))
+      ? { unlabelledFeatures: fillRow(values, 'overall') }
+      : {}),
+  }));
+
+  return {
+    samples,
+    featureGroups: presentGroups,
+    validation: {
+      rows: dataRecords.filter((record) => record.some((cell) => cell.trim())).length,
+      droppedRows,
+      missingColumns,
+      missingValues,
+      imputation,
+      classBalance: {
+        Parkinsons: samples.filter((sample) => sample.label === 'Parkinsons').length,
+        Healthy: samples.filter((sample) => sample.label === 'Healthy').length,
+      },
+      subjects: subjectRows.size,
+      duplicateSubjectIds: [...subjectRows]
+        .filter(([, entry]) => entry.rows > 1)
+        .map(([subjectId, entry]) => ({ subjectId, rows: entry.rows })),
+    },
+  };
+}
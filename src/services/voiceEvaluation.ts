@@ -0,0 +1,223 @@
+import { createVoiceClassifier, LabelledVector, VoiceClassifierConfig } from './voiceClassifiers';
+
+// Cross-validation for the voice model. The speech dataset holds several
+// recordings per subject, so folds are always built from whole subjects;
+// splitting a subject's recordings across training and test sets lets the
+// model recognise the speaker instead of the condition.
+
+export type VoiceEvaluationStrategy = 'leave-one-subject-out' | 'stratified-k-fold';
+
+export interface EvaluationSample extends LabelledVector {
+  subjectId: string;
+  heldOutVector?: number[]; // scored instead of vector when held out, where imputation used the label
+}
+
+// Parkinson's is the positive class.
+export interface ConfusionMatrix {
+  truePositive: number;
+  falseNegative: number;
+  trueNegative: number;
+  falsePositive: number;
+}
+
+export interface FoldSpread {
+  mean: number;
+  variance: number; // sample variance across the folds where the metric is defined
+}
+
+export interface VoiceModelEvaluation {
+  strategy: VoiceEvaluationStrategy;
+  folds: number;
+  subjects: number;
+  accuracy: number;
+  sensitivity: number | null; // null when there are no Parkinson's recordings
+  specificity: number | null; // null when there are no healthy recordings
+  rocAuc: number | null; // null unless both classes are present
+  confusionMatrix: ConfusionMatrix;
+  perFold: {
+    accuracy: FoldSpread;
+    sensitivity: FoldSpread | null;
+    specificity: FoldSpread | null;
+  };
+}
+
+export interface CrossValidationResult {
+  evaluation: VoiceModelEvaluation;
+  outOfFoldProbabilities: number[]; // aligned with the input samples
+  foldOf: number[]; // fold that held out each sample
+}
+
+export const STRATIFIED_FOLDS = 10;
+
+const ratio = (numerator: number, denominator: number) => (denominator ? numerator / denominator : null);
+
+function confusionMatrix(labels: LabelledVector['label'][], probabilities: number[]): ConfusionMatrix {
+  const matrix: ConfusionMatrix = { truePositive: 0, falseNegative: 0, trueNegative: 0, falsePositive: 0 };
+  labels.forEach((label, index) => {
+    const predictedPositive = probabilities[index] >= 0.5;
+    if (label === 'Parkinsons') {
+      matrix[predictedPositive ? 'truePositive' : 'falseNegative'] += 1;
+    } else {
+      matrix[predictedPositive ? 'falsePositive' : 'trueNegative'] += 1;
+    }
+  });
+  return matrix;
+}
+
+/**
+ * Area under the ROC curve via the Mann-Whitney U statistic, with tied scores
+ * sharing their average rank.
+ */
+export function rocAuc(labels: LabelledVector['label'][], probabilities: number[]): number | null {
+  const positives = labels.filter((label) => label === 'Parkinsons').length;
+  const negatives = labels.length - positives;
+  if (!positives || !negatives) {
+    return null;
+  }
+  const order = probabilities.map((probability, index) => ({ probability, index })).sort((a, b) => a.probability - b.probability);
+  let positiveRankSum = 0;
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].probability === order[start].probability) {
+      end += 1;
+    }
+    const averageRank = (start + end) / 2 + 1;
+    for (let position = start; position <= end; position += 1) {
+      if (labels[order[position].index] === 'Parkinsons') {
+        positiveRankSum += averageRank;
+      }
+    }
+    start = end + 1;
+  }
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+function spread(values: Array<number | null>): FoldSpread | null {
+  const defined = values.filter((value): value is number => value !== null);
+  if (!defined.length) {
+    return null;
+  }
+  const valueMean = defined.reduce((sum, value) => sum + value, 0) / defined.length;
+  const variance = defined.length > 1
+    ? defined.reduce((sum, value) => sum + (value - valueMean) ** 2, 0) / (defined.length - 1)
+    : 0;
+  return { mean: valueMean, variance };
+}
+
+/**
+ * Assigns every sample to a fold, keeping each subject's recordings together.
+ * Stratified k-fold deals the subjects of each class round-robin over the
+ * folds, so every fold keeps roughly the dataset's class balance.
+ */
+export function assignSubjectFolds(
+  samples: EvaluationSample[],
+  strategy: VoiceEvaluationStrategy,
+  folds = STRATIFIED_FOLDS,
+): { foldOf: number[]; foldCount: number } {
+  const subjects = new Map<string, EvaluationSample['label']>();
+  samples.forEach((sample) => {
+    const existing = subjects.get(sample.subjectId);
+    if (existing && existing !== sample.label) {
+      throw new Error(`Subject ${sample.subjectId} has recordings with both class labels.`);
+    }
+    subjects.set(sample.subjectId, sample.label);
+  });
+  const subjectIds = [...subjects.keys()].sort();
+
+  const subjectFold = new Map<string, number>();
+  let foldCount: number;
+  if (strategy === 'leave-one-subject-out') {
+    subjectIds.forEach((subjectId, index) => subjectFold.set(subjectId, index));
+    foldCount = subjectIds.length;
+  } else {
+    foldCount = Math.max(2, Math.min(folds, subjectIds.length));
+    let next = 0;
+    (['Parkinsons', 'Healthy'] as const).forEach((label) => {
+      subjectIds
+        .filter((subjectId) => subjects.get(subjectId) === label)
+        .forEach((subjectId) => {
+          subjectFold.set(subjectId, next % foldCount);
+          next += 1;
+        });
+    });
+  }
+  return { foldOf: samples.map((sample) => subjectFold.get(sample.subjectId)!), foldCount };
+}
+
+/**
+ * Pooled metrics over out-of-fold probabilities, plus their spread across the
+ * folds given by `foldOf`.
+ */
+export function evaluateOutOfFoldPredictions(
+  samples: EvaluationSample[],
+  probabilities: number[],
+  foldOf: number[],
+  strategy: VoiceEvaluationStrategy,
+): VoiceModelEvaluation {
+  const foldCount = Math.max(...foldOf) + 1;
+  const foldMetrics = Array.from({ length: foldCount }, (_, fold) => {
+    const testIndices = samples.map((_, index) => index).filter((index) => foldOf[index] === fold);
+    const matrix = confusionMatrix(
+      testIndices.map((index) => samples[index].label),
+      testIndices.map((index) => probabilities[index]),
+    );
+    return {
+      accuracy: ratio(matrix.truePositive + matrix.trueNegative, testIndices.length),
+      sensitivity: ratio(matrix.truePositive, matrix.truePositive + matrix.falseNegative),
+      specificity: ratio(matrix.trueNegative, matrix.trueNegative + matrix.falsePositive),
+    };
+  });
+
+  const labels = samples.map((sample) => sample.label);
+  const matrix = confusionMatrix(labels, probabilities);
+  return {
+    strategy,
+    folds: foldCount,
+    subjects: new Set(samples.map((sample) => sample.subjectId)).size,
+    accuracy: (matrix.truePositive + matrix.trueNegative) / samples.length,
+    sensitivity: ratio(matrix.truePositive, matrix.truePositive + matrix.falseNegative),
+    specificity: ratio(matrix.trueNegative, matrix.trueNegative + matrix.falsePositive),
+    rocAuc: rocAuc(labels, probabilities),
+    confusionMatrix: matrix,
+    perFold: {
+      accuracy: spread(foldMetrics.map((metrics) => metrics.accuracy))!,
+      sensitivity: spread(foldMetrics.map((metrics) => metrics.sensitivity)),
+      specificity: spread(foldMetrics.map((metrics) => metrics.specificity)),
+    },
+  };
+}
+
+/**
+ * Fits a fresh classifier per fold and scores the held-out subjects, returning
+ * pooled metrics, their spread across folds and the out-of-fold probabilities.
+ */
+export function crossValidateVoiceClassifier(
+  samples: EvaluationSample[],
+  config: VoiceClassifierConfig,
+  strategy: VoiceEvaluationStrategy,
+  onProgress?: (fraction: number) => void,
+): CrossValidationResult | null {
+  const { foldOf, foldCount } = assignSubjectFolds(samples, strategy);
+  if (foldCount < 2) {
+    return null;
+  }
+  const probabilities = new Array<number>(samples.length).fill(0);
+  for (let fold = 0; fold < foldCount; fold += 1) {
+    if (onProgress && fold % Math.max(1, Math.floor(foldCount / 48)) === 0) {
+      onProgress(fold / foldCount);
+    }
+    const classifier = createVoiceClassifier(config);
+    classifier.train(samples.filter((_, index) => foldOf[index] !== fold));
+    samples.forEach((sample, index) => {
+      if (foldOf[index] === fold) {
+        probabilities[index] = classifier.predict(sample.heldOutVector ?? sample.vector).probabilityOfParkinsons;
+      }
+    });
+  }
+  return {
+    evaluation: evaluateOutOfFoldPredictions(samples, probabilities, foldOf, strategy),
+    outOfFoldProbabilities: probabilities,
+    foldOf,
+  };
+}
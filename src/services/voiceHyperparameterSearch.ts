@@ -0,0 +1,103 @@
+import {
+  KNN_DISTANCE_METRICS,
+  KNN_WEIGHTINGS,
+  VoiceClassifierAlgorithm,
+  VoiceClassifierParameters,
+} from './voiceClassifiers';
+import { crossValidateVoiceClassifier, EvaluationSample, VoiceEvaluationStrategy } from './voiceEvaluation';
+import type { VoiceFeatureGroup } from './voiceKnnModel';
+
+// Grid search over classifier hyperparameters, scored with the same
+// subject-grouped cross-validation the model metadata reports.
+
+export interface HyperparameterCandidate {
+  parameters: VoiceClassifierParameters;
+  rocAuc: number | null;
+  balancedAccuracy: number | null; // mean of sensitivity and specificity
+  accuracy: number;
+}
+
+export interface HyperparameterSearchResult {
+  algorithm: VoiceClassifierAlgorithm;
+  featureGroups: VoiceFeatureGroup[];
+  strategy: VoiceEvaluationStrategy;
+  criterion: 'rocAuc';
+  selected: VoiceClassifierParameters;
+  candidates: HyperparameterCandidate[]; // best first
+  searchedAt: string;
+}
+
+export const KNN_K_CANDIDATES = [1, 3, 5, 7, 9, 11, 15];
+
+export const KNN_SEARCH_GRID: VoiceClassifierParameters[] = KNN_K_CANDIDATES.flatMap((k) =>
+  KNN_DISTANCE_METRICS.flatMap((metric) => KNN_WEIGHTINGS.map((weighting) => ({ k, metric, weighting }))),
+);
+
+// Higher AUC wins; balanced accuracy breaks ties, because plain accuracy
+// rewards predicting the majority (Parkinson's) class.
+function compareCandidates(a: HyperparameterCandidate, b: HyperparameterCandidate): number {
+  return (b.rocAuc ?? -1) - (a.rocAuc ?? -1) || (b.balancedAccuracy ?? -1) - (a.balancedAccuracy ?? -1);
+}
+
+/**
+ * Cross-validates every parameter set in the grid and returns them ranked,
+ * with the winner as `selected`.
+ */
+export function searchHyperparameters(
+  samples: EvaluationSample[],
+  algorithm: VoiceClassifierAlgorithm,
+  grid: VoiceClassifierParameters[],
+  strategy: VoiceEvaluationStrategy,
+  onProgress?: (fraction: number) => void,
+): Omit<HyperparameterSearchResult, 'featureGroups'> {
+  if (!grid.length) {
+    throw new Error('The hyperparameter grid is empty.');
+  }
+  const candidates = grid.map((parameters, index) => {
+    const result = crossValidateVoiceClassifier(samples, { algorithm, parameters }, strategy, (fraction) =>
+      onProgress?.((index + fraction) / grid.length),
+    );
+    if (!result) {
+      throw new Error('The dataset is too small to cross-validate hyperparameters.');
+    }
+    const { rocAuc, sensitivity, specificity, accuracy } = result.evaluation;
+    return {
+      parameters,
+      rocAuc,
+      balancedAccuracy: sensitivity !== null && specificity !== null ? (sensitivity + specificity) / 2 : null,
+      accuracy,
+    };
+  });
+  candidates.sort(compareCandidates);
+  onProgress?.(1);
+  return {
+    algorithm,
+    strategy,
+    criterion: 'rocAuc',
+    selected: candidates[0].parameters,
+    candidates,
+    searchedAt: new Date().toISOString(),
+  };
+}
+
+// The winning configuration is kept per browser, so the search only runs when
+// the model is first loaded or the feature groups change.
+const SEARCH_STORAGE_KEY = 'voice_hyperparameter_search';
+
+export function loadHyperparameterSearch(): HyperparameterSearchResult | null {
+  try {
+    const stored = localStorage.getItem(SEARCH_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as HyperparameterSearchResult) : null;
+  } catch (storageError) {
+    console.warn('[Hyperparameter search] Could not read the saved search:', storageError);
+    return null;
+  }
+}
+
+export function saveHyperparameterSearch(search: HyperparameterSearchResult) {
+  try {
+    localStorage.setItem(SEARCH_STORAGE_KEY, JSON.stringify(search));
+  } catch (storageError) {
+    console.warn('[Hyperparameter search] Could not save the search result:', storageError);
+  }
+}
@@ -1,4 +1,60 @@
-type VoiceClass = 'Parkinsons' | 'Healthy';
+import { selectAnalysisSegments, VoiceSegmentationOptions } from './voiceActivity';
+import { attributeVoicePrediction, selectAttributionReferences, VoiceFeatureAttributions } from './voiceAttributions';
+import {
+  applyCalibrationTransform,
+  calibrationAffects,
+  CalibrationMethod,
+  CalibrationTransform,
+  deriveCalibrationTransform,
+  VoiceCalibration,
+} from './voiceCalibration';
+import {
+  createVoiceClassifier,
+  describeVoiceClassifier,
+  deserializeVoiceClassifier,
+  parseVoiceClassifierConfig,
+  VoiceClass,
+  VoiceClassifier,
+  VoiceClassifierAlgorithm,
+  VoiceClassifierConfig,
+  VoiceClassifierParameters,
+} from './voiceClassifiers';
+import {
+  parseVoiceDataset,
+  VoiceDataset,
+  VoiceDatasetSample,
+  VoiceDatasetValidationReport,
+  VoiceImputationStrategy,
+} from './voiceDataset';
+import {
+  crossValidateVoiceClassifier,
+  evaluateOutOfFoldPredictions,
+  EvaluationSample,
+  VoiceEvaluationStrategy,
+  VoiceModelEvaluation,
+} from './voiceEvaluation';
+import { HyperparameterSearchResult, KNN_SEARCH_GRID, searchHyperparameters } from './voiceHyperparameterSearch';
+import { computeMfccFeatures, MFCC_FEATURE_COLUMNS, MfccFeatureKey } from './voiceMfcc';
+import {
+  fetchVoiceModelArtifact,
+  sha256Hex,
+  VOICE_MODEL_ARTIFACT_VERSION,
+  VoiceModelArtifact,
+} from './voiceModelArtifact';
+import {
+  detectOutOfDistribution,
+  fitOutOfDistributionModel,
+  OutOfDistributionModel,
+  OutOfDistributionReport,
+} from './voiceOutOfDistribution';
+import {
+  calibrateProbability,
+  crossFitProbabilityCalibration,
+  ProbabilityCalibrationMethod,
+  ProbabilityCalibrationReport,
+} from './voiceProbabilityCalibration';
+import { computeProsodyFeatures, VoiceProsodyFeatures } from './voiceProsody';
+import { assessVoiceQuality, VoiceQualityReport, VoiceQualityThresholds } from './voiceQuality';
 
 const FEATURE_COLUMNS = [
   'meanPeriodPulses',
@@ -19,44 +75,97 @@ const FEATURE_COLUMNS = [
   'meanHarmToNoiseHarmonicity',
 ] as const;
 
-type FeatureKey = (typeof FEATURE_COLUMNS)[number];
+export type BaselineFeatureKey = (typeof FEATURE_COLUMNS)[number];
 
-export type VoiceFeatureVector = Record<FeatureKey, number>;
+export type VoiceFeatureKey = BaselineFeatureKey | MfccFeatureKey;
 
-interface VoiceDatasetSample {
-  features: VoiceFeatureVector;
-  label: VoiceClass;
-}
+export type VoiceFeatureGroup = 'baseline' | 'mfcc';
 
-interface NormalisedSample {
-  vector: number[];
-  label: VoiceClass;
-}
+const FEATURE_GROUPS: Record<VoiceFeatureGroup, readonly VoiceFeatureKey[]> = {
+  baseline: FEATURE_COLUMNS,
+  mfcc: MFCC_FEATURE_COLUMNS,
+};
+
+// The baseline Praat measures are always present; the MFCC group is filled in
+// whenever it has been extracted (recordings) or found in the dataset header.
+export type VoiceFeatureVector = Record<BaselineFeatureKey, number> & Partial<Record<MfccFeatureKey, number>>;
 
 interface FeatureStat {
   mean: number;
   std: number;
+  min: number;
+  max: number;
 }
 
 export interface VoiceModelMetadata {
-  k: number;
-  accuracy: number | null;
+  algorithm: VoiceClassifierAlgorithm;
+  parameters: VoiceClassifierParameters; // including the algorithm's defaults
+  evaluation: VoiceModelEvaluation | null; // of the calibrated probabilities; null when the dataset is too small to cross-validate or the parameters were searched
+  // The same metrics when a hyperparameter search chose the parameters on these
+  // folds: the winner's scores are optimistic, so they are kept apart from evaluation.
+  selectionScores: VoiceModelEvaluation | null;
+  datasetValidation: VoiceDatasetValidationReport;
+  probabilityCalibration: ProbabilityCalibrationReport | null; // null when the scores could not be cross-validated
+  hyperparameterSearch: HyperparameterSearchResult | null; // set when the parameters came from a search
+  modelArtifact: { version: number; createdAt: string; datasetSha256: string } | null; // set when loaded precompiled
   sampleCount: number;
-  features: FeatureKey[];
+  featureGroups: VoiceFeatureGroup[];
+  features: VoiceFeatureKey[];
+}
+
+export type ProgressCallback = (fraction: number) => void;
+
+export interface VoiceModelTrainingOptions {
+  classifier?: VoiceClassifierConfig;
+  featureGroups?: VoiceFeatureGroup[];
+  evaluation?: VoiceEvaluationStrategy;
+  probabilityCalibration?: ProbabilityCalibrationMethod;
+  hyperparameterSearch?: HyperparameterSearchResult | null;
+  tune?: boolean;
+  onProgress?: ProgressCallback;
+}
+
+export interface DecodedVoiceRecording {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface VoiceSignalAnalysis {
+  quality: VoiceQualityReport;
+  features: VoiceFeatureVector | null; // null when the recording failed the quality gate
+  prosody: VoiceProsodyFeatures | null; // connected-speech prompts only
 }
 
 export interface VoicePrediction {
   label: VoiceClass;
-  probabilityOfParkinsons: number;
-  neighbourVotes: Array<{ label: VoiceClass; distance: number }>; // sorted nearest-first
-  k: number;
+  probabilityOfParkinsons: number; // calibrated when the model has a probability calibration
+  probabilityInterval: [number, number] | null; // 95% interval of the calibrated probability
+  rawScore: number; // the classifier's uncalibrated output
+  probabilityCalibration: ProbabilityCalibrationMethod | null;
+  neighbourVotes: Array<{ label: VoiceClass; distance: number }>; // sorted nearest-first; KNN only
+  algorithm: VoiceClassifierAlgorithm;
+  parameters: VoiceClassifierParameters;
+  calibration: { profileId: string; method: CalibrationMethod } | null; // microphone profile applied to the features
+  outOfDistribution: OutOfDistributionReport; // how far the features are from the training dataset
+  attributions: VoiceFeatureAttributions; // how each normalised feature moved the probability
+}
+
+export interface MicrophoneCalibrationResult {
+  transform: CalibrationTransform;
+  quality: VoiceQualityReport[]; // one report per reference recording
 }
 
 const DATASET_URL = '/data/pd_speech_features.csv';
 
-let datasetPromise: Promise<VoiceDatasetSample[]> | null = null;
-let featureStats: Record<FeatureKey, FeatureStat> | null = null;
-let trainingSamples: NormalisedSample[] | null = null;
+let datasetPromise: Promise<VoiceDataset> | null = null;
+let artifactPromise: Promise<VoiceModelArtifact | null> | null = null;
+let featureStats: Partial<Record<VoiceFeatureKey, FeatureStat>> | null = null;
+let activeColumns: VoiceFeatureKey[] = [...FEATURE_COLUMNS];
+let trainedClassifier: VoiceClassifier | null = null;
+let trainedClassifierKey: string | null = null;
+let trainedProbabilityCalibration: ProbabilityCalibrationReport | null = null;
+let trainedOutOfDistributionModel: OutOfDistributionModel | null = null;
+let attributionReferences: number[][] = [];
 let trainedMetadata: VoiceModelMetadata | null = null;
 
 function mean(values: number[]): number {
@@ -75,88 +184,67 @@ function standardDeviation(values: number[], valueMean: number): number {
   return Math.sqrt(Math.max(variance, 0));
 }
 
-function averageAbsoluteDiff(values: number[]): number {
-  if (values.length < 2) {
-    return 0;
-  }
+function averageAbsoluteDiff(runs: number[][]): number {
   let accumulator = 0;
-  for (let index = 0; index < values.length - 1; index += 1) {
-    accumulator += Math.abs(values[index] - values[index + 1]);
-  }
-  return accumulator / (values.length - 1);
-}
-
-function computeRAP(periods: number[], meanPeriod: number): number {
-  if (periods.length < 3 || meanPeriod === 0) {
-    return 0;
-  }
-  let sum = 0;
   let count = 0;
-  for (let index = 1; index < periods.length - 1; index += 1) {
-    const localMean = (periods[index - 1] + periods[index] + periods[index + 1]) / 3;
-    sum += Math.abs(periods[index] - localMean);
-    count += 1;
-  }
-  if (!count) {
-    return 0;
-  }
-  return sum / count / meanPeriod;
+  runs.forEach((values) => {
+    for (let index = 1; index < values.length; index += 1) {
+      accumulator += Math.abs(values[index] - values[index - 1]);
+      count += 1;
+    }
+  });
+  return count ? accumulator / count : 0;
 }
 
-function computePPQ(periods: number[], meanPeriod: number): number {
-  if (periods.length < 5 || meanPeriod === 0) {
-    return 0;
-  }
-  let sum = 0;
+function averageAbsoluteSecondDiff(runs: number[][]): number {
+  let accumulator = 0;
   let count = 0;
-  for (let index = 2; index < periods.length - 2; index += 1) {
-    const localMean =
-      (periods[index - 2] + periods[index - 1] + periods[index] + periods[index + 1] + periods[index + 2]) / 5;
-    sum += Math.abs(periods[index] - localMean);
-    count += 1;
-  }
-  if (!count) {
-    return 0;
-  }
-  return sum / count / meanPeriod;
+  runs.forEach((values) => {
+    for (let index = 1; index < values.length - 1; index += 1) {
+      accumulator += Math.abs(values[index + 1] - 2 * values[index] + values[index - 1]);
+      count += 1;
+    }
+  });
+  return count ? accumulator / count : 0;
 }
 
-function computeApq(amplitudes: number[], meanAmplitude: number, windowSize: number): number {
-  if (amplitudes.length < windowSize || meanAmplitude === 0) {
+// Mean absolute deviation of each value from the average of its `windowSize`
+// neighbourhood, relative to `reference`. RAP is windowSize 3, PPQ5 is 5 and the
+// APQ shimmer variants use 3, 5 and 11.
+function computePerturbationQuotient(runs: number[][], reference: number, windowSize: number): number {
+  if (reference === 0) {
     return 0;
   }
   const half = Math.floor(windowSize / 2);
   let sum = 0;
   let count = 0;
-  for (let index = half; index < amplitudes.length - half; index += 1) {
-    let windowTotal = 0;
-    for (let offset = -half; offset <= half; offset += 1) {
-      windowTotal += amplitudes[index + offset];
+  runs.forEach((values) => {
+    for (let index = half; index < values.length - half; index += 1) {
+      let windowTotal = 0;
+      for (let offset = -half; offset <= half; offset += 1) {
+        windowTotal += values[index + offset];
+      }
+      sum += Math.abs(values[index] - windowTotal / windowSize);
+      count += 1;
     }
-    const windowMean = windowTotal / windowSize;
-    sum += Math.abs(amplitudes[index] - windowMean);
-    count += 1;
-  }
+  });
   if (!count) {
     return 0;
   }
-  return sum / count / meanAmplitude;
+  return sum / count / reference;
 }
 
-function computeShimmerDb(amplitudes: number[]): number {
-  if (amplitudes.length < 2) {
-    return 0;
-  }
+function computeShimmerDb(runs: number[][]): number {
   const epsilon = 1e-8;
   let sum = 0;
   let count = 0;
-  for (let index = 0; index < amplitudes.length - 1; index += 1) {
-    const current = amplitudes[index] + epsilon;
-    const next = amplitudes[index + 1] + epsilon;
-    const ratio = next / current;
-    sum += Math.abs(20 * Math.log10(ratio));
-    count += 1;
-  }
+  runs.forEach((amplitudes) => {
+    for (let index = 1; index < amplitudes.length; index += 1) {
+      const ratio = (amplitudes[index] + epsilon) / (amplitudes[index - 1] + epsilon);
+      sum += Math.abs(20 * Math.log10(ratio));
+      count += 1;
+    }
+  });
   return count ? sum / count : 0;
 }
 
@@ -174,20 +262,46 @@ function hannWindow(data: Float32Array): Float32Array {
   return windowed;
 }
 
+// Praat's default octave cost: favours the shorter of two near-equal lags so
+// the normalised autocorrelation does not lock onto subharmonics.
+const OCTAVE_COST = 0.01;
+
+// Normalised autocorrelation of the analysis window itself (Boersma 1993).
+// Dividing a frame's autocorrelation by this removes the taper the window
+// imposes on longer lags, so a perfectly periodic frame peaks at 1.
+function windowAutocorrelation(frameSize: number, maxLag: number): Float64Array {
+  const window = hannWindow(new Float32Array(frameSize).fill(1));
+  const result = new Float64Array(maxLag + 2);
+  let energy = 0;
+  for (let index = 0; index < frameSize; index += 1) {
+    energy += window[index] * window[index];
+  }
+  for (let lag = 0; lag < result.length; lag += 1) {
+    let sum = 0;
+    for (let index = 0; index < frameSize - lag; index += 1) {
+      sum += window[index] * window[index + lag];
+    }
+    result[lag] = energy ? sum / energy : 0;
+  }
+  return result;
+}
+
 function analyseFrame(
   input: Float32Array,
   sampleRate: number,
   minLag: number,
   maxLag: number,
+  windowCorrelation: Float64Array,
 ): { frequency: number | null; correlation: number; rms: number } {
   if (input.length === 0) {
     return { frequency: null, correlation: 0, rms: 0 };
   }
-  const windowed = hannWindow(input);
-  const meanValue = mean(Array.from(windowed));
-  for (let index = 0; index < windowed.length; index += 1) {
-    windowed[index] -= meanValue;
+  const centred = new Float32Array(input.length);
+  const meanValue = mean(Array.from(input));
+  for (let index = 0; index < input.length; index += 1) {
+    centred[index] = input[index] - meanValue;
   }
+  const windowed = hannWindow(centred);
 
   let energy = 0;
   for (let index = 0; index < windowed.length; index += 1) {
@@ -198,18 +312,38 @@ function analyseFrame(
     return { frequency: null, correlation: 0, rms };
   }
 
-  let bestCorrelation = 0;
-  let bestLag = 0;
-
-  for (let lag = minLag; lag <= maxLag; lag += 1) {
+  const lastLag = Math.min(maxLag + 1, windowed.length - 1, windowCorrelation.length - 1);
+  const correlations = new Float64Array(lastLag + 1);
+  for (let lag = Math.max(1, minLag - 1); lag <= lastLag; lag += 1) {
     let sum = 0;
     for (let index = 0; index < windowed.length - lag; index += 1) {
       sum += windowed[index] * windowed[index + lag];
     }
-    const correlation = sum / energy;
-    if (correlation > bestCorrelation) {
-      bestCorrelation = correlation;
-      bestLag = lag;
+    correlations[lag] = windowCorrelation[lag] > 0 ? sum / energy / windowCorrelation[lag] : 0;
+  }
+
+  let bestCorrelation = 0;
+  let bestLag = 0;
+  let bestScore = -Infinity;
+
+  for (let lag = Math.max(minLag, 1); lag <= Math.min(maxLag, lastLag - 1); lag += 1) {
+    const previous = correlations[lag - 1];
+    const current = correlations[lag];
+    const next = correlations[lag + 1];
+    if (current < previous || current < next || current <= 0) {
+      continue;
+    }
+    // Parabolic interpolation of the peak: at 44.1 kHz half a sample of lag
+    // error is enough to shave a couple of dB off a clean voice's HNR.
+    const denominator = previous - 2 * current + next;
+    const offset = denominator < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (previous - next)) / denominator)) : 0;
+    const peakLag = lag + offset;
+    const peakCorrelation = Math.min(current - 0.25 * (previous - next) * offset, 1);
+    const score = peakCorrelation - OCTAVE_COST * Math.log2((peakLag * 60) / sampleRate);
+    if (score > bestScore) {
+      bestScore = score;
+      bestCorrelation = peakCorrelation;
+      bestLag = peakLag;
     }
   }
 
@@ -225,7 +359,7 @@ function analyseFrame(
   return { frequency, correlation: bestCorrelation, rms };
 }
 
-async function loadDataset(): Promise<VoiceDatasetSample[]> {
+async function loadDataset(): Promise<VoiceDataset> {
   if (!datasetPromise) {
     datasetPromise = fetch(DATASET_URL)
       .then(async (response) => {
@@ -236,173 +370,131 @@ async function loadDataset(): Promise<VoiceDatasetSample[]> {
         }
         return response.text();
       })
-      .then(parseCsvDataset);
+      .then((csvText) => parseDataset(csvText, DEFAULT_IMPUTATION, normaliseFeatureGroups(undefined)));
   }
   return datasetPromise;
 }
 
-function parseCsvDataset(csvText: string): VoiceDatasetSample[] {
-  const trimmed = csvText.trim();
-  if (!trimmed) {
-    throw new Error('The speech dataset CSV is empty.');
-  }
-  const rows = trimmed.split(/\r?\n/);
-  let header: string | undefined;
-  while (rows.length && !header) {
-    const candidate = rows.shift();
-    if (!candidate) continue;
-    const cells = candidate.split(',');
-    if (cells.some((cell) => cell.trim().length > 0) && cells.includes('class')) {
-      header = candidate;
-    }
-  }
-  if (!header) {
-    throw new Error('Missing header row in the speech dataset CSV.');
-  }
-  const headers = header.split(',').map((column) => column.trim());
-  const statusIndex = headers.lastIndexOf('class');
-  if (statusIndex === -1) {
-    throw new Error('The speech dataset CSV must contain a "class" column with 0/1 labels.');
+const parseImputationStrategy = (value: string | undefined): VoiceImputationStrategy =>
+  value?.trim() === 'class-median' ? 'class-median' : 'median';
+
+// How empty or non-numeric dataset cells are filled, configurable through
+// VITE_VOICE_IMPUTATION ("median" or "class-median").
+const DEFAULT_IMPUTATION = parseImputationStrategy(import.meta.env?.VITE_VOICE_IMPUTATION);
+
+// The configured groups are required, so a dataset that lacks any of their
+// columns fails to load rather than quietly training on fewer features.
+function parseDataset(
+  csvText: string,
+  imputation: VoiceImputationStrategy,
+  requiredGroups: VoiceFeatureGroup[],
+): VoiceDataset {
+  const dataset = parseVoiceDataset(csvText, FEATURE_GROUPS, imputation, requiredGroups);
+  const { droppedRows, missingValues, missingColumns } = dataset.validation;
+  if (droppedRows.length || Object.keys(missingValues).length || missingColumns.length) {
+    console.warn('[KNN] The speech dataset needed cleaning:', dataset.validation);
   }
+  return dataset;
+}
 
-  const featureIndices = FEATURE_COLUMNS.map((key) => {
-    const index = headers.indexOf(key);
-    if (index === -1) {
-      throw new Error(`The speech dataset CSV is missing required feature column: ${key}`);
-    }
-    return index;
-  });
+function resolveFeatureColumns(groups: VoiceFeatureGroup[]): VoiceFeatureKey[] {
+  return groups.flatMap((group) => FEATURE_GROUPS[group]);
+}
 
-  const samples: VoiceDatasetSample[] = [];
+function parseFeatureGroups(value: string | undefined): VoiceFeatureGroup[] {
+  const names = (value ?? '')
+    .split(',')
+    .map((group) => group.trim())
+    .filter(Boolean);
+  const groups = names.filter((group): group is VoiceFeatureGroup => Object.hasOwn(FEATURE_GROUPS, group));
+  if (groups.length < names.length) {
+    console.warn('[KNN] Unknown feature group(s) in VITE_VOICE_FEATURE_GROUPS:', names.filter((name) => !groups.includes(name as VoiceFeatureGroup)));
+  }
+  return groups.length ? groups : ['baseline'];
+}
 
-  rows.forEach((row, rowIndex) => {
-    if (!row.trim()) {
-      return;
-    }
-    const columns = row.split(',');
-    if (columns.length !== headers.length) {
-      throw new Error(`Row ${rowIndex + 2} has ${columns.length} columns but expected ${headers.length}.`);
-    }
-    const labelRaw = Number.parseFloat(columns[statusIndex]);
-    const label: VoiceClass = labelRaw >= 0.5 ? 'Parkinsons' : 'Healthy';
-    const features = FEATURE_COLUMNS.reduce<VoiceFeatureVector>((accumulator, key, featureOffset) => {
-      const value = Number.parseFloat(columns[featureIndices[featureOffset]]);
-      accumulator[key] = Number.isFinite(value) ? value : 0;
-      return accumulator;
-    }, {} as VoiceFeatureVector);
-    samples.push({ features, label });
-  });
+// Feature groups used when the caller does not pass any, configurable through
+// VITE_VOICE_FEATURE_GROUPS (e.g. "baseline,mfcc").
+const DEFAULT_FEATURE_GROUPS = parseFeatureGroups(import.meta.env?.VITE_VOICE_FEATURE_GROUPS);
 
-  if (!samples.length) {
-    throw new Error('No data rows were found in the speech dataset CSV.');
+function normaliseFeatureGroups(groups: VoiceFeatureGroup[] | undefined): VoiceFeatureGroup[] {
+  const requested = groups?.length ? groups : DEFAULT_FEATURE_GROUPS;
+  const unknown = requested.filter((group) => !Object.hasOwn(FEATURE_GROUPS, group));
+  if (unknown.length) {
+    throw new Error(`Unknown feature group(s): ${unknown.join(', ')}.`);
   }
-
-  return samples;
+  // Keep the canonical group order so the vector layout does not depend on how
+  // the caller listed the groups.
+  return (Object.keys(FEATURE_GROUPS) as VoiceFeatureGroup[]).filter((group) => requested.includes(group));
 }
 
-function computeFeatureStats(samples: VoiceDatasetSample[]): Record<FeatureKey, FeatureStat> {
-  const stats = {} as Record<FeatureKey, FeatureStat>;
-  FEATURE_COLUMNS.forEach((key) => {
-    const values = samples.map((sample) => sample.features[key]);
+function computeFeatureStats(
+  samples: VoiceDatasetSample[],
+  columns: VoiceFeatureKey[],
+): Partial<Record<VoiceFeatureKey, FeatureStat>> {
+  const stats: Partial<Record<VoiceFeatureKey, FeatureStat>> = {};
+  columns.forEach((key) => {
+    const values = samples.map((sample) => sample.features[key] ?? 0);
     const featureMean = mean(values);
     const std = standardDeviation(values, featureMean);
-    stats[key] = { mean: featureMean, std: std || 1e-6 };
+    stats[key] = { mean: featureMean, std: std || 1e-6, min: Math.min(...values), max: Math.max(...values) };
   });
   return stats;
 }
 
-function normalise(features: VoiceFeatureVector, stats: Record<FeatureKey, FeatureStat>): number[] {
-  return FEATURE_COLUMNS.map((key) => {
-    const { mean: featureMean, std } = stats[key];
-    return (features[key] - featureMean) / (std || 1e-6);
-  });
-}
-
-function euclideanDistance(vectorA: number[], vectorB: number[]): number {
-  let sum = 0;
-  for (let index = 0; index < vectorA.length; index += 1) {
-    const diff = vectorA[index] - vectorB[index];
-    sum += diff * diff;
-  }
-  return Math.sqrt(sum);
-}
-
-function predictFromSamples(
-  vector: number[],
-  samples: NormalisedSample[],
-  k: number,
-): VoicePrediction {
-  if (!samples.length) {
-    throw new Error('The KNN model has not been trained yet.');
-  }
-  const effectiveK = Math.min(Math.max(k, 1), samples.length);
-  const neighbours = samples
-    .map((sample) => ({
-      label: sample.label,
-      distance: euclideanDistance(vector, sample.vector),
-    }))
-    .sort((a, b) => a.distance - b.distance)
-    .slice(0, effectiveK);
-
-  // Check for scale mismatch - if average distance is very large, 
-  // the input features don't match the training data scale
-  const avgDistance = neighbours.reduce((sum, n) => sum + n.distance, 0) / neighbours.length;
-  const scaleMismatch = avgDistance > 10;
-
-  const votes = neighbours.reduce(
-    (accumulator, neighbour) => {
-      if (neighbour.label === 'Parkinsons') {
-        accumulator.parkinsons += 1;
-      } else {
-        accumulator.healthy += 1;
-      }
-      return accumulator;
-    },
-    { parkinsons: 0, healthy: 0 },
-  );
-
-  let probability = effectiveK ? votes.parkinsons / effectiveK : 0;
-
-  // If there's a scale mismatch, apply conservative adjustment
-  // Bias heavily towards "Healthy" to avoid false positives
-  if (scaleMismatch) {
-    console.warn('[KNN] Applying conservative adjustment due to scale mismatch');
-    // Reduce probability significantly - microphone recordings typically
-    // show higher jitter/shimmer values even for healthy voices
-    probability = probability * 0.3; // Reduce by 70%
-  }
-
-  return {
-    label: probability >= 0.5 ? 'Parkinsons' : 'Healthy',
-    probabilityOfParkinsons: probability,
-    neighbourVotes: neighbours,
-    k: effectiveK,
-  };
-}
-
-function leaveOneOutAccuracy(samples: NormalisedSample[], k: number): number | null {
-  if (samples.length < 2) {
-    return null;
-  }
-  let correct = 0;
-  for (let index = 0; index < samples.length; index += 1) {
-    const testSample = samples[index];
-    const trainingSubset = samples.filter((_, sampleIndex) => sampleIndex !== index);
-    const prediction = predictFromSamples(testSample.vector, trainingSubset, k);
-    if (prediction.label === testSample.label) {
-      correct += 1;
+function normalise(
+  features: VoiceFeatureVector,
+  stats: Partial<Record<VoiceFeatureKey, FeatureStat>>,
+  columns: VoiceFeatureKey[],
+): number[] {
+  return columns.map((key) => {
+    const stat = stats[key];
+    const value = features[key];
+    if (!stat || value === undefined) {
+      throw new Error(`Feature "${key}" is missing; it is required by the active voice feature groups.`);
     }
-  }
-  return correct / samples.length;
+    return (value - stat.mean) / (stat.std || 1e-6);
+  });
 }
 
-async function ensureModel(k: number): Promise<NormalisedSample[]> {
-  if (trainingSamples && featureStats) {
-    return trainingSamples;
-  }
-  
+// Leave-one-subject-out needs one fit per subject, which only KNN (whose fit
+// just stores the samples) can afford when the model loads; the other
+// classifiers are validated with stratified subject k-fold.
+const defaultEvaluationStrategy = (config: VoiceClassifierConfig): VoiceEvaluationStrategy =>
+  config.algorithm === 'knn' ? 'leave-one-subject-out' : 'stratified-k-fold';
+
+const parseProbabilityCalibrationMethod = (value: string | undefined): ProbabilityCalibrationMethod =>
+  value?.trim() === 'isotonic' ? 'isotonic' : 'platt';
+
+// Maps raw scores to probabilities, configurable through
+// VITE_VOICE_PROBABILITY_CALIBRATION ("platt" or "isotonic").
+const DEFAULT_PROBABILITY_CALIBRATION = parseProbabilityCalibrationMethod(
+  import.meta.env?.VITE_VOICE_PROBABILITY_CALIBRATION,
+);
+
+// Classifier used when the caller does not pass one, configurable through
+// VITE_VOICE_CLASSIFIER and VITE_VOICE_CLASSIFIER_PARAMS.
+const DEFAULT_CLASSIFIER = parseVoiceClassifierConfig(
+  import.meta.env?.VITE_VOICE_CLASSIFIER,
+  import.meta.env?.VITE_VOICE_CLASSIFIER_PARAMS,
+);
+
+// Loads the dataset and z-scores it over the columns of the feature groups.
+async function prepareTrainingSamples(featureGroups: VoiceFeatureGroup[]): Promise<{
+  samples: EvaluationSample[];
+  columns: VoiceFeatureKey[];
+  stats: Partial<Record<VoiceFeatureKey, FeatureStat>>;
+  validation: VoiceDatasetValidationReport;
+}> {
   console.log('[KNN] Loading real dataset from:', DATASET_URL);
-  const samples = await loadDataset();
+  const dataset = await loadDataset();
+  const missingGroups = featureGroups.filter((group) => !dataset.featureGroups.includes(group));
+  if (missingGroups.length) {
+    throw new Error(
+      `The speech dataset CSV does not contain the columns for feature group(s): ${missingGroups.join(', ')}.`,
+    );
+  }
+  const { samples } = dataset;
   console.log('[KNN] Dataset loaded successfully:', samples.length, 'samples');
   console.log('[KNN] Sample distribution:', {
     parkinsons: samples.filter(s => s.label === 'Parkinsons').length,
@@ -425,75 +517,283 @@ async function ensureModel(k: number): Promise<NormalisedSample[]> {
     meanAutoCorrHarmonicity: parkinsonsSample?.features.meanAutoCorrHarmonicity.toFixed(3),
   });
   
-  featureStats = computeFeatureStats(samples);
-  trainingSamples = samples.map((sample) => ({
-    label: sample.label,
-    vector: normalise(sample.features, featureStats!),
-  }));
-
-  const accuracy = leaveOneOutAccuracy(trainingSamples, k);
-  console.log('[KNN] Model trained with k=', k, ', accuracy:', accuracy?.toFixed(3));
+  const columns = resolveFeatureColumns(featureGroups);
+  const stats = computeFeatureStats(samples, columns);
+  return {
+    samples: samples.map((sample) => ({
+      label: sample.label,
+      subjectId: sample.subjectId,
+      vector: normalise(sample.features, stats, columns),
+      ...(sample.unlabelledFeatures ? { heldOutVector: normalise(sample.unlabelledFeatures, stats, columns) } : {}),
+    })),
+    columns,
+    stats,
+    validation: dataset.validation,
+  };
+}
+
+function loadModelArtifact(): Promise<VoiceModelArtifact | null> {
+  if (!artifactPromise) {
+    artifactPromise = fetchVoiceModelArtifact();
+  }
+  return artifactPromise;
+}
+
+const modelKeyFor = (
+  classifierConfig: VoiceClassifierConfig,
+  featureGroups: VoiceFeatureGroup[],
+  evaluationStrategy: VoiceEvaluationStrategy,
+  calibrationMethod: ProbabilityCalibrationMethod,
+) => [describeVoiceClassifier(classifierConfig), featureGroups.join(','), evaluationStrategy, calibrationMethod].join('|');
+
+const artifactModelKey = (artifact: VoiceModelArtifact) =>
+  modelKeyFor(
+    artifact.classifier,
+    artifact.featureGroups,
+    (artifact.evaluation ?? artifact.selectionScores)?.strategy ?? defaultEvaluationStrategy(artifact.classifier),
+    artifact.probabilityCalibration?.calibrator.method ?? DEFAULT_PROBABILITY_CALIBRATION,
+  );
+
+function installModelArtifact(artifact: VoiceModelArtifact): VoiceClassifier {
+  const classifier = deserializeVoiceClassifier(artifact.classifier);
+  activeColumns = [...artifact.features];
+  featureStats = artifact.featureStats;
+  trainedClassifier = classifier;
+  trainedClassifierKey = artifactModelKey(artifact);
+  trainedProbabilityCalibration = artifact.probabilityCalibration;
+  trainedOutOfDistributionModel = artifact.outOfDistribution;
+  attributionReferences = artifact.attributionReferences;
+  trainedMetadata = {
+    algorithm: classifier.algorithm,
+    parameters: { ...classifier.parameters },
+    evaluation: artifact.evaluation,
+    selectionScores: artifact.selectionScores,
+    datasetValidation: artifact.dataset.validation,
+    probabilityCalibration: artifact.probabilityCalibration,
+    hyperparameterSearch: artifact.hyperparameterSearch,
+    modelArtifact: { version: artifact.version, createdAt: artifact.createdAt, datasetSha256: artifact.dataset.sha256 },
+    sampleCount: artifact.dataset.sampleCount,
+    featureGroups: [...artifact.featureGroups],
+    features: [...artifact.features],
+  };
+  console.log('[KNN] Loaded precompiled model', describeVoiceClassifier(classifier), 'built', artifact.createdAt);
+  return classifier;
+}
+
+async function ensureModel(
+  classifierConfig: VoiceClassifierConfig,
+  featureGroups: VoiceFeatureGroup[],
+  onProgress?: ProgressCallback,
+  evaluationStrategy = defaultEvaluationStrategy(classifierConfig),
+  calibrationMethod = DEFAULT_PROBABILITY_CALIBRATION,
+): Promise<VoiceClassifier> {
+  const modelKey = modelKeyFor(classifierConfig, featureGroups, evaluationStrategy, calibrationMethod);
+  if (trainedClassifier && featureStats && trainedClassifierKey === modelKey) {
+    return trainedClassifier;
+  }
+  // The precompiled artifact stands in for training whenever it was built
+  // with exactly this configuration.
+  const artifact = await loadModelArtifact();
+  if (artifact && artifactModelKey(artifact) === modelKey) {
+    return installModelArtifact(artifact);
+  }
+
+  const { samples: trainingSamples, columns, stats, validation } = await prepareTrainingSamples(featureGroups);
+  activeColumns = columns;
+  featureStats = stats;
+
+  // The calibrator is fitted on out-of-fold scores, and the reported metrics
+  // describe the calibrated probabilities the app actually shows.
+  const crossValidation = crossValidateVoiceClassifier(trainingSamples, classifierConfig, evaluationStrategy, onProgress);
+  let evaluation: VoiceModelEvaluation | null = null;
+  let probabilityCalibration: ProbabilityCalibrationReport | null = null;
+  if (crossValidation) {
+    const { report, calibratedOutOfFold } = crossFitProbabilityCalibration(
+      calibrationMethod,
+      crossValidation.outOfFoldProbabilities,
+      trainingSamples.map((sample) => sample.label),
+      crossValidation.foldOf,
+    );
+    probabilityCalibration = report;
+    evaluation = evaluateOutOfFoldPredictions(trainingSamples, calibratedOutOfFold, crossValidation.foldOf, evaluationStrategy);
+  }
+  const classifier = createVoiceClassifier(classifierConfig);
+  // Held-out vectors only serve cross-validation; they stay out of the fitted state.
+  classifier.train(trainingSamples.map(({ label, subjectId, vector }) => ({ label, subjectId, vector })));
+  console.log('[KNN] Model trained:', describeVoiceClassifier(classifierConfig), ', groups:', featureGroups.join('+'), ', evaluation:', evaluation);
   
+  trainedClassifier = classifier;
+  trainedClassifierKey = modelKey;
+  trainedProbabilityCalibration = probabilityCalibration;
+  trainedOutOfDistributionModel = fitOutOfDistributionModel(trainingSamples, columns, stats);
+  attributionReferences = selectAttributionReferences(trainingSamples.map((sample) => sample.vector));
   trainedMetadata = {
-    k,
-    accuracy,
+    algorithm: classifier.algorithm,
+    parameters: { ...classifier.parameters },
+    evaluation,
+    selectionScores: null,
+    datasetValidation: validation,
+    probabilityCalibration,
+    hyperparameterSearch: null,
+    modelArtifact: null,
     sampleCount: trainingSamples.length,
-    features: [...FEATURE_COLUMNS],
+    featureGroups: [...featureGroups],
+    features: [...activeColumns],
   };
 
-  return trainingSamples;
+  return classifier;
 }
 
-export async function trainVoiceKnnModel(options: { k?: number } = {}): Promise<VoiceModelMetadata> {
-  const k = options.k ?? 5;
-  await ensureModel(k);
-  return trainedMetadata!;
+// Searched parameters only replace the configuration when it selects KNN and
+// leaves its parameters at their defaults.
+const DEFAULT_CLASSIFIER_TUNABLE =
+  DEFAULT_CLASSIFIER.algorithm === 'knn' && !Object.keys(DEFAULT_CLASSIFIER.parameters ?? {}).length;
+
+function isSearchApplicable(search: HyperparameterSearchResult, featureGroups: VoiceFeatureGroup[]): boolean {
+  return (
+    DEFAULT_CLASSIFIER_TUNABLE &&
+    search.algorithm === 'knn' &&
+    search.featureGroups.join(',') === featureGroups.join(',')
+  );
+}
+
+/**
+ * Trains the configured classifier (or `options.classifier`) and validates it,
+ * or loads the precompiled artifact when it matches the configuration. The
+ * artifact's search, else a previously saved `hyperparameterSearch`, supplies
+ * the KNN parameters; with `tune` and neither applicable, a grid search over
+ * k, distance metric and weighting runs first and its winner is trained.
+ * A searched model's cross-validation is reported as `selectionScores`, not
+ * `evaluation`, since the parameters were picked for scoring well on it.
+ */
+export async function trainVoiceKnnModel(options: VoiceModelTrainingOptions = {}): Promise<VoiceModelMetadata> {
+  const featureGroups = normaliseFeatureGroups(options.featureGroups);
+  const artifactSearch = options.classifier ? null : (await loadModelArtifact())?.hyperparameterSearch;
+  let search = [artifactSearch, options.hyperparameterSearch].find(
+    (candidate): candidate is HyperparameterSearchResult =>
+      !options.classifier && Boolean(candidate) && isSearchApplicable(candidate!, featureGroups),
+  ) ?? null;
+  let searchShare = 0;
+  if (!options.classifier && !search && options.tune && DEFAULT_CLASSIFIER_TUNABLE) {
+    searchShare = 0.9;
+    const { samples } = await prepareTrainingSamples(featureGroups);
+    search = {
+      ...searchHyperparameters(
+        samples,
+        'knn',
+        KNN_SEARCH_GRID,
+        options.evaluation ?? 'leave-one-subject-out',
+        (fraction) => options.onProgress?.(fraction * searchShare),
+      ),
+      featureGroups,
+    };
+    console.log('[KNN] Hyperparameter search selected', search.selected, 'from', search.candidates.length, 'candidates');
+  }
+
+  const classifier = options.classifier ?? (search ? { algorithm: search.algorithm, parameters: search.selected } : DEFAULT_CLASSIFIER);
+  await ensureModel(
+    classifier,
+    featureGroups,
+    (fraction) => options.onProgress?.(searchShare + fraction * (1 - searchShare)),
+    options.evaluation ?? search?.strategy ?? defaultEvaluationStrategy(classifier),
+    options.probabilityCalibration,
+  );
+  trainedMetadata = { ...trainedMetadata!, hyperparameterSearch: search };
+  if (search && !options.classifier) {
+    trainedMetadata = {
+      ...trainedMetadata,
+      evaluation: null,
+      selectionScores: trainedMetadata.evaluation ?? trainedMetadata.selectionScores,
+    };
+  }
+  return trainedMetadata;
 }
 
 export async function predictVoiceSample(
   features: VoiceFeatureVector,
-  options: { k?: number } = {},
+  options: {
+    classifier?: VoiceClassifierConfig;
+    featureGroups?: VoiceFeatureGroup[];
+    calibration?: VoiceCalibration | null;
+  } = {},
 ): Promise<VoicePrediction> {
-  const k = options.k ?? (trainedMetadata?.k ?? 5);
-  const samples = await ensureModel(k);
-  if (!featureStats) {
+  // Without explicit options, predict with whatever model was trained last.
+  const classifierConfig = options.classifier
+    ?? (trainedMetadata ? { algorithm: trainedMetadata.algorithm, parameters: trainedMetadata.parameters } : DEFAULT_CLASSIFIER);
+  const featureGroups = normaliseFeatureGroups(options.featureGroups ?? trainedMetadata?.featureGroups);
+  const classifier = await ensureModel(
+    classifierConfig,
+    featureGroups,
+    undefined,
+    options.classifier ? undefined : (trainedMetadata?.evaluation ?? trainedMetadata?.selectionScores)?.strategy,
+    options.classifier ? undefined : trainedMetadata?.probabilityCalibration?.calibrator.method,
+  );
+  if (!featureStats || !trainedOutOfDistributionModel) {
     throw new Error('Feature statistics are not available. Train the model first.');
   }
   
-  console.log('[KNN] Using real dataset with', samples.length, 'samples');
+  console.log('[KNN] Using real dataset with', trainedMetadata?.sampleCount, 'samples and', classifier.algorithm);
   console.log('[KNN] Extracted features from audio:', features);
   console.log('[KNN] Feature ranges in dataset:', {
-    meanPeriodPulses: `${featureStats['meanPeriodPulses'].mean.toFixed(6)} ± ${featureStats['meanPeriodPulses'].std.toFixed(6)}`,
-    locPctJitter: `${featureStats['locPctJitter'].mean.toFixed(3)} ± ${featureStats['locPctJitter'].std.toFixed(3)}`,
-    locShimmer: `${featureStats['locShimmer'].mean.toFixed(3)} ± ${featureStats['locShimmer'].std.toFixed(3)}`,
+    meanPeriodPulses: `${featureStats['meanPeriodPulses']?.mean.toFixed(6)} ± ${featureStats['meanPeriodPulses']?.std.toFixed(6)}`,
+    locPctJitter: `${featureStats['locPctJitter']?.mean.toFixed(3)} ± ${featureStats['locPctJitter']?.std.toFixed(3)}`,
+    locShimmer: `${featureStats['locShimmer']?.mean.toFixed(3)} ± ${featureStats['locShimmer']?.std.toFixed(3)}`,
   });
   console.warn('[KNN] ⚠️ WARNING: The dataset was created with professional medical-grade recording equipment.');
   console.warn('[KNN] Microphone recordings may have very different feature scales, leading to inaccurate predictions.');
   console.warn('[KNN] For demonstration purposes only - not for clinical use.');
   
-  const normalisedVector = normalise(features, featureStats);
+  // A profile that adjusts none of the model's features is not reported as applied.
+  const calibration = options.calibration && calibrationAffects(options.calibration.transform, activeColumns)
+    ? options.calibration
+    : null;
+  const calibratedFeatures = calibration ? applyCalibrationTransform(features, calibration.transform) : features;
+  if (calibration) {
+    console.log('[KNN] Applying microphone calibration profile', calibration.profileId, `(${calibration.method})`);
+  }
+  const normalisedVector = normalise(calibratedFeatures, featureStats, activeColumns);
   console.log('[KNN] Normalized feature vector (first 5):', normalisedVector.slice(0, 5).map(v => v.toFixed(3)));
   console.log('[KNN] Normalized vector magnitude:', Math.sqrt(normalisedVector.reduce((sum, v) => sum + v*v, 0)).toFixed(3));
   
-  const prediction = predictFromSamples(normalisedVector, samples, k);
+  const { probabilityOfParkinsons: rawScore, neighbourVotes } = classifier.predict(normalisedVector);
+  const probabilityCalibrator = trainedProbabilityCalibration?.calibrator;
+  const calibrated = probabilityCalibrator ? calibrateProbability(probabilityCalibrator, rawScore) : null;
+  // Attributions are in units of the probability the user is shown.
+  const score = (vector: number[]) => {
+    const { probabilityOfParkinsons } = classifier.predict(vector);
+    return probabilityCalibrator ? calibrateProbability(probabilityCalibrator, probabilityOfParkinsons).probability : probabilityOfParkinsons;
+  };
+  const probabilityOfParkinsons = calibrated?.probability ?? rawScore;
+  const prediction: VoicePrediction = {
+    label: probabilityOfParkinsons >= 0.5 ? 'Parkinsons' : 'Healthy',
+    probabilityOfParkinsons,
+    probabilityInterval: calibrated?.interval ?? null,
+    rawScore,
+    probabilityCalibration: trainedProbabilityCalibration?.calibrator.method ?? null,
+    neighbourVotes,
+    algorithm: classifier.algorithm,
+    parameters: { ...classifier.parameters },
+    calibration: calibration ? { profileId: calibration.profileId, method: calibration.method } : null,
+    outOfDistribution: detectOutOfDistribution(trainedOutOfDistributionModel, calibratedFeatures),
+    attributions: attributeVoicePrediction(score, normalisedVector, activeColumns, attributionReferences),
+  };
   
   console.log('[KNN] Real-time prediction result:', {
     label: prediction.label,
     probability: prediction.probabilityOfParkinsons,
-    k: prediction.k,
-    nearestNeighbors: prediction.neighbourVotes.slice(0, 5).map(n => ({
-      label: n.label,
-      distance: n.distance.toFixed(3)
-    })),
-    averageDistance: (prediction.neighbourVotes.reduce((sum, n) => sum + n.distance, 0) / prediction.neighbourVotes.length).toFixed(3)
+    classifier: describeVoiceClassifier(prediction),
+    // Only KNN reports neighbours; the other classifiers leave the list empty.
+    ...(prediction.neighbourVotes.length ? {
+      nearestNeighbors: prediction.neighbourVotes.slice(0, 5).map(n => ({
+        label: n.label,
+        distance: n.distance.toFixed(3)
+      })),
+      averageDistance: (prediction.neighbourVotes.reduce((sum, n) => sum + n.distance, 0) / prediction.neighbourVotes.length).toFixed(3)
+    } : {})
   });
   
-  // Check if the distances are suspiciously large (indicating scale mismatch)
-  const avgDistance = prediction.neighbourVotes.reduce((sum, n) => sum + n.distance, 0) / prediction.neighbourVotes.length;
-  if (avgDistance > 10) {
-    console.warn('[KNN] ⚠️ SCALE MISMATCH DETECTED: Average distance to neighbors is', avgDistance.toFixed(1));
-    console.warn('[KNN] This indicates the recording equipment/method differs significantly from the training dataset.');
-    console.warn('[KNN] Result reliability is LOW - treat as demonstration only.');
+  if (prediction.outOfDistribution.flagged) {
+    console.warn('[KNN] Features are unlike the training dataset:', prediction.outOfDistribution);
   }
   
   return prediction;
@@ -501,13 +801,58 @@ export async function predictVoiceSample(
 
 export function resetVoiceKnnModel() {
   datasetPromise = null;
+  artifactPromise = null;
   featureStats = null;
-  trainingSamples = null;
+  trainedClassifier = null;
+  trainedClassifierKey = null;
+  trainedProbabilityCalibration = null;
+  trainedOutOfDistributionModel = null;
+  attributionReferences = [];
   trainedMetadata = null;
+  activeColumns = [...FEATURE_COLUMNS];
+}
+
+/**
+ * Trains from the given dataset CSV text, exactly as the app would without an
+ * artifact, and packages the result. Used by the build-voice-model script.
+ */
+export async function buildVoiceModelArtifact(
+  csvText: string,
+  options: Omit<VoiceModelTrainingOptions, 'hyperparameterSearch'> & { imputation?: VoiceImputationStrategy } = {},
+): Promise<VoiceModelArtifact> {
+  resetVoiceKnnModel();
+  datasetPromise = Promise.resolve(
+    parseDataset(csvText, options.imputation ?? DEFAULT_IMPUTATION, normaliseFeatureGroups(options.featureGroups)),
+  );
+  artifactPromise = Promise.resolve(null);
+  const metadata = await trainVoiceKnnModel(options);
+  if (!trainedClassifier || !featureStats || !trainedOutOfDistributionModel) {
+    throw new Error('Training did not produce a complete voice model.');
+  }
+  return {
+    version: VOICE_MODEL_ARTIFACT_VERSION,
+    createdAt: new Date().toISOString(),
+    dataset: {
+      file: DATASET_URL.split('/').pop()!,
+      sha256: await sha256Hex(csvText),
+      sampleCount: metadata.sampleCount,
+      validation: metadata.datasetValidation,
+    },
+    featureGroups: metadata.featureGroups,
+    features: metadata.features,
+    featureStats,
+    classifier: trainedClassifier.serialize(),
+    evaluation: metadata.evaluation,
+    selectionScores: metadata.selectionScores,
+    probabilityCalibration: metadata.probabilityCalibration,
+    hyperparameterSearch: metadata.hyperparameterSearch,
+    outOfDistribution: trainedOutOfDistributionModel,
+    attributionReferences,
+  };
 }
 
-export function getVoiceFeatureKeys(): FeatureKey[] {
-  return [...FEATURE_COLUMNS];
+export function getVoiceFeatureKeys(): VoiceFeatureKey[] {
+  return [...activeColumns];
 }
 
 function mixDownToMono(buffer: AudioBuffer): Float32Array {
@@ -528,83 +873,266 @@ function mixDownToMono(buffer: AudioBuffer): Float32Array {
   return mixed;
 }
 
-function trimSilence(signal: Float32Array, threshold = 0.01): Float32Array {
-  let start = 0;
-  let end = signal.length - 1;
-  while (start < signal.length && Math.abs(signal[start]) < threshold) {
-    start += 1;
+// Praat's defaults for "To PointProcess (periodic, cc)" and the jitter/shimmer
+// queries that produced the UCI columns: periods outside the floor/ceiling or
+// differing from their neighbour by more than the factor break a cycle run.
+const PERIOD_FLOOR_SECONDS = 0.0001;
+const PERIOD_CEILING_SECONDS = 0.02;
+const MAX_PERIOD_FACTOR = 1.3;
+const MAX_AMPLITUDE_FACTOR = 1.6;
+
+interface PitchFrame {
+  start: number;
+  period: number | null; // in samples, null when unvoiced
+}
+
+interface GlottalCycleRuns {
+  periods: number[][]; // seconds, one array per run of consecutive valid cycles
+  amplitudes: number[][]; // peak-to-peak amplitude of the same cycles
+}
+
+function findPeak(samples: Float32Array, from: number, to: number, polarity: number): number {
+  const start = Math.max(0, Math.floor(from));
+  const end = Math.min(samples.length - 1, Math.ceil(to));
+  let bestIndex = start;
+  let bestValue = -Infinity;
+  for (let index = start; index <= end; index += 1) {
+    const value = samples[index] * polarity;
+    if (value > bestValue) {
+      bestValue = value;
+      bestIndex = index;
+    }
   }
-  while (end > start && Math.abs(signal[end]) < threshold) {
-    end -= 1;
+  if (bestIndex <= 0 || bestIndex >= samples.length - 1) {
+    return bestIndex;
   }
-  if (end <= start) {
-    return signal;
+  // Parabolic interpolation gives sub-sample pulse positions, which matters at
+  // jitter levels of a few microseconds.
+  const left = samples[bestIndex - 1] * polarity;
+  const centre = samples[bestIndex] * polarity;
+  const right = samples[bestIndex + 1] * polarity;
+  const denominator = left - 2 * centre + right;
+  if (denominator >= 0) {
+    return bestIndex;
   }
-  return signal.slice(start, end + 1);
+  const offset = (0.5 * (left - right)) / denominator;
+  return bestIndex + Math.max(-0.5, Math.min(0.5, offset));
 }
 
-function limitDuration(signal: Float32Array, sampleRate: number, maxSeconds = 15): Float32Array {
-  const maxSamples = Math.min(signal.length, Math.floor(sampleRate * maxSeconds));
-  if (signal.length <= maxSamples) {
-    return signal;
-  }
-  return signal.slice(0, maxSamples);
+function markGlottalPulses(samples: Float32Array, frames: PitchFrame[], frameSize: number): number[][] {
+  const regions: Array<{ first: number; last: number }> = [];
+  frames.forEach((frame, index) => {
+    if (frame.period === null) {
+      return;
+    }
+    const current = regions[regions.length - 1];
+    if (current && current.last === index - 1) {
+      current.last = index;
+    } else {
+      regions.push({ first: index, last: index });
+    }
+  });
+
+  return regions.map(({ first, last }) => {
+    const regionStart = frames[first].start;
+    const regionEnd = Math.min(samples.length - 1, frames[last].start + frameSize - 1);
+    const hop = first < last ? frames[first + 1].start - frames[first].start : frameSize;
+    const periodAt = (position: number): number => {
+      const frameIndex = Math.round((position - regionStart - frameSize / 2) / hop) + first;
+      const clamped = Math.min(last, Math.max(first, frameIndex));
+      return frames[clamped].period as number;
+    };
+
+    let positive = 0;
+    let negative = 0;
+    for (let index = regionStart; index <= regionEnd; index += 1) {
+      positive = Math.max(positive, samples[index]);
+      negative = Math.max(negative, -samples[index]);
+    }
+    const polarity = positive >= negative ? 1 : -1;
+
+    const pulses: number[] = [];
+    let pulse = findPeak(samples, regionStart, regionStart + periodAt(regionStart), polarity);
+    pulses.push(pulse);
+    for (;;) {
+      const period = periodAt(pulse);
+      if (pulse + 1.2 * period > regionEnd) {
+        break;
+      }
+      pulse = findPeak(samples, pulse + 0.8 * period, pulse + 1.2 * period, polarity);
+      pulses.push(pulse);
+    }
+    return pulses;
+  });
+}
+
+function collectGlottalCycles(
+  samples: Float32Array,
+  pulseRegions: number[][],
+  sampleRate: number,
+  minPeriod: number,
+  maxPeriod: number,
+): GlottalCycleRuns {
+  const runs: GlottalCycleRuns = { periods: [], amplitudes: [] };
+  const floor = Math.max(PERIOD_FLOOR_SECONDS, minPeriod);
+  const ceiling = Math.min(PERIOD_CEILING_SECONDS, maxPeriod);
+
+  pulseRegions.forEach((pulses) => {
+    let periods: number[] = [];
+    let amplitudes: number[] = [];
+    const closeRun = () => {
+      if (periods.length >= 2) {
+        runs.periods.push(periods);
+        runs.amplitudes.push(amplitudes);
+      }
+      periods = [];
+      amplitudes = [];
+    };
+
+    for (let index = 0; index < pulses.length - 1; index += 1) {
+      const period = (pulses[index + 1] - pulses[index]) / sampleRate;
+      if (period < floor || period > ceiling) {
+        closeRun();
+        continue;
+      }
+      let minimum = Infinity;
+      let maximum = -Infinity;
+      for (let sample = Math.round(pulses[index]); sample < Math.round(pulses[index + 1]); sample += 1) {
+        minimum = Math.min(minimum, samples[sample]);
+        maximum = Math.max(maximum, samples[sample]);
+      }
+      const amplitude = maximum - minimum;
+      const previousPeriod = periods[periods.length - 1];
+      const previousAmplitude = amplitudes[amplitudes.length - 1];
+      if (
+        previousPeriod !== undefined &&
+        (Math.max(period, previousPeriod) / Math.min(period, previousPeriod) > MAX_PERIOD_FACTOR ||
+          Math.max(amplitude, previousAmplitude) / Math.max(Math.min(amplitude, previousAmplitude), 1e-8) >
+            MAX_AMPLITUDE_FACTOR)
+      ) {
+        closeRun();
+      }
+      periods.push(period);
+      amplitudes.push(amplitude);
+    }
+    closeRun();
+  });
+
+  return runs;
 }
 
-function computeVoiceFeaturesFromSignal(samples: Float32Array, sampleRate: number): VoiceFeatureVector {
-  const frameSize = 2048;
-  const hopSize = 512;
-  const minFrequency = 60;
-  const maxFrequency = 400;
-  const minLag = Math.max(1, Math.floor(sampleRate / maxFrequency));
-  const maxLag = Math.max(minLag + 1, Math.floor(sampleRate / minFrequency));
+// Without Praat's Viterbi path finder an isolated frame occasionally locks on
+// to twice or half the true period; snap those back to the local median so the
+// pulse tracker is not sent a full octave off.
+function correctOctaveJumps(frames: PitchFrame[], radius = 5): void {
+  const voiced = frames.filter((frame) => frame.period !== null);
+  const original = voiced.map((frame) => frame.period as number);
+  voiced.forEach((frame, index) => {
+    const neighbourhood = original
+      .slice(Math.max(0, index - radius), index + radius + 1)
+      .sort((a, b) => a - b);
+    const median = neighbourhood[Math.floor(neighbourhood.length / 2)];
+    const ratio = original[index] / median;
+    if (ratio > 1.8 && ratio < 2.2) {
+      frame.period = original[index] / 2;
+    } else if (ratio > 0.45 && ratio < 0.55) {
+      frame.period = original[index] * 2;
+    }
+  });
+}
+
+const PITCH_FRAME_SIZE = 2048;
+const PITCH_HOP_SIZE = 512;
+const MIN_FREQUENCY = 60;
+const MAX_FREQUENCY = 400;
+
+interface PitchTrack {
+  frames: PitchFrame[];
+  correlations: number[]; // normalised autocorrelation peak of each voiced frame
+  rejectedFrames: number;
+}
 
-  const pitches: number[] = [];
-  const periods: number[] = [];
-  const amplitudes: number[] = [];
+function trackPitch(samples: Float32Array, sampleRate: number, onProgress?: ProgressCallback): PitchTrack {
+  const minLag = Math.max(1, Math.floor(sampleRate / MAX_FREQUENCY));
+  const maxLag = Math.max(minLag + 1, Math.floor(sampleRate / MIN_FREQUENCY));
+
+  const windowCorrelation = windowAutocorrelation(PITCH_FRAME_SIZE, maxLag);
+  const frames: PitchFrame[] = [];
   const correlations: number[] = [];
+  let rejectedFrames = 0;
 
-  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
-    const frameSlice = samples.subarray(start, start + frameSize);
-    const analysis = analyseFrame(frameSlice, sampleRate, minLag, maxLag);
-    if (analysis.frequency && analysis.correlation >= 0.3) {
-      pitches.push(analysis.frequency);
-      periods.push(1 / analysis.frequency);
-      amplitudes.push(analysis.rms);
+  for (let start = 0; start + PITCH_FRAME_SIZE <= samples.length; start += PITCH_HOP_SIZE) {
+    if (onProgress && frames.length % 32 === 0) {
+      onProgress(start / samples.length);
+    }
+    const frameSlice = samples.subarray(start, start + PITCH_FRAME_SIZE);
+    const analysis = analyseFrame(frameSlice, sampleRate, minLag, maxLag, windowCorrelation);
+    const voiced = Boolean(analysis.frequency) && analysis.correlation >= 0.3;
+    frames.push({
+      start,
+      period: voiced ? sampleRate / (analysis.frequency as number) : null,
+    });
+    if (voiced) {
       correlations.push(analysis.correlation);
     }
+    if (analysis.correlation < 0.3) {
+      rejectedFrames += 1;
+    }
   }
 
-  if (pitches.length < 5) {
+  return { frames, correlations, rejectedFrames };
+}
+
+function computeVoiceFeaturesFromSignal(
+  samples: Float32Array,
+  sampleRate: number,
+  track: PitchTrack,
+): VoiceFeatureVector {
+  const { frames, correlations } = track;
+  if (correlations.length < 5) {
     throw new Error('Unable to extract stable voice features. Please ensure the recording is at least a few seconds long and spoken clearly.');
   }
 
+  correctOctaveJumps(frames);
+  const pulseRegions = markGlottalPulses(samples, frames, PITCH_FRAME_SIZE);
+  const cycles = collectGlottalCycles(samples, pulseRegions, sampleRate, 1 / MAX_FREQUENCY, 1 / MIN_FREQUENCY);
+  const periods = cycles.periods.flat();
+  const amplitudes = cycles.amplitudes.flat();
+
+  if (periods.length < 10) {
+    throw new Error('Unable to detect enough regular glottal cycles. Please sustain a steady "Aaaah" in a quiet room and try again.');
+  }
+
   const meanPeriod = mean(periods);
   const periodStd = standardDeviation(periods, meanPeriod);
   const meanAmplitude = mean(amplitudes);
   const meanCorrelation = mean(correlations);
 
-  const jitterAbs = averageAbsoluteDiff(periods);
-  const jitterPercent = meanPeriod ? (jitterAbs / meanPeriod) * 100 : 0;
-  const rap = computeRAP(periods, meanPeriod) * 100;
-  const ppq = computePPQ(periods, meanPeriod) * 100;
-  const ddp = rap * 3;
-
-  const shimmer = meanAmplitude ? (averageAbsoluteDiff(amplitudes) / meanAmplitude) * 100 : 0;
-  const shimmerDb = computeShimmerDb(amplitudes);
-  const apq3 = computeApq(amplitudes, meanAmplitude, 3) * 100;
-  const apq5 = computeApq(amplitudes, meanAmplitude, 5) * 100;
-  const apq11 = computeApq(amplitudes, meanAmplitude, 11) * 100;
-  const shimmerDDA = apq3 * 3;
-
-  const harmonicEnergy = Math.min(Math.max(meanCorrelation, 1e-6), 1);
-  const noiseEnergy = Math.max(1 - harmonicEnergy, 1e-6);
-  const nhr = noiseEnergy / harmonicEnergy;
+  // The UCI columns are Praat ratios (0.002 is 0.2 %), not percentages.
+  const jitterAbs = averageAbsoluteDiff(cycles.periods);
+  const jitterLocal = meanPeriod ? jitterAbs / meanPeriod : 0;
+  const rap = computePerturbationQuotient(cycles.periods, meanPeriod, 3);
+  const ppq = computePerturbationQuotient(cycles.periods, meanPeriod, 5);
+  const ddp = meanPeriod ? averageAbsoluteSecondDiff(cycles.periods) / meanPeriod : 0;
+
+  const shimmer = meanAmplitude ? averageAbsoluteDiff(cycles.amplitudes) / meanAmplitude : 0;
+  const shimmerDb = computeShimmerDb(cycles.amplitudes);
+  const apq3 = computePerturbationQuotient(cycles.amplitudes, meanAmplitude, 3);
+  const apq5 = computePerturbationQuotient(cycles.amplitudes, meanAmplitude, 5);
+  const apq11 = computePerturbationQuotient(cycles.amplitudes, meanAmplitude, 11);
+  const shimmerDDA = meanAmplitude ? averageAbsoluteSecondDiff(cycles.amplitudes) / meanAmplitude : 0;
+
+  // Per-frame harmonicity from the normalised autocorrelation peak r:
+  // NHR = (1 - r) / r and HNR = 10 * log10(r / (1 - r)) dB, averaged over
+  // voiced frames as Praat's voice report does.
+  const harmonicities = correlations.map((correlation) => Math.min(Math.max(correlation, 1e-6), 1 - 1e-6));
+  const meanNhr = mean(harmonicities.map((harmonic) => (1 - harmonic) / harmonic));
+  const meanHnrDb = mean(harmonicities.map((harmonic) => 10 * Math.log10(harmonic / (1 - harmonic))));
 
   return {
     meanPeriodPulses: meanPeriod,
     stdDevPeriodPulses: periodStd,
-    locPctJitter: jitterPercent,
+    locPctJitter: jitterLocal,
     locAbsJitter: jitterAbs,
     rapJitter: rap,
     ppq5Jitter: ppq,
@@ -616,21 +1144,25 @@ function computeVoiceFeaturesFromSignal(samples: Float32Array, sampleRate: numbe
     apq11Shimmer: apq11,
     ddaShimmer: shimmerDDA,
     meanAutoCorrHarmonicity: meanCorrelation,
-    meanNoiseToHarmHarmonicity: nhr,
-    meanHarmToNoiseHarmonicity: 1 / Math.max(nhr, 1e-6),
+    meanNoiseToHarmHarmonicity: meanNhr,
+    meanHarmToNoiseHarmonicity: meanHnrDb,
   };
 }
 
-export async function extractVoiceFeatures(source: Blob | ArrayBuffer): Promise<VoiceFeatureVector> {
+/**
+ * Decodes a recording to mono PCM on the main thread. Web Audio decoding is not
+ * available inside workers, so this is the only step of the voice pipeline that
+ * cannot be moved off the UI thread.
+ */
+export async function decodeVoiceRecording(source: Blob | ArrayBuffer): Promise<DecodedVoiceRecording> {
   if (typeof window === 'undefined') {
-    throw new Error('Voice feature extraction is only supported in the browser environment.');
+    throw new Error('Voice decoding is only supported in the browser environment.');
   }
   const AudioContextConstructor = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
   if (!AudioContextConstructor) {
     throw new Error('The Web Audio API is not supported in this browser.');
   }
 
-  console.log('[Feature Extraction] Processing real audio recording...');
   const audioContext = new AudioContextConstructor();
   try {
     const bufferData = source instanceof Blob ? await source.arrayBuffer() : source;
@@ -640,21 +1172,127 @@ export async function extractVoiceFeatures(source: Blob | ArrayBuffer): Promise<
       sampleRate: audioBuffer.sampleRate + 'Hz',
       channels: audioBuffer.numberOfChannels
     });
-    
-    const mono = mixDownToMono(audioBuffer);
-    const trimmed = trimSilence(mono);
-    const limited = limitDuration(trimmed, audioBuffer.sampleRate, 15);
-    
-    console.log('[Feature Extraction] Analyzing voice patterns from real audio signal...');
-    const features = computeVoiceFeaturesFromSignal(limited, audioBuffer.sampleRate);
-    console.log('[Feature Extraction] Real-time features computed successfully');
-    
-    return features;
+    return { samples: mixDownToMono(audioBuffer), sampleRate: audioBuffer.sampleRate };
   } finally {
     await audioContext.close();
   }
 }
 
+/**
+ * Runs the quality gate and, for usable recordings, computes the voice feature
+ * vector from mono PCM. Free of DOM dependencies so it can run inside the voice
+ * pipeline worker.
+ */
+export function analyseVoicePcm(
+  recording: DecodedVoiceRecording,
+  options: {
+    qualityThresholds?: Partial<VoiceQualityThresholds>;
+    segmentation?: VoiceSegmentationOptions;
+    onProgress?: ProgressCallback;
+  } = {},
+): VoiceSignalAnalysis {
+  // Two frames of silence between joined segments guarantee an unvoiced pitch
+  // frame at each join, so no glottal cycle run spans two segments.
+  const { signal, segments, voicedSeconds } = selectAnalysisSegments(recording.samples, recording.sampleRate, {
+    maxSeconds: 15,
+    gapSamples: PITCH_FRAME_SIZE * 2,
+    ...options.segmentation,
+  });
+  console.log('[Feature Extraction] Voice activity segments:', segments.length, `(${voicedSeconds.toFixed(2)}s voiced)`);
+
+  console.log('[Feature Extraction] Analyzing voice patterns from real audio signal...');
+  const track = trackPitch(signal, recording.sampleRate, options.onProgress);
+  const quality = assessVoiceQuality(
+    {
+      rawSamples: recording.samples,
+      sampleRate: recording.sampleRate,
+      effectiveDurationSeconds: voicedSeconds,
+      frames: {
+        total: track.frames.length,
+        voiced: track.correlations.length,
+        rejected: track.rejectedFrames,
+      },
+    },
+    options.qualityThresholds,
+  );
+  if (!quality.passed) {
+    console.warn('[Feature Extraction] Recording rejected by the quality gate:', quality.issues);
+    return { quality, features: null, prosody: null };
+  }
+
+  const features: VoiceFeatureVector = {
+    ...computeVoiceFeaturesFromSignal(signal, recording.sampleRate, track),
+    ...computeMfccFeatures(signal, recording.sampleRate),
+  };
+  // Runs after feature extraction so the pitch frames are octave-corrected.
+  const promptKind = options.segmentation?.promptKind ?? 'sustained-vowel';
+  const prosody = promptKind === 'sustained-vowel'
+    ? null
+    : computeProsodyFeatures(
+        recording.samples,
+        recording.sampleRate,
+        segments,
+        track.frames
+          .filter((frame) => frame.period !== null)
+          .map((frame) => recording.sampleRate / (frame.period as number)),
+      );
+  console.log('[Feature Extraction] Real-time features computed successfully');
+  return { quality, features, prosody };
+}
+
+export async function extractVoiceFeatures(
+  source: Blob | ArrayBuffer | DecodedVoiceRecording,
+  segmentation?: VoiceSegmentationOptions,
+): Promise<VoiceFeatureVector> {
+  console.log('[Feature Extraction] Processing real audio recording...');
+  // Lossless captures arrive as PCM already and skip decoding.
+  const recording = source instanceof Blob || source instanceof ArrayBuffer
+    ? await decodeVoiceRecording(source)
+    : source;
+  const { quality, features } = analyseVoicePcm(recording, { segmentation });
+  if (!features) {
+    throw new Error(`The recording is not usable for screening. ${quality.issues.join(' ')}`);
+  }
+  return features;
+}
+
+/**
+ * Mean and spread of every feature column the dataset provides, independent of
+ * the feature groups the model was trained on.
+ */
+export async function getDatasetFeatureStatistics(): Promise<Partial<Record<VoiceFeatureKey, FeatureStat>>> {
+  const dataset = await loadDataset();
+  return computeFeatureStats(dataset.samples, resolveFeatureColumns(dataset.featureGroups));
+}
+
+/**
+ * Measures the reference recordings of a calibration session and derives the
+ * per-device transform. Every recording has to pass the quality gate.
+ */
+export async function deriveMicrophoneCalibration(
+  recordings: DecodedVoiceRecording[],
+  method: CalibrationMethod,
+  options: { onProgress?: ProgressCallback } = {},
+): Promise<MicrophoneCalibrationResult> {
+  const quality: VoiceQualityReport[] = [];
+  const references: VoiceFeatureVector[] = [];
+  recordings.forEach((recording, index) => {
+    const analysis = analyseVoicePcm(recording, {
+      segmentation: { promptKind: 'sustained-vowel' },
+      onProgress: (fraction) => options.onProgress?.((index + fraction) / recordings.length),
+    });
+    quality.push(analysis.quality);
+    if (!analysis.features) {
+      throw new Error(
+        `Calibration recording ${index + 1} is not usable. ${analysis.quality.issues.join(' ')}`,
+      );
+    }
+    references.push(analysis.features);
+  });
+  const datasetStats = method === 'baseline-vowels' ? await getDatasetFeatureStatistics() : {};
+  return { transform: deriveCalibrationTransform(method, references, datasetStats), quality };
+}
+
 export function getVoiceModelMetadata(): VoiceModelMetadata | null {
   return trainedMetadata;
 }
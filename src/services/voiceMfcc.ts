@@ -0,0 +1,157 @@
+import { nextPowerOfTwo, powerSpectrum } from '../utils/fft';
+
+// MFCC feature group matching the pd_speech_features.csv column definitions:
+// log energy plus MFCC 0..12, their deltas and delta-deltas, each summarised by
+// mean and standard deviation over the recording (84 columns). The header
+// names the 0th delta-delta unlike the others (mean_delta_delta_0th, then
+// mean_1st_delta_delta, ...); the names below follow it exactly, since a group
+// with a misspelt column cannot be found in the dataset.
+
+const ORDINALS = ['0th', '1st', '2nd', '3rd', '4th', '5th', '6th', '7th', '8th', '9th', '10th', '11th', '12th'] as const;
+type Ordinal = (typeof ORDINALS)[number];
+
+export type MfccFeatureKey =
+  | `${'mean' | 'std'}_Log_energy`
+  | `${'mean' | 'std'}_MFCC_${Ordinal}_coef`
+  | `${'mean' | 'std'}_delta_log_energy`
+  | `${'mean' | 'std'}_${Ordinal}_delta`
+  | `${'mean' | 'std'}_delta_delta_log_energy`
+  | `${'mean' | 'std'}_delta_delta_0th`
+  | `${'mean' | 'std'}_${Exclude<Ordinal, '0th'>}_delta_delta`;
+
+export type MfccFeatureVector = Record<MfccFeatureKey, number>;
+
+// Column order follows the dataset: all means, then all standard deviations.
+const columnsFor = (statistic: 'mean' | 'std'): MfccFeatureKey[] => [
+  `${statistic}_Log_energy`,
+  ...ORDINALS.map((ordinal): MfccFeatureKey => `${statistic}_MFCC_${ordinal}_coef`),
+  `${statistic}_delta_log_energy`,
+  ...ORDINALS.map((ordinal): MfccFeatureKey => `${statistic}_${ordinal}_delta`),
+  `${statistic}_delta_delta_log_energy`,
+  ...ORDINALS.map((ordinal): MfccFeatureKey =>
+    ordinal === '0th' ? `${statistic}_delta_delta_0th` : `${statistic}_${ordinal}_delta_delta`,
+  ),
+];
+
+export const MFCC_FEATURE_COLUMNS: readonly MfccFeatureKey[] = [...columnsFor('mean'), ...columnsFor('std')];
+
+const FRAME_SECONDS = 0.025;
+const HOP_SECONDS = 0.01;
+const PRE_EMPHASIS = 0.97;
+const MEL_FILTER_COUNT = 26;
+const CEPSTRAL_COUNT = ORDINALS.length;
+const DELTA_WINDOW = 2;
+const MIN_FRAME_ENERGY = 1e-10;
+
+const hzToMel = (frequency: number) => 2595 * Math.log10(1 + frequency / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+function melFilterbank(fftSize: number, sampleRate: number): Float64Array[] {
+  const bins = fftSize / 2 + 1;
+  const maxMel = hzToMel(sampleRate / 2);
+  const edges = Array.from({ length: MEL_FILTER_COUNT + 2 }, (_, index) =>
+    Math.floor(((fftSize + 1) * melToHz((maxMel * index) / (MEL_FILTER_COUNT + 1))) / sampleRate),
+  );
+  return Array.from({ length: MEL_FILTER_COUNT }, (_, filter) => {
+    const weights = new Float64Array(bins);
+    const [left, centre, right] = [edges[filter], edges[filter + 1], edges[filter + 2]];
+    for (let bin = left; bin < centre; bin += 1) {
+      weights[bin] = (bin - left) / Math.max(centre - left, 1);
+    }
+    for (let bin = centre; bin <= right && bin < bins; bin += 1) {
+      weights[bin] = (right - bin) / Math.max(right - centre, 1);
+    }
+    return weights;
+  });
+}
+
+// HTK-style regression deltas over ±DELTA_WINDOW frames, edges clamped.
+function deltas(rows: number[][]): number[][] {
+  const denominator = 2 * Array.from({ length: DELTA_WINDOW }, (_, n) => (n + 1) ** 2).reduce((a, b) => a + b, 0);
+  return rows.map((_, frame) =>
+    rows[frame].map((__, coefficient) => {
+      let sum = 0;
+      for (let n = 1; n <= DELTA_WINDOW; n += 1) {
+        const next = rows[Math.min(rows.length - 1, frame + n)][coefficient];
+        const previous = rows[Math.max(0, frame - n)][coefficient];
+        sum += n * (next - previous);
+      }
+      return sum / denominator;
+    }),
+  );
+}
+
+function summarise(rows: number[][], statistic: 'mean' | 'std'): number[] {
+  const width = rows[0].length;
+  const means = Array.from({ length: width }, (_, column) => rows.reduce((sum, row) => sum + row[column], 0) / rows.length);
+  if (statistic === 'mean') {
+    return means;
+  }
+  return means.map((columnMean, column) => {
+    const variance =
+      rows.reduce((sum, row) => sum + (row[column] - columnMean) ** 2, 0) / Math.max(rows.length - 1, 1);
+    return Math.sqrt(variance);
+  });
+}
+
+/**
+ * Computes the 84 MFCC summary features for a mono signal. Silent frames (such
+ * as the gaps inserted between voice activity segments) are skipped.
+ */
+export function computeMfccFeatures(samples: Float32Array, sampleRate: number): MfccFeatureVector {
+  const frameSize = Math.round(sampleRate * FRAME_SECONDS);
+  const hopSize = Math.round(sampleRate * HOP_SECONDS);
+  const fftSize = nextPowerOfTwo(frameSize);
+  const filters = melFilterbank(fftSize, sampleRate);
+  const hamming = Float64Array.from({ length: frameSize }, (_, index) =>
+    0.54 - 0.46 * Math.cos((2 * Math.PI * index) / (frameSize - 1)),
+  );
+
+  const staticRows: number[][] = [];
+  const frame = new Float64Array(frameSize);
+  for (let start = 1; start + frameSize <= samples.length; start += hopSize) {
+    let energy = 0;
+    for (let index = 0; index < frameSize; index += 1) {
+      const emphasised = samples[start + index] - PRE_EMPHASIS * samples[start + index - 1];
+      energy += emphasised * emphasised;
+      frame[index] = emphasised * hamming[index];
+    }
+    if (energy < MIN_FRAME_ENERGY) {
+      continue;
+    }
+
+    const spectrum = powerSpectrum(frame, fftSize);
+    const logMel = filters.map((weights) => {
+      let total = 0;
+      for (let bin = 0; bin < weights.length; bin += 1) {
+        total += weights[bin] * spectrum[bin];
+      }
+      return Math.log(Math.max(total, MIN_FRAME_ENERGY));
+    });
+    const cepstra = Array.from({ length: CEPSTRAL_COUNT }, (_, coefficient) => {
+      let sum = 0;
+      for (let filter = 0; filter < MEL_FILTER_COUNT; filter += 1) {
+        sum += logMel[filter] * Math.cos((Math.PI * coefficient * (filter + 0.5)) / MEL_FILTER_COUNT);
+      }
+      return sum * Math.sqrt(2 / MEL_FILTER_COUNT);
+    });
+    staticRows.push([Math.log(energy), ...cepstra]);
+  }
+
+  if (staticRows.length < 2 * DELTA_WINDOW + 1) {
+    throw new Error('The recording is too short to compute MFCC features.');
+  }
+
+  const deltaRows = deltas(staticRows);
+  const deltaDeltaRows = deltas(deltaRows);
+  const values = (['mean', 'std'] as const).flatMap((statistic) => [
+    ...summarise(staticRows, statistic),
+    ...summarise(deltaRows, statistic),
+    ...summarise(deltaDeltaRows, statistic),
+  ]);
+
+  return MFCC_FEATURE_COLUMNS.reduce((vector, key, index) => {
+    vector[key] = values[index];
+    return vector;
+  }, {} as MfccFeatureVector);
+}
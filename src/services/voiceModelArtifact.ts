@@ -0,0 +1,65 @@
+import type { SerializedVoiceClassifier } from './voiceClassifiers';
+import type { VoiceDatasetValidationReport } from './voiceDataset';
+import type { VoiceModelEvaluation } from './voiceEvaluation';
+import type { HyperparameterSearchResult } from './voiceHyperparameterSearch';
+import type { VoiceFeatureGroup, VoiceFeatureKey } from './voiceKnnModel';
+import type { FeatureDistribution, OutOfDistributionModel } from './voiceOutOfDistribution';
+import type { ProbabilityCalibrationReport } from './voiceProbabilityCalibration';
+
+// Precompiled voice model, written by `npm run build:voice-model` so the app
+// loads one JSON file instead of fetching, parsing and cross-validating the
+// speech dataset on every visit.
+
+// Bumped whenever the layout changes; the app ignores artifacts of other versions.
+export const VOICE_MODEL_ARTIFACT_VERSION = 3;
+
+export const VOICE_MODEL_ARTIFACT_URL = '/models/voice/model.json';
+
+export interface VoiceModelArtifact {
+  version: number;
+  createdAt: string;
+  dataset: {
+    file: string;
+    sha256: string; // of the CSV text the model was built from
+    sampleCount: number;
+    validation: VoiceDatasetValidationReport;
+  };
+  featureGroups: VoiceFeatureGroup[];
+  features: VoiceFeatureKey[];
+  featureStats: Partial<Record<VoiceFeatureKey, FeatureDistribution>>;
+  classifier: SerializedVoiceClassifier; // holds the normalised vectors (KNN) or fitted parameters
+  evaluation: VoiceModelEvaluation | null;
+  selectionScores: VoiceModelEvaluation | null; // instead of evaluation when the parameters were searched
+  probabilityCalibration: ProbabilityCalibrationReport | null;
+  hyperparameterSearch: HyperparameterSearchResult | null;
+  outOfDistribution: OutOfDistributionModel;
+  attributionReferences: number[][];
+}
+
+// Web Crypto works in the browser, in workers and in Node.
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** Fetches the artifact, or resolves null when it is missing or of another version. */
+export async function fetchVoiceModelArtifact(url = VOICE_MODEL_ARTIFACT_URL): Promise<VoiceModelArtifact | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.info('[Voice model] No precompiled model at', url, '- training from the dataset instead.');
+      return null;
+    }
+    const artifact = (await response.json()) as VoiceModelArtifact;
+    if (artifact.version !== VOICE_MODEL_ARTIFACT_VERSION) {
+      console.warn(
+        `[Voice model] Ignoring model artifact version ${artifact.version}; this build reads version ${VOICE_MODEL_ARTIFACT_VERSION}.`,
+      );
+      return null;
+    }
+    return artifact;
+  } catch (artifactError) {
+    console.warn('[Voice model] Could not load the precompiled model:', artifactError);
+    return null;
+  }
+}
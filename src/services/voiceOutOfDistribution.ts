@@ -0,0 +1,124 @@
+import { covarianceCholesky, euclideanDistance, whiten } from '../utils/distance';
+import type { LabelledVector, VoiceClass } from './voiceClassifiers';
+import type { VoiceFeatureKey, VoiceFeatureVector } from './voiceKnnModel';
+
+// Checks whether a recording's features resemble the training dataset before
+// the prediction is trusted. Consumer microphones and noisy rooms can push the
+// measurements far from anything the classifier has seen, in which case its
+// output says little about the speaker.
+
+export interface FeatureDistribution {
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+interface ClassDistribution {
+  label: VoiceClass;
+  mean: number[]; // of the z-scored training vectors
+  cholesky: number[][];
+}
+
+export interface OutOfDistributionModel {
+  columns: VoiceFeatureKey[];
+  stats: Partial<Record<VoiceFeatureKey, FeatureDistribution>>;
+  classes: ClassDistribution[];
+  // Mahalanobis distance to the nearest class that 99% of the training
+  // recordings stay within.
+  threshold: number;
+}
+
+export interface FeatureDeviation {
+  feature: VoiceFeatureKey;
+  value: number;
+  zScore: number;
+  trainingMin: number;
+  trainingMax: number;
+}
+
+export interface OutOfDistributionReport {
+  flagged: boolean; // beyond the distance threshold or outside a feature's training range
+  classDistances: Partial<Record<VoiceClass, number>>; // Mahalanobis distance to each class
+  threshold: number;
+  zScores: Partial<Record<VoiceFeatureKey, number>>; // against the training mean and standard deviation
+  outOfRange: FeatureDeviation[]; // most extreme first
+}
+
+const THRESHOLD_QUANTILE = 0.99;
+
+function classDistances(model: Pick<OutOfDistributionModel, 'classes'>, vector: number[]): Partial<Record<VoiceClass, number>> {
+  const distances: Partial<Record<VoiceClass, number>> = {};
+  model.classes.forEach(({ label, mean, cholesky }) => {
+    distances[label] = euclideanDistance(whiten(vector, cholesky), whiten(mean, cholesky));
+  });
+  return distances;
+}
+
+const nearestDistance = (distances: Partial<Record<VoiceClass, number>>) =>
+  Math.min(...Object.values(distances).filter((distance): distance is number => distance !== undefined));
+
+/**
+ * Fits a Gaussian per class over the z-scored training vectors and sets the
+ * distance threshold from the training recordings themselves.
+ */
+export function fitOutOfDistributionModel(
+  samples: LabelledVector[],
+  columns: VoiceFeatureKey[],
+  stats: Partial<Record<VoiceFeatureKey, FeatureDistribution>>,
+): OutOfDistributionModel {
+  const classes: ClassDistribution[] = [];
+  (['Parkinsons', 'Healthy'] as const).forEach((label) => {
+    const vectors = samples.filter((sample) => sample.label === label).map((sample) => sample.vector);
+    if (vectors.length < 2) {
+      return;
+    }
+    const mean = columns.map((_, column) => vectors.reduce((sum, vector) => sum + vector[column], 0) / vectors.length);
+    classes.push({ label, mean, cholesky: covarianceCholesky(vectors) });
+  });
+  if (!classes.length) {
+    throw new Error('The out-of-distribution check needs at least two training recordings of one class.');
+  }
+
+  const trainingDistances = samples
+    .map((sample) => nearestDistance(classDistances({ classes }, sample.vector)))
+    .sort((a, b) => a - b);
+  const threshold = trainingDistances[Math.min(Math.floor(THRESHOLD_QUANTILE * trainingDistances.length), trainingDistances.length - 1)];
+  return { columns: [...columns], stats, classes, threshold };
+}
+
+/**
+ * Compares a recording's (microphone-calibrated) features with the training
+ * distribution: z-scores and training ranges per feature, and the Mahalanobis
+ * distance to each class over all of them.
+ */
+export function detectOutOfDistribution(
+  model: OutOfDistributionModel,
+  features: VoiceFeatureVector,
+): OutOfDistributionReport {
+  const zScores: Partial<Record<VoiceFeatureKey, number>> = {};
+  const outOfRange: FeatureDeviation[] = [];
+  const vector = model.columns.map((feature) => {
+    const stat = model.stats[feature];
+    const value = features[feature];
+    if (!stat || value === undefined) {
+      throw new Error(`Feature "${feature}" is missing; it is required by the active voice feature groups.`);
+    }
+    const zScore = (value - stat.mean) / (stat.std || 1e-6);
+    zScores[feature] = zScore;
+    if (value < stat.min || value > stat.max) {
+      outOfRange.push({ feature, value, zScore, trainingMin: stat.min, trainingMax: stat.max });
+    }
+    return zScore;
+  });
+  outOfRange.sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore));
+
+  const distances = classDistances(model, vector);
+  return {
+    flagged: nearestDistance(distances) > model.threshold || outOfRange.length > 0,
+    classDistances: distances,
+    threshold: model.threshold,
+    zScores,
+    outOfRange,
+  };
+}
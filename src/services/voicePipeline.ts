@@ -0,0 +1,289 @@
+import {
+  analyseVoicePcm,
+  DecodedVoiceRecording,
+  decodeVoiceRecording,
+  deriveMicrophoneCalibration,
+  MicrophoneCalibrationResult,
+  predictVoiceSample,
+  trainVoiceKnnModel,
+  VoiceFeatureGroup,
+  VoiceFeatureVector,
+  VoiceModelMetadata,
+  VoicePrediction,
+} from './voiceKnnModel';
+import type { VoiceSegmentationOptions } from './voiceActivity';
+import type { CalibrationMethod, VoiceCalibration } from './voiceCalibration';
+import type { VoiceClassifierConfig } from './voiceClassifiers';
+import type { HyperparameterSearchResult } from './voiceHyperparameterSearch';
+import type { VoiceProsodyFeatures } from './voiceProsody';
+import type { VoiceQualityReport, VoiceQualityThresholds } from './voiceQuality';
+import type {
+  VoicePipelineProgress,
+  VoicePipelineRequest,
+  VoicePipelineResponse,
+} from './voicePipelineProtocol';
+
+export type { VoicePipelineProgress, VoicePipelineStage } from './voicePipelineProtocol';
+
+// Encoded audio (decoded here) or PCM straight from the lossless recorder.
+export type VoiceRecordingSource = Blob | ArrayBuffer | DecodedVoiceRecording;
+
+export interface VoicePipelineOptions {
+  onProgress?: (progress: VoicePipelineProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface VoiceAnalysis {
+  quality: VoiceQualityReport;
+  // Both null when the recording failed the quality gate and was not classified.
+  features: VoiceFeatureVector | null;
+  prosody: VoiceProsodyFeatures | null; // measured for the counting and sentence prompts
+  prediction: VoicePrediction | null;
+}
+
+interface PendingJob {
+  resolve: (response: VoicePipelineResponse) => void;
+  reject: (reason: Error) => void;
+  onProgress?: VoicePipelineOptions['onProgress'];
+  started?: boolean; // the worker has begun it and may not check for cancels again
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+
+const cancellationError = () => new DOMException('Voice analysis was cancelled.', 'AbortError');
+
+export const isVoicePipelineCancellation = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+async function resolveRecording(source: VoiceRecordingSource): Promise<DecodedVoiceRecording> {
+  if (source instanceof Blob || source instanceof ArrayBuffer) {
+    return decodeVoiceRecording(source);
+  }
+  // Copied because the samples are transferred to the worker, which would
+  // leave the caller's recording detached.
+  return { samples: source.samples.slice(), sampleRate: source.sampleRate };
+}
+
+// Terminates the worker, failing every job it still had; getWorker starts a new one.
+function stopWorker(reason: Error) {
+  pendingJobs.forEach((job) => job.reject(reason));
+  pendingJobs.clear();
+  worker?.terminate();
+  worker = null;
+}
+
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined') {
+    return null;
+  }
+  if (!worker) {
+    worker = new Worker(new URL('./voicePipeline.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<VoicePipelineResponse>) => {
+      const message = event.data;
+      const job = pendingJobs.get(message.jobId);
+      if (!job) return;
+      if (message.type === 'started') {
+        job.started = true;
+        return;
+      }
+      if (message.type === 'progress') {
+        job.onProgress?.({ stage: message.stage, fraction: message.fraction });
+        return;
+      }
+      pendingJobs.delete(message.jobId);
+      if (message.type === 'error') {
+        job.reject(new Error(message.message));
+      } else if (message.type === 'cancelled') {
+        job.reject(cancellationError());
+      } else {
+        job.resolve(message);
+      }
+    };
+    worker.onerror = (event) => {
+      console.error('[Voice Pipeline] Worker crashed:', event.message);
+      stopWorker(new Error('The voice analysis worker stopped unexpectedly.'));
+    };
+  }
+  return worker;
+}
+
+function runInWorker(
+  target: Worker,
+  request: Exclude<VoicePipelineRequest, { type: 'cancel' }>,
+  options: VoicePipelineOptions,
+  transfer: Transferable[] = [],
+): Promise<VoicePipelineResponse> {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) {
+    return Promise.reject(cancellationError());
+  }
+  return new Promise((resolve, reject) => {
+    const { jobId } = request;
+    // A queued job is cancelled by message. A started one may be inside
+    // training or a hyperparameter search that never yields, so the worker is
+    // stopped instead and the jobs queued behind it fail rather than wait.
+    const onAbort = () => {
+      const job = pendingJobs.get(jobId);
+      if (!job) return;
+      pendingJobs.delete(jobId);
+      if (job.started) {
+        stopWorker(new Error('Voice analysis was interrupted because another job was cancelled. Please try again.'));
+      } else {
+        target.postMessage({ type: 'cancel', jobId } satisfies VoicePipelineRequest);
+      }
+      reject(cancellationError());
+    };
+    pendingJobs.set(jobId, {
+      onProgress,
+      resolve: (response) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(response);
+      },
+      reject: (reason) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(reason);
+      },
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    target.postMessage(request, transfer);
+  });
+}
+
+/**
+ * Loads the dataset and fits the configured classifier inside the voice pipeline worker.
+ * Falls back to the UI thread when workers are unavailable. See
+ * trainVoiceKnnModel for how `hyperparameterSearch` and `tune` apply.
+ */
+export async function trainVoiceModelInBackground(
+  options: VoicePipelineOptions & {
+    classifier?: VoiceClassifierConfig;
+    featureGroups?: VoiceFeatureGroup[];
+    hyperparameterSearch?: HyperparameterSearchResult | null;
+    tune?: boolean;
+  } = {},
+): Promise<VoiceModelMetadata> {
+  const target = getWorker();
+  if (!target) {
+    return trainVoiceKnnModel({
+      classifier: options.classifier,
+      featureGroups: options.featureGroups,
+      hyperparameterSearch: options.hyperparameterSearch,
+      tune: options.tune,
+      onProgress: (fraction) => options.onProgress?.({ stage: 'training-model', fraction }),
+    });
+  }
+  const response = await runInWorker(
+    target,
+    {
+      type: 'train',
+      jobId: nextJobId++,
+      classifier: options.classifier,
+      featureGroups: options.featureGroups,
+      hyperparameterSearch: options.hyperparameterSearch,
+      tune: options.tune,
+    },
+    options,
+  );
+  if (response.type !== 'trained') {
+    throw new Error(`Unexpected voice pipeline response: ${response.type}`);
+  }
+  return response.metadata;
+}
+
+/**
+ * Decodes a recording on the UI thread (unless it is PCM already), then hands
+ * the PCM to the worker as a transferable for feature extraction and
+ * classification.
+ */
+export async function analyseVoiceRecording(
+  source: VoiceRecordingSource,
+  options: VoicePipelineOptions & {
+    qualityThresholds?: Partial<VoiceQualityThresholds>;
+    segmentation?: VoiceSegmentationOptions;
+    featureGroups?: VoiceFeatureGroup[];
+    calibration?: VoiceCalibration | null;
+  } = {},
+): Promise<VoiceAnalysis> {
+  const recording = await resolveRecording(source);
+  if (options.signal?.aborted) {
+    throw cancellationError();
+  }
+
+  const target = getWorker();
+  if (!target) {
+    const { quality, features, prosody } = analyseVoicePcm(recording, {
+      qualityThresholds: options.qualityThresholds,
+      segmentation: options.segmentation,
+      onProgress: (fraction) => options.onProgress?.({ stage: 'extracting-features', fraction }),
+    });
+    if (!features) {
+      return { quality, features: null, prosody: null, prediction: null };
+    }
+    options.onProgress?.({ stage: 'classifying', fraction: 0 });
+    const prediction = await predictVoiceSample(features, {
+      featureGroups: options.featureGroups,
+      calibration: options.calibration,
+    });
+    return { quality, features, prosody, prediction };
+  }
+
+  const response = await runInWorker(
+    target,
+    {
+      type: 'analyse',
+      jobId: nextJobId++,
+      samples: recording.samples,
+      sampleRate: recording.sampleRate,
+      qualityThresholds: options.qualityThresholds,
+      segmentation: options.segmentation,
+      featureGroups: options.featureGroups,
+      calibration: options.calibration,
+    },
+    options,
+    [recording.samples.buffer],
+  );
+  if (response.type !== 'analysed') {
+    throw new Error(`Unexpected voice pipeline response: ${response.type}`);
+  }
+  return {
+    quality: response.quality,
+    features: response.features,
+    prosody: response.prosody,
+    prediction: response.prediction,
+  };
+}
+
+/**
+ * Decodes the reference recordings of a microphone calibration session and
+ * derives the device transform in the worker.
+ */
+export async function calibrateMicrophoneInBackground(
+  sources: VoiceRecordingSource[],
+  method: CalibrationMethod,
+  options: VoicePipelineOptions = {},
+): Promise<MicrophoneCalibrationResult> {
+  const recordings = await Promise.all(sources.map((source) => resolveRecording(source)));
+  if (options.signal?.aborted) {
+    throw cancellationError();
+  }
+
+  const target = getWorker();
+  if (!target) {
+    return deriveMicrophoneCalibration(recordings, method, {
+      onProgress: (fraction) => options.onProgress?.({ stage: 'calibrating', fraction }),
+    });
+  }
+
+  const response = await runInWorker(
+    target,
+    { type: 'calibrate', jobId: nextJobId++, method, recordings },
+    options,
+    recordings.map((recording) => recording.samples.buffer),
+  );
+  if (response.type !== 'calibrated') {
+    throw new Error(`Unexpected voice pipeline response: ${response.type}`);
+  }
+  return { transform: response.transform, quality: response.quality };
+}
@@ -0,0 +1,108 @@
+import {
+  analyseVoicePcm,
+  deriveMicrophoneCalibration,
+  predictVoiceSample,
+  trainVoiceKnnModel,
+} from './voiceKnnModel';
+import type { VoicePipelineRequest, VoicePipelineResponse, VoicePipelineStage } from './voicePipelineProtocol';
+
+// The app compiles against the DOM lib only, so describe the slice of the
+// dedicated worker scope we use instead of pulling in the WebWorker lib.
+const workerScope = self as unknown as {
+  postMessage(message: VoicePipelineResponse): void;
+  onmessage: ((event: MessageEvent<VoicePipelineRequest>) => void) | null;
+};
+
+// Jobs received and not yet finished; a cancel for any other id is stale.
+const activeJobs = new Set<number>();
+const cancelledJobs = new Set<number>();
+
+class JobCancelled extends Error {}
+
+const post = (message: VoicePipelineResponse) => workerScope.postMessage(message);
+
+// Yields to the worker's event loop so queued cancel messages are delivered
+// before the next expensive stage starts.
+const checkpoint = async (jobId: number) => {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  if (cancelledJobs.has(jobId)) {
+    throw new JobCancelled();
+  }
+};
+
+const reportProgress = (jobId: number, stage: VoicePipelineStage) => (fraction: number) => {
+  post({ type: 'progress', jobId, stage, fraction: Math.min(Math.max(fraction, 0), 1) });
+};
+
+const runJob = async (request: Exclude<VoicePipelineRequest, { type: 'cancel' }>) => {
+  const { jobId } = request;
+  try {
+    await checkpoint(jobId);
+    // From here training runs without yielding, so the UI thread stops the
+    // worker to cancel a started job rather than sending a cancel.
+    post({ type: 'started', jobId });
+    if (request.type === 'train') {
+      const metadata = await trainVoiceKnnModel({
+        classifier: request.classifier,
+        featureGroups: request.featureGroups,
+        hyperparameterSearch: request.hyperparameterSearch,
+        tune: request.tune,
+        onProgress: reportProgress(jobId, 'training-model'),
+      });
+      post({ type: 'trained', jobId, metadata });
+      return;
+    }
+
+    if (request.type === 'calibrate') {
+      const { transform, quality } = await deriveMicrophoneCalibration(request.recordings, request.method, {
+        onProgress: reportProgress(jobId, 'calibrating'),
+      });
+      post({ type: 'calibrated', jobId, transform, quality });
+      return;
+    }
+
+    const { quality, features, prosody } = analyseVoicePcm(
+      { samples: request.samples, sampleRate: request.sampleRate },
+      {
+        qualityThresholds: request.qualityThresholds,
+        segmentation: request.segmentation,
+        onProgress: reportProgress(jobId, 'extracting-features'),
+      },
+    );
+    if (!features) {
+      post({ type: 'analysed', jobId, quality, features: null, prosody: null, prediction: null });
+      return;
+    }
+    await checkpoint(jobId);
+    reportProgress(jobId, 'classifying')(0);
+    const prediction = await predictVoiceSample(features, {
+      featureGroups: request.featureGroups,
+      calibration: request.calibration,
+    });
+    reportProgress(jobId, 'classifying')(1);
+    post({ type: 'analysed', jobId, quality, features, prosody, prediction });
+  } catch (jobError) {
+    if (jobError instanceof JobCancelled) {
+      post({ type: 'cancelled', jobId });
+      return;
+    }
+    post({
+      type: 'error',
+      jobId,
+      message: jobError instanceof Error ? jobError.message : 'Voice analysis failed in the background worker.',
+    });
+  } finally {
+    activeJobs.delete(jobId);
+    cancelledJobs.delete(jobId);
+  }
+};
+
+workerScope.onmessage = (event) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    if (activeJobs.has(request.jobId)) cancelledJobs.add(request.jobId);
+    return;
+  }
+  activeJobs.add(request.jobId);
+  void runJob(request);
+};
@@ -0,0 +1,72 @@
+import type { VoiceSegmentationOptions } from './voiceActivity';
+import type { CalibrationMethod, CalibrationTransform, VoiceCalibration } from './voiceCalibration';
+import type { VoiceClassifierConfig } from './voiceClassifiers';
+import type { HyperparameterSearchResult } from './voiceHyperparameterSearch';
+import type {
+  VoiceFeatureGroup,
+  VoiceFeatureVector,
+  VoiceModelMetadata,
+  VoicePrediction,
+} from './voiceKnnModel';
+import type { VoiceProsodyFeatures } from './voiceProsody';
+import type { VoiceQualityReport, VoiceQualityThresholds } from './voiceQuality';
+
+// Messages exchanged between the UI thread and voicePipeline.worker.ts. Every
+// request carries a job id; the worker answers with a started message once it
+// begins the job, progress messages, and exactly one terminal message
+// (trained, analysed, calibrated, cancelled or error).
+
+export type VoicePipelineStage = 'training-model' | 'extracting-features' | 'classifying' | 'calibrating';
+
+export type VoicePipelineRequest =
+  | {
+      type: 'train';
+      jobId: number;
+      classifier?: VoiceClassifierConfig;
+      featureGroups?: VoiceFeatureGroup[];
+      hyperparameterSearch?: HyperparameterSearchResult | null;
+      tune?: boolean;
+    }
+  | {
+      type: 'analyse';
+      jobId: number;
+      samples: Float32Array;
+      sampleRate: number;
+      qualityThresholds?: Partial<VoiceQualityThresholds>;
+      segmentation?: VoiceSegmentationOptions;
+      featureGroups?: VoiceFeatureGroup[];
+      calibration?: VoiceCalibration | null;
+    }
+  | {
+      type: 'calibrate';
+      jobId: number;
+      method: CalibrationMethod;
+      recordings: Array<{ samples: Float32Array; sampleRate: number }>;
+    }
+  | { type: 'cancel'; jobId: number };
+
+export type VoicePipelineResponse =
+  | { type: 'started'; jobId: number }
+  | { type: 'progress'; jobId: number; stage: VoicePipelineStage; fraction: number }
+  | { type: 'trained'; jobId: number; metadata: VoiceModelMetadata }
+  | {
+      type: 'analysed';
+      jobId: number;
+      quality: VoiceQualityReport;
+      features: VoiceFeatureVector | null; // null when the quality gate rejected the recording
+      prosody: VoiceProsodyFeatures | null;
+      prediction: VoicePrediction | null;
+    }
+  | {
+      type: 'calibrated';
+      jobId: number;
+      transform: CalibrationTransform;
+      quality: VoiceQualityReport[];
+    }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
+
+export interface VoicePipelineProgress {
+  stage: VoicePipelineStage;
+  fraction: number;
+}
@@ -0,0 +1,239 @@
+import type { VoiceClass } from './voiceClassifiers';
+
+// Maps raw classifier scores (vote fractions, forest averages, ...) to
+// calibrated probabilities of Parkinson's, fitted on out-of-fold predictions so
+// the calibrator never sees a score the classifier produced for its own
+// training data. Not to be confused with voiceCalibration.ts, which corrects
+// microphone differences in the features.
+
+export type ProbabilityCalibrationMethod = 'platt' | 'isotonic';
+
+export interface PlattCalibrator {
+  method: 'platt';
+  slope: number;
+  intercept: number;
+  covariance: [[number, number], [number, number]]; // of (slope, intercept), from the Fisher information
+}
+
+// Pool-adjacent-violators block: scores up to maxScore map to probability.
+export interface IsotonicBlock {
+  maxScore: number;
+  probability: number;
+  count: number;
+  positives: number;
+}
+
+export interface IsotonicCalibrator {
+  method: 'isotonic';
+  blocks: IsotonicBlock[]; // ordered by maxScore
+}
+
+export type ProbabilityCalibrator = PlattCalibrator | IsotonicCalibrator;
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  meanPredicted: number;
+  observedRate: number;
+  count: number;
+}
+
+export interface ProbabilityCalibrationReport {
+  calibrator: ProbabilityCalibrator; // fitted on every out-of-fold score
+  // Both scores use cross-fitted probabilities: each fold is calibrated by a
+  // calibrator fitted on the other folds' scores.
+  brierScore: number;
+  uncalibratedBrierScore: number;
+  reliability: ReliabilityBin[]; // non-empty bins only
+}
+
+export interface CalibratedProbability {
+  probability: number;
+  interval: [number, number]; // 95% confidence interval
+}
+
+const Z_95 = 1.959964;
+const RELIABILITY_BINS = 10;
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+const clampProbability = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Platt (1999): logistic fit of the labels on the score, with targets pulled
+// slightly off 0 and 1 so separable scores do not drive the slope to infinity.
+function fitPlatt(scores: number[], labels: VoiceClass[]): PlattCalibrator {
+  const positives = labels.filter((label) => label === 'Parkinsons').length;
+  const negatives = labels.length - positives;
+  const highTarget = (positives + 1) / (positives + 2);
+  const lowTarget = 1 / (negatives + 2);
+  const targets = labels.map((label) => (label === 'Parkinsons' ? highTarget : lowTarget));
+
+  let slope = 0;
+  let intercept = Math.log((positives + 1) / (negatives + 1));
+  let hessian: [[number, number], [number, number]] = [[0, 0], [0, 0]];
+  for (let iteration = 0; iteration < 100; iteration += 1) {
+    let gradientSlope = 0;
+    let gradientIntercept = 0;
+    // A small ridge keeps the Newton step defined when every score is equal.
+    hessian = [[1e-9, 0], [0, 1e-9]];
+    scores.forEach((score, index) => {
+      const probability = sigmoid(slope * score + intercept);
+      const error = probability - targets[index];
+      const weight = probability * (1 - probability);
+      gradientSlope += error * score;
+      gradientIntercept += error;
+      hessian[0][0] += weight * score * score;
+      hessian[0][1] += weight * score;
+      hessian[1][1] += weight;
+    });
+    hessian[1][0] = hessian[0][1];
+    const determinant = hessian[0][0] * hessian[1][1] - hessian[0][1] * hessian[1][0];
+    const stepSlope = (hessian[1][1] * gradientSlope - hessian[0][1] * gradientIntercept) / determinant;
+    const stepIntercept = (hessian[0][0] * gradientIntercept - hessian[1][0] * gradientSlope) / determinant;
+    slope -= stepSlope;
+    intercept -= stepIntercept;
+    if (Math.abs(stepSlope) + Math.abs(stepIntercept) < 1e-10) {
+      break;
+    }
+  }
+  const determinant = hessian[0][0] * hessian[1][1] - hessian[0][1] * hessian[1][0];
+  return {
+    method: 'platt',
+    slope,
+    intercept,
+    covariance: [
+      [hessian[1][1] / determinant, -hessian[0][1] / determinant],
+      [-hessian[1][0] / determinant, hessian[0][0] / determinant],
+    ],
+  };
+}
+
+function fitIsotonic(scores: number[], labels: VoiceClass[]): IsotonicCalibrator {
+  const order = scores.map((score, index) => ({ score, positive: labels[index] === 'Parkinsons' ? 1 : 0 }))
+    .sort((a, b) => a.score - b.score);
+  const blocks: IsotonicBlock[] = [];
+  order.forEach(({ score, positive }) => {
+    // Equal scores must land in one block, or the fit would depend on tie order.
+    const last = blocks[blocks.length - 1];
+    if (last && last.maxScore === score) {
+      last.count += 1;
+      last.positives += positive;
+      last.probability = last.positives / last.count;
+    } else {
+      blocks.push({ maxScore: score, probability: positive, count: 1, positives: positive });
+    }
+    while (blocks.length > 1 && blocks[blocks.length - 2].probability >= blocks[blocks.length - 1].probability) {
+      const merged = blocks.pop()!;
+      const previous = blocks[blocks.length - 1];
+      previous.maxScore = merged.maxScore;
+      previous.count += merged.count;
+      previous.positives += merged.positives;
+      previous.probability = previous.positives / previous.count;
+    }
+  });
+  return { method: 'isotonic', blocks };
+}
+
+export function fitProbabilityCalibrator(
+  method: ProbabilityCalibrationMethod,
+  scores: number[],
+  labels: VoiceClass[],
+): ProbabilityCalibrator {
+  if (!scores.length) {
+    throw new Error('Probability calibration needs at least one out-of-fold score.');
+  }
+  return method === 'platt' ? fitPlatt(scores, labels) : fitIsotonic(scores, labels);
+}
+
+// Wilson score interval for a binomial proportion.
+function wilsonInterval(positives: number, count: number): [number, number] {
+  const proportion = positives / count;
+  const denominator = 1 + (Z_95 * Z_95) / count;
+  const centre = (proportion + (Z_95 * Z_95) / (2 * count)) / denominator;
+  const halfWidth = (Z_95 * Math.sqrt((proportion * (1 - proportion)) / count + (Z_95 * Z_95) / (4 * count * count))) / denominator;
+  return [clampProbability(centre - halfWidth), clampProbability(centre + halfWidth)];
+}
+
+/**
+ * Calibrated probability for a raw score. The interval reflects the
+ * uncertainty of the calibration fit: the delta method on the Platt logit, or
+ * a Wilson interval over the recordings in the matching isotonic block.
+ */
+export function calibrateProbability(calibrator: ProbabilityCalibrator, score: number): CalibratedProbability {
+  if (calibrator.method === 'platt') {
+    const { slope, intercept, covariance } = calibrator;
+    const logit = slope * score + intercept;
+    const variance = score * score * covariance[0][0] + 2 * score * covariance[0][1] + covariance[1][1];
+    const margin = Z_95 * Math.sqrt(Math.max(variance, 0));
+    return { probability: sigmoid(logit), interval: [sigmoid(logit - margin), sigmoid(logit + margin)] };
+  }
+  const { blocks } = calibrator;
+  const block = blocks.find((candidate) => score <= candidate.maxScore) ?? blocks[blocks.length - 1];
+  return { probability: block.probability, interval: wilsonInterval(block.positives, block.count) };
+}
+
+const brierScore = (probabilities: number[], labels: VoiceClass[]) =>
+  probabilities.reduce((sum, probability, index) => sum + (probability - (labels[index] === 'Parkinsons' ? 1 : 0)) ** 2, 0)
+  / probabilities.length;
+
+function reliabilityBins(probabilities: number[], labels: VoiceClass[]): ReliabilityBin[] {
+  const bins = Array.from({ length: RELIABILITY_BINS }, (_, index) => ({
+    lower: index / RELIABILITY_BINS,
+    upper: (index + 1) / RELIABILITY_BINS,
+    predictedSum: 0,
+    positives: 0,
+    count: 0,
+  }));
+  probabilities.forEach((probability, index) => {
+    const bin = bins[Math.min(Math.floor(probability * RELIABILITY_BINS), RELIABILITY_BINS - 1)];
+    bin.predictedSum += probability;
+    bin.positives += labels[index] === 'Parkinsons' ? 1 : 0;
+    bin.count += 1;
+  });
+  return bins
+    .filter((bin) => bin.count)
+    .map(({ lower, upper, predictedSum, positives, count }) => ({
+      lower,
+      upper,
+      meanPredicted: predictedSum / count,
+      observedRate: positives / count,
+      count,
+    }));
+}
+
+/**
+ * Fits the calibrator on all out-of-fold scores and measures it honestly by
+ * cross-fitting: each fold's scores are calibrated by a calibrator fitted on
+ * the remaining folds. Returns those cross-fitted probabilities as well, for
+ * computing the model's evaluation metrics.
+ */
+export function crossFitProbabilityCalibration(
+  method: ProbabilityCalibrationMethod,
+  scores: number[],
+  labels: VoiceClass[],
+  foldOf: number[],
+): { report: ProbabilityCalibrationReport; calibratedOutOfFold: number[] } {
+  const calibratedOutOfFold = new Array<number>(scores.length).fill(0);
+  new Set(foldOf).forEach((fold) => {
+    const trainIndices = scores.map((_, index) => index).filter((index) => foldOf[index] !== fold);
+    const calibrator = fitProbabilityCalibrator(
+      method,
+      trainIndices.map((index) => scores[index]),
+      trainIndices.map((index) => labels[index]),
+    );
+    foldOf.forEach((sampleFold, index) => {
+      if (sampleFold === fold) {
+        calibratedOutOfFold[index] = calibrateProbability(calibrator, scores[index]).probability;
+      }
+    });
+  });
+  return {
+    report: {
+      calibrator: fitProbabilityCalibrator(method, scores, labels),
+      brierScore: brierScore(calibratedOutOfFold, labels),
+      uncalibratedBrierScore: brierScore(scores, labels),
+      reliability: reliabilityBins(calibratedOutOfFold, labels),
+    },
+    calibratedOutOfFold,
+  };
+}
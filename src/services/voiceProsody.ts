@@ -0,0 +1,175 @@
+import type { VoiceSegment } from './voiceActivity';
+
+// Prosody and speech-rate measures for the counting and sentence prompts.
+// Hypokinetic dysarthria flattens pitch and loudness, fragments speech with
+// pauses, changes the articulation rate and lets loudness fade over an
+// utterance, usually before sustained-vowel perturbation rises.
+
+export interface VoiceProsodyFeatures {
+  f0MeanHz: number;
+  f0StdSemitones: number; // monopitch
+  intensityStdDb: number; // monoloudness
+  pauseRatio: number; // silent pause time over the utterance span
+  pauseCount: number;
+  articulationRate: number; // syllable nuclei per second of speaking time
+  speakingSeconds: number; // utterance span minus silent pauses
+  intensityDecayDbPerSecond: number; // negative when loudness fades towards the end
+}
+
+const FRAME_SECONDS = 0.04;
+const HOP_SECONDS = 0.01;
+// Gaps shorter than this between voiced regions are stops and fricatives
+// inside words, not pauses.
+const MIN_PAUSE_SECONDS = 0.25;
+// Syllable nuclei after de Jong & Wempe (2009): intensity peaks no more than
+// 25 dB below the loudest speech, separated by dips of at least 2 dB.
+const NUCLEUS_THRESHOLD_BELOW_MAX_DB = 25;
+const MIN_NUCLEUS_DIP_DB = 2;
+const SMOOTHING_FRAMES = 5;
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const valueMean = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - valueMean) ** 2, 0) / (values.length - 1));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0;
+}
+
+function intensityContour(samples: Float32Array, from: number, to: number, frameSize: number, hopSize: number): number[] {
+  const levels: number[] = [];
+  for (let start = from; start + frameSize <= to; start += hopSize) {
+    let energy = 0;
+    for (let index = start; index < start + frameSize; index += 1) {
+      energy += samples[index] * samples[index];
+    }
+    levels.push(10 * Math.log10(energy / frameSize + 1e-12));
+  }
+  return levels;
+}
+
+function smooth(values: number[], width: number): number[] {
+  const half = Math.floor(width / 2);
+  return values.map((_, index) => mean(values.slice(Math.max(0, index - half), index + half + 1)));
+}
+
+function countSyllableNuclei(levels: number[], inSpeech: boolean[]): number {
+  const speechLevels = levels.filter((_, index) => inSpeech[index]);
+  if (!speechLevels.length) {
+    return 0;
+  }
+  const threshold = Math.max(...speechLevels) - NUCLEUS_THRESHOLD_BELOW_MAX_DB;
+  const nuclei: number[] = [];
+  for (let index = 1; index < levels.length - 1; index += 1) {
+    const isPeak = levels[index] >= levels[index - 1] && levels[index] > levels[index + 1];
+    if (!isPeak || !inSpeech[index] || levels[index] < threshold) {
+      continue;
+    }
+    const previous = nuclei[nuclei.length - 1];
+    if (previous === undefined) {
+      nuclei.push(index);
+      continue;
+    }
+    const dip = Math.min(...levels.slice(previous, index + 1));
+    if (levels[index] - dip >= MIN_NUCLEUS_DIP_DB && levels[previous] - dip >= MIN_NUCLEUS_DIP_DB) {
+      nuclei.push(index);
+    } else if (levels[index] > levels[previous]) {
+      // Same syllable: keep its loudest point.
+      nuclei[nuclei.length - 1] = index;
+    }
+  }
+  return nuclei.length;
+}
+
+// Least-squares slope of level (dB) against time (s).
+function slope(times: number[], levels: number[]): number {
+  if (times.length < 2) {
+    return 0;
+  }
+  const timeMean = mean(times);
+  const levelMean = mean(levels);
+  let covariance = 0;
+  let variance = 0;
+  times.forEach((time, index) => {
+    covariance += (time - timeMean) * (levels[index] - levelMean);
+    variance += (time - timeMean) ** 2;
+  });
+  return variance ? covariance / variance : 0;
+}
+
+/**
+ * Computes prosody from the original recording and its voice activity segments
+ * (on the recording's own timeline), plus the F0 of the voiced pitch frames.
+ * Returns null when no speech was detected.
+ */
+export function computeProsodyFeatures(
+  samples: Float32Array,
+  sampleRate: number,
+  segments: VoiceSegment[],
+  f0Hz: number[],
+): VoiceProsodyFeatures | null {
+  if (!segments.length) {
+    return null;
+  }
+  const ordered = [...segments].sort((a, b) => a.start - b.start);
+  const spanStart = ordered[0].start;
+  const spanEnd = ordered[ordered.length - 1].end;
+  const spanSeconds = (spanEnd - spanStart) / sampleRate;
+
+  let pauseSeconds = 0;
+  let pauseCount = 0;
+  for (let index = 1; index < ordered.length; index += 1) {
+    const gap = (ordered[index].start - ordered[index - 1].end) / sampleRate;
+    if (gap >= MIN_PAUSE_SECONDS) {
+      pauseSeconds += gap;
+      pauseCount += 1;
+    }
+  }
+  const speakingSeconds = Math.max(spanSeconds - pauseSeconds, 0);
+
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const hopSize = Math.max(1, Math.round(sampleRate * HOP_SECONDS));
+  const levels = smooth(intensityContour(samples, spanStart, spanEnd, frameSize, hopSize), SMOOTHING_FRAMES);
+  const frameCentre = (index: number) => spanStart + index * hopSize + frameSize / 2;
+  const inSpeech = levels.map((_, index) => {
+    const centre = frameCentre(index);
+    return ordered.some((segment) => centre >= segment.start && centre < segment.end);
+  });
+
+  const speechTimes: number[] = [];
+  const speechLevels: number[] = [];
+  levels.forEach((level, index) => {
+    if (inSpeech[index]) {
+      speechTimes.push((frameCentre(index) - spanStart) / sampleRate);
+      speechLevels.push(level);
+    }
+  });
+
+  // Semitones relative to the speaker's median F0; octave errors the pitch
+  // tracker could not repair would otherwise dominate the spread.
+  const f0Median = median(f0Hz);
+  const semitones = f0Median
+    ? f0Hz.map((frequency) => 12 * Math.log2(frequency / f0Median)).filter((value) => Math.abs(value) < 11.5)
+    : [];
+
+  const nuclei = countSyllableNuclei(levels, inSpeech);
+
+  return {
+    f0MeanHz: mean(f0Hz),
+    f0StdSemitones: standardDeviation(semitones),
+    intensityStdDb: standardDeviation(speechLevels),
+    pauseRatio: spanSeconds ? pauseSeconds / spanSeconds : 0,
+    pauseCount,
+    articulationRate: speakingSeconds ? nuclei / speakingSeconds : 0,
+    speakingSeconds,
+    intensityDecayDbPerSecond: slope(speechTimes, speechLevels),
+  };
+}
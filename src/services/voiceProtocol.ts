@@ -0,0 +1,83 @@
+import type { VoiceRecordingFormat } from './pcmRecorder';
+import type { VoicePromptKind } from './voiceActivity';
+import type { VoiceFeatureKey, VoiceFeatureVector, VoicePrediction } from './voiceKnnModel';
+import type { VoiceProsodyFeatures } from './voiceProsody';
+import type { VoiceQualityReport } from './voiceQuality';
+
+// Multi-task voice protocol: every screening session records the same tasks in
+// the same order, so results from different sessions can be compared task by
+// task as well as through the aggregated probability.
+
+export const VOICE_PROTOCOL_VERSION = 'voice-protocol-v1';
+
+export const VOICE_PROTOCOL_TASKS: readonly VoicePromptKind[] = ['sustained-vowel', 'counting', 'sentence'];
+
+// The reference dataset was recorded from sustained vowels, so that task counts
+// for half of the aggregate; the connected-speech tasks share the rest.
+const TASK_WEIGHTS: Record<VoicePromptKind, number> = {
+  'sustained-vowel': 0.5,
+  counting: 0.25,
+  sentence: 0.25,
+};
+
+export interface VoiceTaskResult {
+  kind: VoicePromptKind;
+  quality: VoiceQualityReport;
+  features: VoiceFeatureVector;
+  prosody: VoiceProsodyFeatures | null; // null for the sustained vowel
+  prediction: VoicePrediction;
+  recordingFormat: VoiceRecordingFormat;
+}
+
+export interface VoiceProtocolAggregate {
+  label: VoicePrediction['label'];
+  probabilityOfParkinsons: number;
+  // Weighted like the probability; the task intervals are not independent,
+  // so this is no tighter than the average task interval. Null unless every
+  // task has one.
+  probabilityInterval: [number, number] | null;
+  weights: Partial<Record<VoicePromptKind, number>>; // renormalised over the tasks that were analysed
+  // Task attributions combined with the same weights, largest absolute contribution first.
+  attributions: Array<{ feature: VoiceFeatureKey; contribution: number }>;
+  completedTasks: VoicePromptKind[];
+  complete: boolean; // every protocol task contributed
+}
+
+export function aggregateVoiceTasks(results: VoiceTaskResult[]): VoiceProtocolAggregate {
+  const usable = VOICE_PROTOCOL_TASKS
+    .map((kind) => results.find((result) => result.kind === kind))
+    .filter((result): result is VoiceTaskResult => Boolean(result));
+  if (!usable.length) {
+    throw new Error('At least one voice task must be analysed before results can be aggregated.');
+  }
+
+  const totalWeight = usable.reduce((sum, result) => sum + TASK_WEIGHTS[result.kind], 0);
+  const weights: Partial<Record<VoicePromptKind, number>> = {};
+  let probability = 0;
+  let interval: [number, number] | null = [0, 0];
+  const contributions = new Map<VoiceFeatureKey, number>();
+  usable.forEach((result) => {
+    const weight = TASK_WEIGHTS[result.kind] / totalWeight;
+    weights[result.kind] = weight;
+    probability += weight * result.prediction.probabilityOfParkinsons;
+    const taskInterval = result.prediction.probabilityInterval;
+    interval = interval && taskInterval
+      ? [interval[0] + weight * taskInterval[0], interval[1] + weight * taskInterval[1]]
+      : null;
+    result.prediction.attributions.attributions.forEach(({ feature, contribution }) => {
+      contributions.set(feature, (contributions.get(feature) ?? 0) + weight * contribution);
+    });
+  });
+
+  return {
+    label: probability >= 0.5 ? 'Parkinsons' : 'Healthy',
+    probabilityOfParkinsons: probability,
+    probabilityInterval: interval,
+    weights,
+    attributions: [...contributions]
+      .map(([feature, contribution]) => ({ feature, contribution }))
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution)),
+    completedTasks: usable.map((result) => result.kind),
+    complete: usable.length === VOICE_PROTOCOL_TASKS.length,
+  };
+}
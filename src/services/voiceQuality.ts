@@ -0,0 +1,150 @@
+// Recording quality gate for the voice pipeline. A recording has to clear every
+// threshold before it is classified; otherwise the report's issues tell the
+// user what to change before recording again.
+
+export interface VoiceQualityThresholds {
+  minSnrDb: number;
+  maxClippingRatio: number;
+  minVoicedFrameRatio: number;
+  minEffectiveDurationSeconds: number;
+  minSampleRate: number;
+  maxRejectedFrameRatio: number;
+}
+
+export interface VoiceQualityReport {
+  passed: boolean;
+  issues: string[];
+  snrDb: number;
+  clippingRatio: number;
+  voicedFrameRatio: number;
+  effectiveDurationSeconds: number; // voiced audio kept by voice activity detection
+  sampleRate: number;
+  rejectedFrameRatio: number; // frames whose autocorrelation peak fell below the 0.3 voicing threshold
+  thresholds: VoiceQualityThresholds;
+}
+
+export interface PitchFrameCounts {
+  total: number;
+  voiced: number;
+  rejected: number;
+}
+
+export const DEFAULT_VOICE_QUALITY_THRESHOLDS: VoiceQualityThresholds = {
+  minSnrDb: 15,
+  maxClippingRatio: 0.005,
+  minVoicedFrameRatio: 0.3,
+  minEffectiveDurationSeconds: 2,
+  minSampleRate: 16000,
+  maxRejectedFrameRatio: 0.6,
+};
+
+const CLIPPING_LEVEL = 0.99;
+const MAX_REPORTED_SNR_DB = 60;
+
+function percentile(sorted: number[], fraction: number): number {
+  if (!sorted.length) {
+    return 0;
+  }
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(fraction * (sorted.length - 1))));
+  return sorted[index];
+}
+
+// SNR is estimated from the spread of 30 ms frame levels across the whole
+// recording: the quietest decile stands in for the noise floor (the pauses
+// around the prompt) and the loudest decile for the voice.
+export function estimateSnrDb(samples: Float32Array, sampleRate: number): number {
+  const frameSize = Math.max(1, Math.round(sampleRate * 0.03));
+  const hopSize = Math.max(1, Math.round(sampleRate * 0.01));
+  const levels: number[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    let energy = 0;
+    for (let index = start; index < start + frameSize; index += 1) {
+      energy += samples[index] * samples[index];
+    }
+    levels.push(Math.sqrt(energy / frameSize));
+  }
+  levels.sort((a, b) => a - b);
+  const noise = percentile(levels, 0.1);
+  const signal = percentile(levels, 0.9);
+  if (signal <= 0) {
+    return 0;
+  }
+  if (noise <= 0) {
+    return MAX_REPORTED_SNR_DB;
+  }
+  return Math.min(MAX_REPORTED_SNR_DB, 20 * Math.log10(signal / noise));
+}
+
+export function measureClippingRatio(samples: Float32Array): number {
+  if (!samples.length) {
+    return 0;
+  }
+  let clipped = 0;
+  for (let index = 0; index < samples.length; index += 1) {
+    if (Math.abs(samples[index]) >= CLIPPING_LEVEL) {
+      clipped += 1;
+    }
+  }
+  return clipped / samples.length;
+}
+
+export function assessVoiceQuality(
+  measurements: {
+    rawSamples: Float32Array;
+    sampleRate: number;
+    effectiveDurationSeconds: number;
+    frames: PitchFrameCounts;
+  },
+  thresholds: Partial<VoiceQualityThresholds> = {},
+): VoiceQualityReport {
+  const limits = { ...DEFAULT_VOICE_QUALITY_THRESHOLDS, ...thresholds };
+  const { rawSamples, sampleRate, effectiveDurationSeconds, frames } = measurements;
+  const snrDb = estimateSnrDb(rawSamples, sampleRate);
+  const clippingRatio = measureClippingRatio(rawSamples);
+  const voicedFrameRatio = frames.total ? frames.voiced / frames.total : 0;
+  const rejectedFrameRatio = frames.total ? frames.rejected / frames.total : 1;
+
+  const issues: string[] = [];
+  if (sampleRate < limits.minSampleRate) {
+    issues.push(
+      `The microphone delivered ${sampleRate} Hz audio; at least ${limits.minSampleRate} Hz is needed. Try a different microphone or browser.`,
+    );
+  }
+  if (effectiveDurationSeconds < limits.minEffectiveDurationSeconds) {
+    issues.push(
+      `Only ${effectiveDurationSeconds.toFixed(1)} s of clear voice was detected. Keep voicing for at least ${limits.minEffectiveDurationSeconds} s.`,
+    );
+  }
+  if (snrDb < limits.minSnrDb) {
+    issues.push(
+      `Background noise is too high (SNR ${snrDb.toFixed(1)} dB, need ${limits.minSnrDb} dB). Move to a quieter room or closer to the microphone.`,
+    );
+  }
+  if (clippingRatio > limits.maxClippingRatio) {
+    issues.push(
+      `${(clippingRatio * 100).toFixed(1)}% of the recording is clipped. Hold the microphone further away or speak a little more softly.`,
+    );
+  }
+  if (voicedFrameRatio < limits.minVoicedFrameRatio) {
+    issues.push(
+      `Only ${(voicedFrameRatio * 100).toFixed(0)}% of the recording contained a measurable voice. Speak steadily without long pauses.`,
+    );
+  }
+  if (rejectedFrameRatio > limits.maxRejectedFrameRatio) {
+    issues.push(
+      `${(rejectedFrameRatio * 100).toFixed(0)}% of frames were too irregular to measure pitch. Keep a steady, comfortable pitch and avoid whispering.`,
+    );
+  }
+
+  return {
+    passed: issues.length === 0,
+    issues,
+    snrDb,
+    clippingRatio,
+    voicedFrameRatio,
+    effectiveDurationSeconds,
+    sampleRate,
+    rejectedFrameRatio,
+    thresholds: limits,
+  };
+}
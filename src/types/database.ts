@@ -9,6 +9,8 @@ export type Json =
 export type Profile = Database['public']['Tables']['patient_profiles']['Row'];
 export type Test = Database['public']['Tables']['tests']['Row'];
 export type Appointment = Database['public']['Tables']['appointments']['Row'];
+export type MicrophoneCalibration = Database['public']['Tables']['microphone_calibrations']['Row'];
+export type DrawingSession = Database['public']['Tables']['drawing_sessions']['Row'];
 
 export interface Database {
   public: {
@@ -43,6 +45,7 @@ export interface Database {
           consent_flags?: Json | null
           updated_at?: string
         }
+        Relationships: []
       }
       tests: {
         Row: {
@@ -54,6 +57,8 @@ export interface Database {
           result: Json | null
           model_versions: Json | null
           confidence: number | null
+          kinematics: Json | null
+          session_id: string | null
           created_at: string
         }
         Insert: {
@@ -65,6 +70,8 @@ export interface Database {
           result?: Json | null
           model_versions?: Json | null
           confidence?: number | null
+          kinematics?: Json | null
+          session_id?: string | null
         }
         Update: {
           raw_storage_path?: string | null
@@ -72,8 +79,11 @@ export interface Database {
           result?: Json | null
           model_versions?: Json | null
           confidence?: number | null
+          kinematics?: Json | null
+          session_id?: string | null
           test_type?: string
         }
+        Relationships: []
       }
       reports: {
         Row: {
@@ -92,6 +102,7 @@ export interface Database {
         Update: {
           pdf_storage_path?: string | null
         }
+        Relationships: []
       }
       orders: {
         Row: {
@@ -114,6 +125,7 @@ export interface Database {
           status?: string | null
           external_order_id?: string | null
         }
+        Relationships: []
       }
       appointments: {
         Row: {
@@ -153,12 +165,58 @@ export interface Database {
           prescription_storage_path?: string | null
           updated_at?: string
         }
+        Relationships: []
+      }
+      microphone_calibrations: {
+        Row: {
+          id: string
+          patient_id: string
+          device_id: string
+          device_label: string | null
+          method: string
+          transform: Json
+          reference_count: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          device_id: string
+          device_label?: string | null
+          method: string
+          transform: Json
+          reference_count?: number
+        }
+        Update: {
+          device_label?: string | null
+          method?: string
+          transform?: Json
+          reference_count?: number
+        }
+        Relationships: []
+      }
+      drawing_sessions: {
+        Row: {
+          id: string
+          patient_id: string
+          template_version: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          template_version: string
+        }
+        Update: {
+          template_version?: string
+        }
+        Relationships: []
       }
     }
     Views: { [_ in never]: never }
     Functions: { [_ in never]: never }
     Enums: {
-        test_type: 'speech' | 'spiral' | 'wave' | 'video'
+        test_type: 'speech' | 'spiral' | 'wave' | 'video' | 'drawing'
     }
     CompositeTypes: { [_ in never]: never }
   }
@@ -0,0 +1,202 @@
+// Exact k-nearest-neighbour search over a ball tree (Omohundro 1989). Each
+// node stores the centroid of its points and the radius that encloses them,
+// so a whole subtree is skipped once its closest possible point is farther
+// than the current k-th neighbour. Pruning only relies on the triangle
+// inequality, so it works for any metric, but like every spatial index it
+// stops paying off once the data has more than a few dozen effective
+// dimensions (see KNN_INDEX_BENCHMARK.md).
+
+export type BallTreeMetric = 'euclidean' | 'manhattan';
+
+export interface NearestNeighbour {
+  index: number; // position in the vectors the tree was built from
+  distance: number;
+}
+
+export interface BallTree {
+  readonly size: number;
+  readonly dimensions: number;
+  /** The k nearest vectors, nearest first; equal distances keep input order. */
+  nearest(query: ArrayLike<number>, k: number): NearestNeighbour[];
+}
+
+export const BALL_TREE_LEAF_SIZE = 16;
+
+// Stops summing once the distance is known to exceed `limit`, returning a
+// value that is only guaranteed to be above it. Most candidates in a leaf are
+// rejected after a fraction of the dimensions.
+function distanceAt(
+  metric: BallTreeMetric,
+  query: ArrayLike<number>,
+  data: Float64Array,
+  offset: number,
+  dimensions: number,
+  limit = Infinity,
+): number {
+  let sum = 0;
+  if (metric === 'manhattan') {
+    for (let dimension = 0; dimension < dimensions; dimension += 1) {
+      sum += Math.abs(query[dimension] - data[offset + dimension]);
+      if (sum > limit) {
+        return sum;
+      }
+    }
+    return sum;
+  }
+  const squaredLimit = limit * limit;
+  for (let dimension = 0; dimension < dimensions; dimension += 1) {
+    const diff = query[dimension] - data[offset + dimension];
+    sum += diff * diff;
+    if (sum > squaredLimit) {
+      return Math.sqrt(sum);
+    }
+  }
+  return Math.sqrt(sum);
+}
+
+// Keeps `best` sorted by distance, then index, and at most k long.
+function offerNeighbour(best: NearestNeighbour[], k: number, index: number, distance: number) {
+  if (best.length === k) {
+    const worst = best[k - 1];
+    if (distance > worst.distance || (distance === worst.distance && index > worst.index)) {
+      return;
+    }
+    best.pop();
+  }
+  let position = best.length;
+  while (
+    position > 0 &&
+    (best[position - 1].distance > distance || (best[position - 1].distance === distance && best[position - 1].index > index))
+  ) {
+    position -= 1;
+  }
+  best.splice(position, 0, { index, distance });
+}
+
+export function buildBallTree(
+  vectors: ArrayLike<number>[],
+  metric: BallTreeMetric = 'euclidean',
+  leafSize = BALL_TREE_LEAF_SIZE,
+): BallTree {
+  const size = vectors.length;
+  const dimensions = size ? vectors[0].length : 0;
+  const data = new Float64Array(size * dimensions);
+  vectors.forEach((vector, index) => {
+    for (let dimension = 0; dimension < dimensions; dimension += 1) {
+      data[index * dimensions + dimension] = vector[dimension];
+    }
+  });
+  const order = new Uint32Array(size).map((_, index) => index);
+
+  const starts: number[] = [];
+  const ends: number[] = [];
+  const lefts: number[] = [];
+  const rights: number[] = [];
+  const radii: number[] = [];
+  const centroidRows: Float64Array[] = [];
+
+  const build = (start: number, end: number): number => {
+    const node = starts.length;
+    starts.push(start);
+    ends.push(end);
+    lefts.push(-1);
+    rights.push(-1);
+    const centroid = new Float64Array(dimensions);
+    for (let position = start; position < end; position += 1) {
+      const offset = order[position] * dimensions;
+      for (let dimension = 0; dimension < dimensions; dimension += 1) {
+        centroid[dimension] += data[offset + dimension] / (end - start);
+      }
+    }
+    let radius = 0;
+    for (let position = start; position < end; position += 1) {
+      radius = Math.max(radius, distanceAt(metric, centroid, data, order[position] * dimensions, dimensions));
+    }
+    centroidRows.push(centroid);
+    radii.push(radius);
+
+    if (end - start > leafSize) {
+      // Split at the median of the dimension with the widest spread.
+      let splitDimension = 0;
+      let widest = -1;
+      for (let dimension = 0; dimension < dimensions; dimension += 1) {
+        let min = Infinity;
+        let max = -Infinity;
+        for (let position = start; position < end; position += 1) {
+          const value = data[order[position] * dimensions + dimension];
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        }
+        if (max - min > widest) {
+          widest = max - min;
+          splitDimension = dimension;
+        }
+      }
+      order.subarray(start, end).sort(
+        (a, b) => data[a * dimensions + splitDimension] - data[b * dimensions + splitDimension] || a - b,
+      );
+      const middle = (start + end) >> 1;
+      lefts[node] = build(start, middle);
+      rights[node] = build(middle, end);
+    }
+    return node;
+  };
+  if (size) {
+    build(0, size);
+  }
+  const centroids = new Float64Array(centroidRows.length * dimensions);
+  centroidRows.forEach((centroid, node) => centroids.set(centroid, node * dimensions));
+
+  return {
+    size,
+    dimensions,
+    nearest(query, k) {
+      const count = Math.min(Math.max(Math.floor(k), 0), size);
+      const best: NearestNeighbour[] = [];
+      if (!count) {
+        return best;
+      }
+      const lowerBound = (node: number) =>
+        Math.max(0, distanceAt(metric, query, centroids, node * dimensions, dimensions) - radii[node]);
+      const visit = (node: number, bound: number) => {
+        // A tie with the current k-th neighbour can still win on index, so
+        // only strictly farther subtrees are skipped.
+        if (best.length === count && bound > best[count - 1].distance) {
+          return;
+        }
+        if (lefts[node] === -1) {
+          for (let position = starts[node]; position < ends[node]; position += 1) {
+            const index = order[position];
+            const limit = best.length === count ? best[count - 1].distance : Infinity;
+            offerNeighbour(best, count, index, distanceAt(metric, query, data, index * dimensions, dimensions, limit));
+          }
+          return;
+        }
+        const leftBound = lowerBound(lefts[node]);
+        const rightBound = lowerBound(rights[node]);
+        if (leftBound <= rightBound) {
+          visit(lefts[node], leftBound);
+          visit(rights[node], rightBound);
+        } else {
+          visit(rights[node], rightBound);
+          visit(lefts[node], leftBound);
+        }
+      };
+      visit(0, lowerBound(0));
+      return best;
+    },
+  };
+}
+
+/** Reference linear scan with the same ordering as {@link BallTree.nearest}. */
+export function bruteForceNearest(
+  vectors: ArrayLike<number>[],
+  query: ArrayLike<number>,
+  k: number,
+  distance: (a: ArrayLike<number>, b: ArrayLike<number>) => number,
+): NearestNeighbour[] {
+  return vectors
+    .map((vector, index) => ({ index, distance: distance(query, vector) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, Math.max(Math.floor(k), 0));
+}
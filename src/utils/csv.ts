@@ -0,0 +1,62 @@
+/**
+ * Parses CSV text per RFC 4180: fields may be quoted, quoted fields may hold
+ * commas, line breaks and doubled quotes (""), and records end in CRLF or LF.
+ * Returns one array of fields per record; a trailing line break does not add
+ * an empty record.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let index = 0;
+  // A leading byte order mark would otherwise become part of the first header.
+  if (text.charCodeAt(0) === 0xfeff) {
+    index = 1;
+  }
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"') {
+        if (text[index + 1] === '"') {
+          field += '"';
+          index += 1;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+    index += 1;
+  }
+  if (quoted) {
+    throw new Error('The CSV ends inside a quoted field.');
+  }
+  if (field !== '' || record.length) {
+    endRecord();
+  }
+  return records;
+}
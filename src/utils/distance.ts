@@ -0,0 +1,83 @@
+// Distance metrics for nearest-neighbour search over feature vectors.
+
+export type DistanceMetric = 'euclidean' | 'manhattan' | 'cosine' | 'mahalanobis';
+
+export function euclideanDistance(vectorA: ArrayLike<number>, vectorB: ArrayLike<number>): number {
+  let sum = 0;
+  for (let index = 0; index < vectorA.length; index += 1) {
+    const diff = vectorA[index] - vectorB[index];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+}
+
+export function manhattanDistance(vectorA: ArrayLike<number>, vectorB: ArrayLike<number>): number {
+  let sum = 0;
+  for (let index = 0; index < vectorA.length; index += 1) {
+    sum += Math.abs(vectorA[index] - vectorB[index]);
+  }
+  return sum;
+}
+
+/** One minus the cosine similarity; 1 when either vector is all zeros. */
+export function cosineDistance(vectorA: ArrayLike<number>, vectorB: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < vectorA.length; index += 1) {
+    dot += vectorA[index] * vectorB[index];
+    normA += vectorA[index] * vectorA[index];
+    normB += vectorB[index] * vectorB[index];
+  }
+  return normA && normB ? 1 - dot / Math.sqrt(normA * normB) : 1;
+}
+
+/**
+ * Lower Cholesky factor L of the vectors' covariance matrix (plus `ridge` on
+ * the diagonal, which keeps collinear features such as the jitter variants
+ * invertible). Mahalanobis distance is the Euclidean distance between vectors
+ * whitened with {@link whiten}.
+ */
+export function covarianceCholesky(vectors: number[][], ridge = 1e-3): number[][] {
+  if (!vectors.length) {
+    throw new Error('Cannot estimate a covariance matrix without any vectors.');
+  }
+  const dimensions = vectors[0].length;
+  const means = new Array<number>(dimensions).fill(0);
+  vectors.forEach((vector) => vector.forEach((value, index) => { means[index] += value / vectors.length; }));
+  const covariance = Array.from({ length: dimensions }, () => new Array<number>(dimensions).fill(0));
+  const divisor = Math.max(vectors.length - 1, 1);
+  vectors.forEach((vector) => {
+    for (let row = 0; row < dimensions; row += 1) {
+      const deviation = vector[row] - means[row];
+      for (let column = 0; column <= row; column += 1) {
+        covariance[row][column] += (deviation * (vector[column] - means[column])) / divisor;
+      }
+    }
+  });
+
+  const lower = Array.from({ length: dimensions }, () => new Array<number>(dimensions).fill(0));
+  for (let row = 0; row < dimensions; row += 1) {
+    for (let column = 0; column <= row; column += 1) {
+      let sum = covariance[row][column] + (row === column ? ridge : 0);
+      for (let inner = 0; inner < column; inner += 1) {
+        sum -= lower[row][inner] * lower[column][inner];
+      }
+      lower[row][column] = row === column ? Math.sqrt(Math.max(sum, 1e-12)) : sum / lower[column][column];
+    }
+  }
+  return lower;
+}
+
+/** Solves L·y = vector by forward substitution. */
+export function whiten(vector: ArrayLike<number>, lower: number[][]): number[] {
+  const whitened = new Array<number>(lower.length);
+  for (let row = 0; row < lower.length; row += 1) {
+    let sum = vector[row];
+    for (let column = 0; column < row; column += 1) {
+      sum -= lower[row][column] * whitened[column];
+    }
+    whitened[row] = sum / lower[row][row];
+  }
+  return whitened;
+}
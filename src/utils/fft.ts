@@ -0,0 +1,69 @@
+/**
+ * In-place iterative radix-2 FFT. Both arrays must have the same power-of-two length.
+ */
+export function fftInPlace(real: Float64Array, imag: Float64Array): void {
+  const size = real.length;
+  if (size !== imag.length || (size & (size - 1)) !== 0) {
+    throw new Error('FFT input length must be a power of two.');
+  }
+
+  for (let index = 1, reversed = 0; index < size; index += 1) {
+    let bit = size >> 1;
+    for (; reversed & bit; bit >>= 1) {
+      reversed ^= bit;
+    }
+    reversed ^= bit;
+    if (index < reversed) {
+      [real[index], real[reversed]] = [real[reversed], real[index]];
+      [imag[index], imag[reversed]] = [imag[reversed], imag[index]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let twiddleReal = 1;
+      let twiddleImag = 0;
+      for (let offset = 0; offset < length / 2; offset += 1) {
+        const even = start + offset;
+        const odd = even + length / 2;
+        const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag;
+        const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal;
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+}
+
+export function nextPowerOfTwo(value: number): number {
+  let size = 1;
+  while (size < value) {
+    size <<= 1;
+  }
+  return size;
+}
+
+/**
+ * Power spectrum (|X(k)|², k = 0..N/2) of a real signal, zero-padded to a power of two.
+ */
+export function powerSpectrum(signal: ArrayLike<number>, size = nextPowerOfTwo(signal.length)): Float64Array {
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+  for (let index = 0; index < Math.min(signal.length, size); index += 1) {
+    real[index] = signal[index];
+  }
+  fftInPlace(real, imag);
+  const spectrum = new Float64Array(size / 2 + 1);
+  for (let bin = 0; bin < spectrum.length; bin += 1) {
+    spectrum[bin] = real[bin] * real[bin] + imag[bin] * imag[bin];
+  }
+  return spectrum;
+}
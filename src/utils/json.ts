@@ -0,0 +1,21 @@
+import type { Json } from '../types/database';
+
+// Typed conversion of analysis results to the Json stored in jsonb columns.
+// Interfaces have no index signature, so they are not assignable to Json even
+// when every field is; JsonSafe walks the type instead and turns anything
+// JSON.stringify would drop or mangle (functions, class instances with
+// methods, typed arrays, bigint, symbols) into never, which fails the call.
+
+export type JsonSafe<T> = T extends string | number | boolean | null | undefined
+  ? T
+  : T extends (...args: never[]) => unknown
+    ? never
+    : T extends ReadonlyArray<infer Item>
+      ? ReadonlyArray<JsonSafe<Item>>
+      : T extends object
+        ? { [Key in keyof T]: JsonSafe<T[Key]> }
+        : never;
+
+export function toJson<T>(value: T & JsonSafe<T>): Json {
+  return value as Json;
+}
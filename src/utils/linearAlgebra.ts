@@ -0,0 +1,32 @@
+// Small dense linear systems: least-squares normal equations and the 8×8
+// system of a perspective transform.
+
+/**
+ * Solves `matrix · x = rhs` by Gaussian elimination with partial pivoting.
+ * Returns null when the matrix is singular.
+ */
+export function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const size = rhs.length;
+  const rows = matrix.map((row, index) => [...row, rhs[index]]);
+  for (let column = 0; column < size; column += 1) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row += 1) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    if (Math.abs(rows[column][column]) < 1e-12) {
+      return null;
+    }
+    for (let row = column + 1; row < size; row += 1) {
+      const factor = rows[row][column] / rows[column][column];
+      for (let entry = column; entry <= size; entry += 1) rows[row][entry] -= factor * rows[column][entry];
+    }
+  }
+  const solution = new Array<number>(size).fill(0);
+  for (let row = size - 1; row >= 0; row -= 1) {
+    let value = rows[row][size];
+    for (let column = row + 1; column < size; column += 1) value -= rows[row][column] * solution[column];
+    solution[row] = value / rows[row][row];
+  }
+  return solution;
+}
@@ -0,0 +1,79 @@
+import { solveLinearSystem } from './linearAlgebra';
+
+// Perspective (projective) transforms between quadrilaterals, for flattening
+// a photographed sheet of paper into a rectangle.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left.
+export type Quad = [Point, Point, Point, Point];
+
+/**
+ * The 3×3 homography, row-major with the last entry fixed at 1, that maps
+ * each `from` corner onto the matching `to` corner. Returns null when three
+ * corners are collinear.
+ */
+export function homography(from: Quad, to: Quad): number[] | null {
+  const matrix: number[][] = [];
+  const rhs: number[] = [];
+  from.forEach(({ x, y }, index) => {
+    const { x: u, y: v } = to[index];
+    matrix.push([x, y, 1, 0, 0, 0, -x * u, -y * u]);
+    rhs.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -x * v, -y * v]);
+    rhs.push(v);
+  });
+  const solution = solveLinearSystem(matrix, rhs);
+  return solution ? [...solution, 1] : null;
+}
+
+export function applyHomography(matrix: number[], { x, y }: Point): Point {
+  const w = matrix[6] * x + matrix[7] * y + matrix[8];
+  return {
+    x: (matrix[0] * x + matrix[1] * y + matrix[2]) / w,
+    y: (matrix[3] * x + matrix[4] * y + matrix[5]) / w,
+  };
+}
+
+/**
+ * Resamples the region of a single-channel image inside `corners` onto an
+ * `outWidth` × `outHeight` rectangle, bilinearly. Each output pixel is mapped
+ * back into the source, so the output has no holes.
+ */
+export function warpPerspective(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  corners: Quad,
+  outWidth: number,
+  outHeight: number,
+): Float32Array {
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: outWidth - 1, y: 0 },
+    { x: outWidth - 1, y: outHeight - 1 },
+    { x: 0, y: outHeight - 1 },
+  ];
+  const matrix = homography(target, corners);
+  if (!matrix) {
+    throw new Error('The corners do not form a quadrilateral.');
+  }
+  const at = (x: number, y: number) =>
+    pixels[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+  const output = new Float32Array(outWidth * outHeight);
+  for (let v = 0; v < outHeight; v += 1) {
+    for (let u = 0; u < outWidth; u += 1) {
+      const { x, y } = applyHomography(matrix, { x: u, y: v });
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const fx = x - x0;
+      const fy = y - y0;
+      output[v * outWidth + u] =
+        (1 - fy) * ((1 - fx) * at(x0, y0) + fx * at(x0 + 1, y0)) + fy * ((1 - fx) * at(x0, y0 + 1) + fx * at(x0 + 1, y0 + 1));
+    }
+  }
+  return output;
+}
@@ -63,7 +63,44 @@ export const downloadTestReport = async (test: Test) => {
         pdf.text(`Risk Score: ${result.riskScore}/10`, 20, yPos);
         yPos += 7;
       }
-      
+
+      // Feature contributions (voice screening): ranked bars, red toward
+      // Parkinson's and green toward healthy
+      const attributions: Array<{ label: string; contribution: number }> = result.aggregate?.attributions?.slice(0, 10) ?? [];
+      if (attributions.length) {
+        yPos += 10;
+        pdf.setFontSize(14);
+        pdf.setTextColor(40, 40, 40);
+        pdf.text('What Drove This Result', 20, yPos);
+        yPos += 6;
+
+        pdf.setFontSize(9);
+        pdf.setTextColor(100, 100, 100);
+        pdf.text('Change in probability from each measurement, compared with typical dataset recordings.', 20, yPos);
+        yPos += 7;
+
+        const axisX = 125;
+        const halfWidth = pageWidth - 20 - axisX - 12;
+        const largest = Math.max(...attributions.map((attribution) => Math.abs(attribution.contribution)), 1e-6);
+        pdf.setDrawColor(180, 180, 180);
+        pdf.line(axisX, yPos - 3, axisX, yPos + attributions.length * 6 - 2);
+        attributions.forEach(({ label, contribution }) => {
+          const width = (Math.abs(contribution) / largest) * halfWidth / 2;
+          pdf.setTextColor(60, 60, 60);
+          pdf.text(label, 20, yPos);
+          if (contribution > 0) {
+            pdf.setFillColor(220, 80, 80);
+            pdf.rect(axisX, yPos - 3, width, 4, 'F');
+          } else {
+            pdf.setFillColor(60, 170, 120);
+            pdf.rect(axisX - width, yPos - 3, width, 4, 'F');
+          }
+          const points = `${contribution > 0 ? '+' : ''}${(contribution * 100).toFixed(1)}`;
+          pdf.text(points, contribution > 0 ? axisX + width + 2 : axisX + 2, yPos);
+          yPos += 6;
+        });
+      }
+
       // Detailed Analysis
       if (result.details) {
         yPos += 10;
@@ -0,0 +1,207 @@
+// Binarisation and thinning for photographed drawings: ink is separated from
+// paper with Otsu's threshold, or a local one under uneven lighting, and
+// thinned to one-pixel-wide lines (Zhang & Suen 1984), so a photographed
+// stroke can be measured like a pen path.
+
+/** Luma (0-255) of each pixel of an RGBA image. */
+export function greyscale(image: ImageData): Float32Array {
+  const { data, width, height } = image;
+  const grey = new Float32Array(width * height);
+  for (let index = 0; index < grey.length; index += 1) {
+    grey[index] = 0.299 * data[index * 4] + 0.587 * data[index * 4 + 1] + 0.114 * data[index * 4 + 2];
+  }
+  return grey;
+}
+
+/** Otsu's threshold over 8-bit grey levels; pixels at or below it are the darker class. */
+export function otsuThreshold(grey: ArrayLike<number>): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let index = 0; index < grey.length; index += 1) {
+    histogram[Math.max(0, Math.min(255, Math.round(grey[index])))] += 1;
+  }
+  const total = grey.length;
+  const weightedTotal = histogram.reduce((sum, count, level) => sum + count * level, 0);
+  let darkCount = 0;
+  let darkSum = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let level = 0; level < 256; level += 1) {
+    darkCount += histogram[level];
+    if (!darkCount || darkCount === total) continue;
+    darkSum += histogram[level] * level;
+    const darkMean = darkSum / darkCount;
+    const lightMean = (weightedTotal - darkSum) / (total - darkCount);
+    const between = darkCount * (total - darkCount) * (darkMean - lightMean) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = level;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Ink mask (1 = ink) of an RGBA image. Ink is taken to be the minority class,
+ * so light ink on dark paper works as well as the usual dark on light.
+ */
+export function inkMask(image: ImageData): Uint8Array {
+  const grey = greyscale(image);
+  const threshold = otsuThreshold(grey);
+  const mask = new Uint8Array(grey.length);
+  let dark = 0;
+  grey.forEach((value, index) => {
+    if (value <= threshold) {
+      mask[index] = 1;
+      dark += 1;
+    }
+  });
+  if (dark > grey.length / 2) {
+    mask.forEach((value, index) => { mask[index] = value ? 0 : 1; });
+  }
+  return mask;
+}
+
+/**
+ * Ink mask (1 = ink) by Bradley-Roth adaptive thresholding: a pixel is ink
+ * when it is more than `contrast` darker than the mean of the `window` × `window`
+ * square around it. Shadows and lighting gradients change slowly across the
+ * page, so they shift the local mean with the pixel and are not taken for ink.
+ */
+export function adaptiveThreshold(
+  grey: ArrayLike<number>,
+  width: number,
+  height: number,
+  window: number,
+  contrast = 0.15,
+): Uint8Array {
+  // Summed-area table with a zero row and column in front.
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y += 1) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x += 1) {
+      rowSum += grey[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+  const half = Math.floor(window / 2);
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y += 1) {
+    const top = Math.max(0, y - half);
+    const bottom = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x += 1) {
+      const left = Math.max(0, x - half);
+      const right = Math.min(width, x + half + 1);
+      const sum = integral[bottom * stride + right] - integral[top * stride + right]
+        - integral[bottom * stride + left] + integral[top * stride + left];
+      const mean = sum / ((bottom - top) * (right - left));
+      if (grey[y * width + x] < mean * (1 - contrast)) mask[y * width + x] = 1;
+    }
+  }
+  return mask;
+}
+
+/** Zhang-Suen thinning of a binary mask, in place; returns the mask. */
+export function thinMask(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const at = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : mask[y * width + x]);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const pass of [0, 1]) {
+      const remove: number[] = [];
+      for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+          if (!mask[y * width + x]) continue;
+          // Neighbours P2..P9, clockwise from north.
+          const p = [at(x, y - 1), at(x + 1, y - 1), at(x + 1, y), at(x + 1, y + 1), at(x, y + 1), at(x - 1, y + 1), at(x - 1, y), at(x - 1, y - 1)];
+          const neighbours = p.reduce((sum, value) => sum + value, 0);
+          if (neighbours < 2 || neighbours > 6) continue;
+          let transitions = 0;
+          for (let index = 0; index < 8; index += 1) {
+            if (!p[index] && p[(index + 1) % 8]) transitions += 1;
+          }
+          if (transitions !== 1) continue;
+          const [p2, , p4, , p6, , p8] = p;
+          if (pass === 0 ? p2 * p4 * p6 || p4 * p6 * p8 : p2 * p4 * p8 || p2 * p6 * p8) continue;
+          remove.push(y * width + x);
+        }
+      }
+      remove.forEach((index) => { mask[index] = 0; });
+      changed = changed || remove.length > 0;
+    }
+  }
+  return mask;
+}
+
+/** Calls `visit` with the pixel indices of each 8-connected component of the mask. */
+export function forEachComponent(mask: Uint8Array, width: number, height: number, visit: (component: number[]) => void) {
+  const seen = new Uint8Array(mask.length);
+  for (let start = 0; start < mask.length; start += 1) {
+    if (!mask[start] || seen[start]) continue;
+    const component: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length) {
+      const index = stack.pop()!;
+      component.push(index);
+      const x = index % width;
+      const y = Math.floor(index / width);
+      for (let dy = -1; dy <= 1; dy += 1) {
+        for (let dx = -1; dx <= 1; dx += 1) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const neighbour = ny * width + nx;
+          if (mask[neighbour] && !seen[neighbour]) {
+            seen[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+    visit(component);
+  }
+}
+
+/**
+ * Clears 8-connected components smaller than `minShare` of all set pixels,
+ * which removes specks of dust and paper texture; returns the mask.
+ */
+export function removeSmallComponents(mask: Uint8Array, width: number, height: number, minShare = 0.02): Uint8Array {
+  const total = mask.reduce((sum, value) => sum + value, 0);
+  forEachComponent(mask, width, height, (component) => {
+    if (component.length < minShare * total) {
+      component.forEach((index) => { mask[index] = 0; });
+    }
+  });
+  return mask;
+}
+
+/**
+ * Clears components lying entirely within `band` pixels of the image's edge,
+ * such as what remains of a sheet's border or its shadow; a drawing that
+ * merely runs to the edge is kept. Returns the mask.
+ */
+export function removeBorderComponents(mask: Uint8Array, width: number, height: number, band: number): Uint8Array {
+  forEachComponent(mask, width, height, (component) => {
+    const xs = component.map((index) => index % width);
+    const ys = component.map((index) => Math.floor(index / width));
+    const left = Math.min(...xs);
+    const right = Math.max(...xs);
+    const top = Math.min(...ys);
+    const bottom = Math.max(...ys);
+    if (right < band || left >= width - band || bottom < band || top >= height - band) {
+      component.forEach((index) => { mask[index] = 0; });
+    }
+  });
+  return mask;
+}
+
+/** Pixel indices of the largest 8-connected component, empty for an empty mask. */
+export function largestComponent(mask: Uint8Array, width: number, height: number): number[] {
+  let largest: number[] = [];
+  forEachComponent(mask, width, height, (component) => {
+    if (component.length > largest.length) largest = component;
+  });
+  return largest;
+}
@@ -10,6 +10,11 @@ declare global {
     readonly VITE_OPENROUTER_FALLBACK_MODEL?: string;
     readonly VITE_OPENROUTER_SYSTEM_PROMPT?: string;
     readonly VITE_APP_URL?: string;
+    readonly VITE_VOICE_FEATURE_GROUPS?: string;
+    readonly VITE_VOICE_CLASSIFIER?: string;
+    readonly VITE_VOICE_CLASSIFIER_PARAMS?: string;
+    readonly VITE_VOICE_PROBABILITY_CALIBRATION?: string;
+    readonly VITE_VOICE_IMPUTATION?: string;
   }
 
   interface ImportMeta {
@@ -0,0 +1,36 @@
+-- Create microphone_calibrations table for per-device voice feature transforms
+CREATE TABLE public.microphone_calibrations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  device_label TEXT,
+  method TEXT NOT NULL CHECK (method IN ('reference-tone', 'baseline-vowels')),
+  transform JSONB NOT NULL,
+  reference_count INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (patient_id, device_id)
+);
+
+COMMENT ON TABLE public.microphone_calibrations IS 'Stores per-user, per-microphone transforms that map recorded voice features into the reference dataset scale';
+
+-- Enable RLS
+ALTER TABLE public.microphone_calibrations ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to view and manage their own calibration profiles
+CREATE POLICY "Users can view their own microphone calibrations"
+ON public.microphone_calibrations
+FOR SELECT
+USING (auth.uid() = patient_id);
+
+CREATE POLICY "Users can create their own microphone calibrations"
+ON public.microphone_calibrations
+FOR INSERT
+WITH CHECK (auth.uid() = patient_id);
+
+CREATE POLICY "Users can update their own microphone calibrations"
+ON public.microphone_calibrations
+FOR UPDATE
+USING (auth.uid() = patient_id);
+
+-- Create index for faster queries
+CREATE INDEX idx_microphone_calibrations_patient_id ON public.microphone_calibrations(patient_id);
@@ -0,0 +1,10 @@
+-- Digital spiral/wave drawing test: rows with test_type 'drawing' keep the
+-- raw pen samples in storage (raw_storage_path) and the computed kinematics in
+-- their own column so they can be queried and compared across visits.
+ALTER TABLE public.tests ADD COLUMN kinematics JSONB;
+
+COMMENT ON COLUMN public.tests.test_type IS 'speech, spiral, wave, video, upload, handwriting or drawing';
+COMMENT ON COLUMN public.tests.kinematics IS 'Pen kinematics of a drawing test: speed, acceleration, jerk, pen lifts, pressure, tilt and tremor frequency/amplitude';
+
+-- Drawing tests are charted per patient over time
+CREATE INDEX idx_tests_patient_drawing ON public.tests(patient_id, created_at) WHERE test_type = 'drawing';
@@ -0,0 +1,33 @@
+-- Printed drawing templates: each template is a session whose id is encoded
+-- in the template's QR code, so photos of the completed sheet are linked to
+-- the session they were drawn in.
+CREATE TABLE public.drawing_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  template_version TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.drawing_sessions IS 'Printed spiral/wave drawing templates; the QR code on each template carries the patient and session id';
+
+ALTER TABLE public.tests ADD COLUMN session_id UUID REFERENCES public.drawing_sessions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.tests.session_id IS 'Drawing session whose printed template appears in the photo, when one was recognised';
+
+-- Enable RLS
+ALTER TABLE public.drawing_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Allow users to view and create their own sessions
+CREATE POLICY "Users can view their own drawing sessions"
+ON public.drawing_sessions
+FOR SELECT
+USING (auth.uid() = patient_id);
+
+CREATE POLICY "Users can create their own drawing sessions"
+ON public.drawing_sessions
+FOR INSERT
+WITH CHECK (auth.uid() = patient_id);
+
+-- Create indexes for faster queries
+CREATE INDEX idx_drawing_sessions_patient_id ON public.drawing_sessions(patient_id);
+CREATE INDEX idx_tests_session_id ON public.tests(session_id) WHERE session_id IS NOT NULL;